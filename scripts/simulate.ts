@@ -0,0 +1,93 @@
+// Plays every level in levels.json many times with a bot and prints win rate,
+// average time to win, average score and why runs were lost, for tuning
+// startingLines / targetLines / raiseRate.
+//
+//   npm run simulate -- --runs 50 --bot hard --level level-3
+//
+// Options:
+//   --runs N        runs per level (default 20)
+//   --bot NAME      random | easy | normal | hard (default normal)
+//   --level ID      only this level (repeatable)
+//   --seed N        first seed; run i uses seed + i (default 1)
+//   --max-secs N    simulated seconds before a run counts as a timeout
+//   --reaction MS, --step MS, --depth N, --mistakes P
+//                   override the bot's reaction time, cursor step, search depth
+//                   and mistake rate
+
+import LEVELS from '../src/levels';
+import {
+  BOT_NAMES,
+  BOT_STRATEGIES,
+  DEFAULT_MAX_RUN_MS,
+  formatReports,
+  simulateLevel,
+  type BotName,
+} from '../src/lib/simulator';
+
+function parseArgs(argv: string[]): Map<string, string[]> {
+  const args = new Map<string, string[]>();
+  for (let i = 0; i < argv.length; i++) {
+    const m = /^--(.+)$/.exec(argv[i]);
+    if (!m) throw new Error(`Unexpected argument '${argv[i]}'`);
+    const value = argv[i + 1];
+    if (value === undefined) throw new Error(`--${m[1]} needs a value`);
+    args.set(m[1], [...(args.get(m[1]) ?? []), value]);
+    i++;
+  }
+  return args;
+}
+
+function numberArg(args: Map<string, string[]>, name: string): number | undefined {
+  const raw = args.get(name)?.at(-1);
+  if (raw === undefined) return undefined;
+  const n = Number(raw);
+  if (!Number.isFinite(n)) throw new Error(`--${name} must be a number, got '${raw}'`);
+  return n;
+}
+
+function main() {
+  // the engine traces every swap at debug level, which would bury the report
+  console.debug = () => {};
+  const args = parseArgs(process.argv.slice(2).filter((a) => a !== '--'));
+  const botName = (args.get('bot')?.at(-1) ?? 'normal') as BotName;
+  if (!BOT_NAMES.includes(botName)) {
+    throw new Error(`--bot must be one of ${BOT_NAMES.join(', ')}, got '${botName}'`);
+  }
+  const base = BOT_STRATEGIES[botName];
+  const bot = {
+    reactionMs: numberArg(args, 'reaction') ?? base.reactionMs,
+    cursorStepMs: numberArg(args, 'step') ?? base.cursorStepMs,
+    searchDepth: numberArg(args, 'depth') ?? base.searchDepth,
+    mistakeRate: numberArg(args, 'mistakes') ?? base.mistakeRate,
+  };
+  const runs = numberArg(args, 'runs') ?? 20;
+  const seed = numberArg(args, 'seed') ?? 1;
+  const maxSecs = numberArg(args, 'max-secs');
+  const maxRunMs = maxSecs === undefined ? DEFAULT_MAX_RUN_MS : maxSecs * 1000;
+
+  const only = args.get('level');
+  const picked = only ? LEVELS.filter((l) => only.includes(l.id)) : LEVELS;
+  const unknown = only?.filter((id) => !LEVELS.some((l) => l.id === id)) ?? [];
+  if (unknown.length > 0) throw new Error(`Unknown level ${unknown.join(', ')}`);
+  // Mask images are decoded on a canvas, which Node doesn't have
+  const levels = picked.filter((l) => !l.mask);
+  for (const l of picked) {
+    if (l.mask) console.log(`${l.id}: skipped (arena masks can only be simulated in the browser)`);
+  }
+
+  console.log(`${runs} runs per level, bot ${botName} ${JSON.stringify(bot)}\n`);
+  const reports = levels.map((level) => {
+    const report = simulateLevel(level, runs, seed, { bot, maxRunMs });
+    // progress, since a long sweep takes a while
+    console.log(`${level.id}: ${report.wins}/${runs} won`);
+    return report;
+  });
+  console.log(`\n${formatReports(reports)}`);
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exit(1);
+}
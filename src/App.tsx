@@ -2,20 +2,41 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import { useLocation } from 'react-router-dom';
 import WinLine from './ui/WinLine';
 import { useNavigate } from 'react-router-dom';
-import { Engine } from './game-core/engine';
+import { Engine, type Combo, type GameState } from './game-core/engine';
 import { createEngineManager } from './lib/engineManager';
 
 import { drawStateToCanvas, type Skin } from './renderer/canvasRenderer';
-import { updateCursorOverlay, removeCursorOverlay } from './lib/cursorOverlay';
+import {
+  HINT_OVERLAY_ID,
+  updateCursorOverlay,
+  removeCursorOverlay,
+} from './lib/cursorOverlay';
+import { hintSvg } from './ui/CursorSVG';
+import { findMatchingSwaps, type SwapOption } from './game-core/moves';
+import { HINT_MS, loadShowNoMoves } from './lib/hints';
 import useGameInput from './hooks/useGameInput';
 import useCanvasGestures, { type GestureApi } from './hooks/useCanvasGestures';
 import { createAudioManager } from './lib/audioManager';
 import { buildBgSkin, buildFgSkin } from './lib/graphics';
+import { applyLevelSetup, type LevelSetup } from './lib/levelSetup';
+import { createReplayRecorder, LAST_REPLAY_KEY, type ReplayRecorder } from './lib/replay';
+import { clearSavedRun, loadSavedRun, saveRun, type SavedRun } from './lib/savedRun';
+import { ENDLESS_LEVEL_ID, ENDLESS_SETUP, recordEndlessScore } from './lib/endless';
+import {
+  TIME_ATTACK_LEVEL_ID,
+  formatClock,
+  loadTimeAttackMinutes,
+  timeAttackScores,
+  timeAttackSetup,
+} from './lib/timeAttack';
 
 import tilesGemsPng from './assets/sprites/gems.png';
 import tilesGemsXmlUrl from './assets/sprites/gems.xml?url';
 import { type Atlas, loadGemsAtlas } from './atlas'; // atlas helpers moved to src/atlas.ts
-import LEVELS from './levels';
+import { loadedMask, loadMask } from './mask';
+import LEVELS, { DEFAULT_BOARD } from './levels';
+import { findLevel, nextLevelId, splitPackLevelId } from './levels/packs';
+import { loadInstalledPacks, markPackLevelCleared } from './lib/packStore';
 import Footer from './components/Footer';
 import snd0 from './assets/sounds/impactMining_000.ogg?url';
 import snd1 from './assets/sounds/impactMining_001.ogg?url';
@@ -24,11 +45,57 @@ import snd3 from './assets/sounds/impactMining_003.ogg?url';
 import snd4 from './assets/sounds/impactMining_004.ogg?url';
 import swapSnd from './assets/sounds/swap.ogg?url';
 
-// Default target lines used when a level doesn't provide one.
-const DEFAULT_TARGET_LINES = 10;
-
 // Preset keys removed — use a single explicit raise rate in inputs
 
+// How often a running level is re-saved so an evicted tab loses little progress
+const RUN_SAVE_INTERVAL_MS = 5000;
+
+// Snapshots kept for rewinding in practice mode (swaps and risen rows)
+const PRACTICE_REWIND_DEPTH = 32;
+
+// How long the combo callout stays over the board
+const COMBO_FLASH_MS = 1200;
+
+// Grace left before the stack at the top (or against the arena mask) loses
+// the run, or undefined while it has room
+function ceilingLeftMs(s: GameState): number | undefined {
+  const left: number[] = [];
+  if (s.topOutMs !== null) left.push(s.topOutGraceMs - s.topOutMs);
+  if (s.maskContactMs !== null) left.push(s.maskGraceMs - s.maskContactMs);
+  return left.length > 0 ? Math.max(0, Math.min(...left)) : undefined;
+}
+
+// Short HUD callout for a combo, e.g. "2 groups + T-combo"
+function comboLabel(combo: Combo): string {
+  const parts: string[] = [];
+  if (combo.groups.length > 1) parts.push(`${combo.groups.length} groups`);
+  for (const g of combo.groups) {
+    if (g.shape !== 'line') parts.push(`${g.shape}-combo`);
+    else if (g.size >= 4) parts.push(`${g.size}-combo`);
+  }
+  return parts.join(' + ');
+}
+
+// Levels, or one of the arcade modes that run on a generated board with a
+// local top-10 instead (see lib/endless.ts and lib/timeAttack.ts)
+type RunMode = 'level' | 'endless' | 'timeAttack';
+
+// The mode of a saved run, from the id it was saved under
+function runModeOf(levelId: string): RunMode {
+  if (levelId === ENDLESS_LEVEL_ID) return 'endless';
+  if (levelId === TIME_ATTACK_LEVEL_ID) return 'timeAttack';
+  return 'level';
+}
+
+// Router state accepted by /play
+type PlayNavState = {
+  startLevelId?: string;
+  seed?: number;
+  resume?: boolean;
+  practice?: boolean;
+  mode?: RunMode;
+};
+
 // ----------------------------------------------------------------------------
 
 /**
@@ -53,8 +120,45 @@ export default function App() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const engineRef = useRef<Engine | null>(null);
   const engineMgrRef = useRef(createEngineManager());
+  // Records input for the current run so it can be watched back on /replay
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  // Level id of the running engine and when it was last saved for resuming
+  // (null when the run is finished and there is nothing to resume)
+  const runLevelIdRef = useRef<string | null>(null);
+  const runSaveAtRef = useRef<number | null>(null);
+  // Saved run offered when /play is opened without an explicit level
+  const [resumeOffer, setResumeOffer] = useState<SavedRun | null>(null);
+  // Pack level that was asked for but isn't installed (shown instead of a run)
+  const [missingLevelId, setMissingLevelId] = useState<string | null>(null);
+  // Practice runs can rewind swaps and their scores stay out of the playthrough
+  const [practice, setPractice] = useState(false);
+  const practiceRef = useRef(false);
+  // Endless and time attack runs never end in a win; the final score goes to
+  // the mode's local top-10
+  const [runMode, setRunModeState] = useState<RunMode>('level');
+  const runModeRef = useRef<RunMode>('level');
+  // Rank of the finished run in its mode's top-10 (null: didn't place)
+  const [modeRank, setModeRank] = useState<number | null>(null);
+  // Clock length of the current time attack run (each length has its own table)
+  const timeAttackMinutesRef = useRef(loadTimeAttackMinutes());
+  // Resumed runs have no replay, so the game-over overlay hides "Watch Replay"
+  const [canWatchReplay, setCanWatchReplay] = useState(false);
   const lastCursorRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
   const cursorOverlayRef = useRef<HTMLDivElement | null>(null);
+  // Hint (H): waits for the board to come to rest, then highlights the best
+  // matching swap for HINT_MS. The swap's row is kept against rowsInserted
+  // since the stack keeps rising under it.
+  const hintRef = useRef<{
+    requestedAt: number;
+    swap: (SwapOption & { rowsInserted: number; shownAt: number }) | null;
+  } | null>(null);
+  // "No moves available": always on a stuck resting board if enabled in
+  // Options, or flashed when a hint finds nothing
+  const showNoMovesRef = useRef(loadShowNoMoves());
+  const noMovesFlashUntilRef = useRef(0);
+  const stuckRef = useRef(false);
+  const movesCheckAtRef = useRef(0);
+  const [noMoves, setNoMoves] = useState(false);
 
   // Skins
   const backtilesAtlasRef = useRef<Atlas | null>(null);
@@ -63,8 +167,13 @@ export default function App() {
   // Cursor overlay removed
 
   const CELL = 64;
-  const WIDTH = 6;
-  const HEIGHT = 12;
+  // Board size comes from the level being played
+  const [board, setBoard] = useState<{ width: number; height: number }>({
+    width: DEFAULT_BOARD.width,
+    height: DEFAULT_BOARD.height,
+  });
+  const WIDTH = board.width;
+  const HEIGHT = board.height;
 
   const [scene, setScene] = useState<'title' | 'play'>('play');
   // Detect mobile viewport and adjust UI: on mobile we show a minimal UI.
@@ -98,6 +207,12 @@ export default function App() {
       // ignore storage errors
     }
   }, []);
+  // Register installed level packs so their levels can be started and resumed;
+  // startGame waits on this before starting a pack level it can't find yet
+  const packsLoadedRef = useRef<Promise<unknown> | null>(null);
+  useEffect(() => {
+    packsLoadedRef.current = loadInstalledPacks();
+  }, []);
   // Keep a ref of selectedLevelId so long-lived event handlers can read the
   // latest value without re-registering listeners.
   const selectedLevelIdRef = useRef<string>(selectedLevelId);
@@ -113,8 +228,6 @@ export default function App() {
   const xPrevRateRef = useRef<number | null>(null);
   // Track the base raise rate for the current level so X-release can restore correctly
   const baseRaiseRateRef = useRef<number | null>(null);
-  // Remember previous scroll speed so we can restore after unpausing
-  const prevScrollSpeedRef = useRef<number | null>(null);
 
   useEffect(() => {
     try {
@@ -128,7 +241,26 @@ export default function App() {
   const musicRef = useRef<HTMLAudioElement | null>(null);
   // Guard to prevent double-advancing to next level
   const advancingRef = useRef(false);
-  const [hud, setHud] = useState({
+  // Latest combo callout; `id` restarts the fade for back-to-back combos
+  const [comboFlash, setComboFlash] = useState<{ id: number; label: string; bonus: number } | null>(
+    null,
+  );
+  const comboTimerRef = useRef<number | null>(null);
+  const [hud, setHud] = useState<{
+    score: number;
+    matches: number;
+    chains: number;
+    linesEq: number;
+    tilesAbove: number;
+    hasWon: boolean;
+    hasLost: boolean;
+    timeUp?: boolean;
+    risePauseMs: number;
+    risePauseMaxMs: number;
+    // time left before a stack stuck at the top (or touching the arena mask)
+    // loses the run
+    ceilingLeftMs?: number;
+  }>({
     score: 0,
     matches: 0,
     chains: 0,
@@ -156,6 +288,8 @@ export default function App() {
   );
 
   const [winLine, setWinLine] = useState({ percent: 0, yPx: -9999 });
+  // Seed of the running engine, shown in the HUD so a run can be reproduced
+  const [runSeed, setRunSeed] = useState<number | null>(null);
   const [titleHover, setTitleHover] = useState(false);
   const [optionsHover, setOptionsHover] = useState(false);
   const [levelsHover, setLevelsHover] = useState(false);
@@ -278,7 +412,7 @@ export default function App() {
 
   // When a level is selected, copy its settings into the inputs so Start uses them.
   useEffect(() => {
-    const lvl = LEVELS.find((l) => l.id === selectedLevelId);
+    const lvl = findLevel(selectedLevelId);
     if (lvl) {
       setInputs((p) => ({
         ...p,
@@ -286,6 +420,8 @@ export default function App() {
         targetLines: lvl.targetLines,
         rate: lvl.raiseRate,
       }));
+      // Decode the arena mask ahead of time so the run can start with it
+      if (lvl.mask) loadMask(lvl.mask).catch(() => undefined);
     }
   }, [selectedLevelId]);
 
@@ -347,28 +483,27 @@ export default function App() {
   useEffect(() => {
     // Auto-start: when mounted for /play, start the level immediately (mobile and desktop).
     if (scene === 'play' && !engineRef.current) {
-      const navState = (location as unknown as { state?: { startLevelId?: string } })?.state;
-      const startLevelId = navState?.startLevelId;
-      if (startLevelId) startGame(startLevelId);
-      else startGame();
+      startFromNavigation();
     }
     // run once on mount
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Leaving /play any other way (e.g. browser back) keeps the run resumable
+  useEffect(() => {
+    return () => saveCurrentRun();
+  }, []);
+
   // Also auto-start when navigation brings us to /play with a startLevelId
   // (covers client-side Title -> Play navigation when App is already mounted).
   useEffect(() => {
     try {
       const path = location.pathname || '';
       if (!path.startsWith('/play')) return;
-      const navState = (location as unknown as { state?: { startLevelId?: string } })?.state;
-      const startLevelId = navState?.startLevelId;
       // If engine already running, do nothing
       if (engineRef.current) return;
       // Auto-start regardless of device when navigating to /play
-      if (startLevelId) startGame(startLevelId);
-      else startGame();
+      startFromNavigation();
     } catch {
       /* ignore */
     }
@@ -386,19 +521,18 @@ export default function App() {
     WIDTH,
     HEIGHT,
     lastCursorRef,
-    startGame,
+    // R restarts the level in the same mode
+    startGame: (levelId?: string) =>
+      startGame(levelId, { practice: practiceRef.current, mode: runModeRef.current }),
     togglePause,
+    onRewind: () => rewindRun(),
+    onHint: () => {
+      hintRef.current = { requestedAt: performance.now(), swap: null };
+    },
     // When user presses Z/Space after a win, advance to the next level
     onWinAdvance: () => {
       try {
-        const idx = LEVELS.findIndex((l) => l.id === selectedLevelId);
-        const nextIdx = idx + 1;
-        if (nextIdx >= LEVELS.length) {
-          navigate('/you-beat');
-        } else {
-          const nextId = LEVELS[nextIdx].id;
-          advanceToLevel(nextId);
-        }
+        goToNextLevel();
       } catch {
         /* ignore */
       }
@@ -420,7 +554,7 @@ export default function App() {
     if (!ctx) return;
     const rect = canvas.getBoundingClientRect();
     const dpr = rect.width > 0 ? canvas.width / rect.width : 1;
-    const canvasCellSize = canvas.width / WIDTH; // in canvas pixels
+    const canvasCellSize = canvas.width / engine.width; // in canvas pixels
     const s = engine.getState();
     const scrollPx = (s.scrollOffsetPx ?? 0) * dpr;
     try {
@@ -442,11 +576,14 @@ export default function App() {
         // Prefer a stored CSS cell size (set during computeAndApplySize) so
         // hit-testing matches how we compute engine.cellSize. Fall back to
         // dividing the bounding rect when not available.
+        // This API is created once, so read the board size from the live engine.
+        const cols = engineRef.current?.width ?? DEFAULT_BOARD.width;
+        const rows = engineRef.current?.height ?? DEFAULT_BOARD.height;
         const canvasWithMeta = canvas as HTMLCanvasElement & { _cssCellSize?: number };
-        const cssCell = canvasWithMeta._cssCellSize ?? (rect.height / HEIGHT);
+        const cssCell = canvasWithMeta._cssCellSize ?? (rect.height / rows);
   const round = (v: number, max: number) => Math.max(0, Math.min(max - 1, Math.round(v)));
-  const col = round(relX / cssCell, WIDTH);
-  const row = round(relY / cssCell, HEIGHT);
+  const col = round(relX / cssCell, cols);
+  const row = round(relY / cssCell, rows);
   return { col, row };
       },
       moveCursorToCell: (col, row) => {
@@ -469,6 +606,10 @@ export default function App() {
         drawFrameImmediate();
       },
       drawFrame: () => drawFrameImmediate(),
+      twoFingerTap: () => {
+        rewindRun();
+        drawFrameImmediate();
+      },
     };
   }
 
@@ -580,17 +721,8 @@ export default function App() {
             canvasWithMeta._devicePixelRatio = dpr;
             canvasWithMeta._cssCellSize = cssCellSize;
 
-            if (engineRef.current) {
-              engineRef.current.cellSize = cssCellSize;
-              try {
-                if (baseRaiseRateRef.current) {
-                  engineRef.current.scrollSpeedPxPerSec =
-                    baseRaiseRateRef.current * engineRef.current.cellSize;
-                }
-              } catch {
-                /* ignore */
-              }
-            }
+            // setCellSize also recomputes the scroll speed from the raise rate
+            if (engineRef.current) engineRef.current.setCellSize(cssCellSize);
 
             return;
           } catch {
@@ -657,18 +789,7 @@ export default function App() {
 
         // If engine exists, set its cellSize to CSS pixels so logic that uses
         // engine.cellSize (e.g., scroll speed) remains in CSS coordinate space.
-        if (engineRef.current) {
-          engineRef.current.cellSize = cssCellSize;
-          // Recompute scroll speed if a base raise rate is present
-          try {
-            if (baseRaiseRateRef.current) {
-              engineRef.current.scrollSpeedPxPerSec =
-                baseRaiseRateRef.current * engineRef.current.cellSize;
-            }
-          } catch {
-            /* ignore */
-          }
-        }
+        if (engineRef.current) engineRef.current.setCellSize(cssCellSize);
       } catch {
         // fallback to fixed sizing
         canvas.width = WIDTH * CELL;
@@ -699,6 +820,8 @@ export default function App() {
     // input handlers moved to useGameInput hook
     // Auto-pause when the tab/window loses focus
     const onVisibilityChange = () => {
+      // Mobile browsers may evict a hidden tab without further notice
+      if (document.hidden) saveCurrentRun();
       if (scene === 'play' && !pausedRef.current && document.hidden) {
         // behave as if pause button was pressed
         pausedByFocusRef.current = true;
@@ -708,12 +831,7 @@ export default function App() {
             xHoldRef.current = false;
             const prev = xPrevRateRef.current;
             if (typeof prev === 'number' && engineRef.current) {
-              engineRef.current.autoRiseRateRowsPerSec = prev;
-              try {
-                engineRef.current.scrollSpeedPxPerSec = prev * engineRef.current.cellSize;
-              } catch {
-                /* ignore */
-              }
+              engineRef.current.setRaiseRate(prev);
             }
             xPrevRateRef.current = null;
           }
@@ -733,12 +851,7 @@ export default function App() {
             xHoldRef.current = false;
             const prev = xPrevRateRef.current;
             if (typeof prev === 'number' && engineRef.current) {
-              engineRef.current.autoRiseRateRowsPerSec = prev;
-              try {
-                engineRef.current.scrollSpeedPxPerSec = prev * engineRef.current.cellSize;
-              } catch {
-                /* ignore */
-              }
+              engineRef.current.setRaiseRate(prev);
             }
             xPrevRateRef.current = null;
           }
@@ -749,22 +862,26 @@ export default function App() {
       }
     };
 
+    const onPageHide = () => saveCurrentRun();
+
     window.addEventListener('visibilitychange', onVisibilityChange);
     window.addEventListener('blur', onWindowBlur);
+    window.addEventListener('pagehide', onPageHide);
 
     let raf = 0;
     let last = performance.now();
     const ctx = canvas.getContext('2d')!;
 
     // Main game loop
-    const loop = () => { 
+    const loop = () => {
       const now = performance.now();
       const dt = now - last;
       last = now;
 
       if (scene === 'play' && engineRef.current) {
-        engineRef.current.update(dt);
-        const s = engineRef.current.getState();
+        // The engine simulates in fixed ticks; render interpolated between them
+        const alpha = engineRef.current.advance(dt);
+        const s = engineRef.current.getState(alpha);
 
         // Skins (background + foreground) when atlases are ready —
         // use the extracted helpers in src/lib/graphics.ts
@@ -783,7 +900,7 @@ export default function App() {
           !(lastCursorRef.current.x === 0 && lastCursorRef.current.y === 0)
         ) {
           engineRef.current.setCursorAbsolute(lastCursorRef.current.x, lastCursorRef.current.y);
-          const s2 = engineRef.current.getState();
+          const s2 = engineRef.current.getState(alpha);
           // Use canvas backing units: cell size in canvas pixels = cssCellSize * dpr
           const dpr = canvasWithMeta._devicePixelRatio || 1;
           const cssCell = canvasWithMeta._cssCellSize || CELL;
@@ -829,6 +946,51 @@ export default function App() {
 
         lastCursorRef.current = { x: s.cursorX, y: s.cursorY };
 
+        // Hint highlight and the "No moves available" indicator
+        try {
+          const e = engineRef.current;
+          const over = s.hasWon || s.hasLost || s.timeUp;
+          const hint = hintRef.current;
+          const settled = e.isSettled();
+          if (hint && !hint.swap && settled) {
+            const best = findMatchingSwaps(e.grid)[0];
+            if (best) hint.swap = { ...best, rowsInserted: e.rowsInserted, shownAt: now };
+            else {
+              hintRef.current = null;
+              noMovesFlashUntilRef.current = now + HINT_MS;
+            }
+          }
+          const shown = hintRef.current;
+          const expired =
+            !!shown &&
+            (shown.swap ? now - shown.swap.shownAt : now - shown.requestedAt) >= HINT_MS;
+          if (!shown || expired || over) {
+            hintRef.current = null;
+            removeCursorOverlay(cursorOverlayRef.current, HINT_OVERLAY_ID);
+          } else if (shown.swap && cursorOverlayRef.current) {
+            const cssCell = canvasWithMeta._cssCellSize || CELL;
+            const row = shown.swap.y - (e.rowsInserted - shown.swap.rowsInserted);
+            updateCursorOverlay(
+              cursorOverlayRef.current,
+              HINT_OVERLAY_ID,
+              shown.swap.x * cssCell,
+              row * cssCell - (s.scrollOffsetPx ?? 0),
+              cssCell * 2,
+              cssCell,
+              Math.max(4, Math.floor(cssCell * 0.08)),
+              hintSvg,
+            );
+          }
+          // The full search is cheap but not free; a few checks a second is plenty
+          if (showNoMovesRef.current && settled && now >= movesCheckAtRef.current) {
+            movesCheckAtRef.current = now + 250;
+            stuckRef.current = findMatchingSwaps(e.grid).length === 0;
+          }
+          setNoMoves(!over && (stuckRef.current || now < noMovesFlashUntilRef.current));
+        } catch {
+          /* ignore */
+        }
+
         // Compute win line percent and Y for the DOM WinLine component.
         const engine = engineRef.current;
         const total = Math.max(1, engine.totalLevelLines || 1);
@@ -840,7 +1002,7 @@ export default function App() {
         // clamping the upper bound forced off-screen values to the bottom
         // of the canvas which made the line appear incorrectly. Allow
         // rawWinY > canvas height so parent `overflow: hidden` keeps it hidden.
-        const clampedWinY = Math.max(-CELL, rawWinY);
+        const clampedWinY = Math.max(-(canvasWithMeta._cssCellSize || CELL), rawWinY);
         setWinLine({ percent: pct, yPx: clampedWinY });
 
         // HUD: tiles above dashed line (derived)
@@ -861,12 +1023,56 @@ export default function App() {
           tilesAbove,
           hasWon: s.hasWon,
           hasLost: s.hasLost,
+          timeUp: s.timeUp,
           risePauseMs: s.risePauseMs ?? 0,
           risePauseMaxMs: s.risePauseMaxMs ?? 0,
+          ceilingLeftMs: ceilingLeftMs(s),
         });
 
+        // A time attack run ends when its clock runs out
+        const runOver = s.hasWon || s.hasLost || s.timeUp;
+
+        // Music speeds up while any column is close to the top
+        audioMgrRef.current.setPanic(!runOver && !s.paused && s.danger.some((d) => d > 0));
+
+        // Keep the finished run's replay so it can be watched back or exported
+        if (runOver && recorderRef.current) {
+          try {
+            localStorage.setItem(LAST_REPLAY_KEY, JSON.stringify(recorderRef.current.finish()));
+          } catch {
+            /* ignore storage errors */
+          }
+          recorderRef.current = null;
+        }
+
+        // Keep the saved run fresh while playing; a finished run has nothing to resume
+        if (runSaveAtRef.current !== null) {
+          if (runOver) {
+            clearSavedRun();
+            runSaveAtRef.current = null;
+            if (runModeRef.current === 'endless') {
+              setModeRank(
+                recordEndlessScore({ score: s.score, lines: s.linesClearedEq, at: Date.now() }),
+              );
+            } else if (runModeRef.current === 'timeAttack') {
+              setModeRank(
+                timeAttackScores(timeAttackMinutesRef.current).record({
+                  score: s.score,
+                  maxChain: s.maxChain,
+                  largestCombo: s.largestCombo,
+                  at: Date.now(),
+                }),
+              );
+            } else if (s.hasWon && runLevelIdRef.current) {
+              void markPackLevelCleared(runLevelIdRef.current);
+            }
+          } else if (now - runSaveAtRef.current >= RUN_SAVE_INTERVAL_MS) {
+            saveCurrentRun();
+          }
+        }
+
         // If win/loss occurred, fade out any playing music
-        if ((s.hasWon || s.hasLost) && musicRef.current) {
+        if (runOver && musicRef.current) {
           try {
             fadeOutAndStopMusic(200);
           } catch {
@@ -874,7 +1080,7 @@ export default function App() {
           }
         }
 
-        canvas.style.filter = s.hasWon || s.hasLost ? 'blur(3px)' : 'none';
+        canvas.style.filter = runOver ? 'blur(3px)' : 'none';
 
   // cursor overlay removed
       } else {
@@ -891,6 +1097,7 @@ export default function App() {
   return () => {
       window.removeEventListener('visibilitychange', onVisibilityChange);
       window.removeEventListener('blur', onWindowBlur);
+      window.removeEventListener('pagehide', onPageHide);
       cancelAnimationFrame(raf);
       window.removeEventListener('resize', onResize);
       window.removeEventListener('orientationchange', onResize);
@@ -901,6 +1108,7 @@ export default function App() {
       }
       try {
         if (cursorOverlayRef.current) removeCursorOverlay(cursorOverlayRef.current, 'dom-cursor-svg');
+        removeCursorOverlay(cursorOverlayRef.current, HINT_OVERLAY_ID);
       } catch {
         /* ignore */
       }
@@ -926,7 +1134,7 @@ export default function App() {
     // startGame and togglePause are stable, so we can safely ignore them for this effect
     // Re-run when `isMobile` changes so any mobile-only styling is recalculated/reset
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [scene, atlasesReady, isMobile]);
+  }, [scene, atlasesReady, isMobile, WIDTH, HEIGHT]);
 
   // (single fadeOutAndStopMusic defined above with useCallback)
 
@@ -936,12 +1144,10 @@ export default function App() {
     setPaused(now);
     pausedRef.current = now;
 
+    // The engine stops rising and ignores swaps while paused
+    engineRef.current?.setPaused(now);
+
     if (now) {
-      // Pause engine automatic rise by zeroing scroll speed (remember previous)
-      if (engineRef.current) {
-        prevScrollSpeedRef.current = engineRef.current.scrollSpeedPxPerSec;
-        engineRef.current.scrollSpeedPxPerSec = 0;
-      }
       // Pause music
       if (musicRef.current) {
         try {
@@ -959,13 +1165,8 @@ export default function App() {
     } else {
       // Clearing focus-caused pause since this is a user-initiated resume
       pausedByFocusRef.current = false;
-      // Unpause: restore previous scroll speed
-      if (engineRef.current && prevScrollSpeedRef.current !== null) {
-        engineRef.current.scrollSpeedPxPerSec = prevScrollSpeedRef.current;
-        prevScrollSpeedRef.current = null;
-      }
       // Resume music for current level
-      const lvl = LEVELS.find((l) => l.id === selectedLevelId);
+      const lvl = findLevel(selectedLevelId);
       if (lvl && lvl.music) {
         try {
           audioMgrRef.current.playLevelMusic(lvl.music);
@@ -977,9 +1178,235 @@ export default function App() {
     }
   }
 
+  // Subscribe sounds, the combo callout and the win fade to the engine's events
+  function attachEngineHandlers() {
+    try {
+      engineMgrRef.current.subscribe({
+        match: ({ chain }) => {
+          try {
+            if (pausedRef.current) return;
+            audioMgrRef.current.playMatch(chain);
+          } catch {
+            void 0;
+          }
+        },
+        combo: (combo: Combo) => {
+          if (comboTimerRef.current !== null) window.clearTimeout(comboTimerRef.current);
+          setComboFlash({ id: Date.now(), label: comboLabel(combo), bonus: combo.bonus });
+          comboTimerRef.current = window.setTimeout(() => {
+            comboTimerRef.current = null;
+            setComboFlash(null);
+          }, COMBO_FLASH_MS);
+        },
+        swap: () => {
+          try {
+            if (pausedRef.current) return;
+            audioMgrRef.current.playSwap();
+          } catch {
+            void 0;
+          }
+        },
+        win: () => {
+          if (musicRef.current) fadeOutAndStopMusic(300);
+        },
+        // A buzz on phones when the stack first reaches the arena mask; the
+        // board and HUD show the warning everywhere
+        topContact: () => {
+          try {
+            if (isMobile) navigator.vibrate?.(120);
+          } catch {
+            void 0;
+          }
+        },
+      });
+    } catch {
+      void 0;
+    }
+  }
+
+  // Start playing level music if provided
+  function startLevelMusic(levelId: string) {
+    const lvl = findLevel(levelId);
+    if (lvl && lvl.music) {
+      try {
+        audioMgrRef.current.playLevelMusic(lvl.music);
+        musicRef.current = audioMgrRef.current.getMusic();
+      } catch {
+        /* ignore */
+      }
+    }
+  }
+
+  // Persist the running level so a reload, tab eviction or leaving /play can
+  // resume it. Finished runs are not saved.
+  function saveCurrentRun() {
+    const e = engineRef.current;
+    const levelId = runLevelIdRef.current;
+    if (!e || !levelId || runSaveAtRef.current === null || e.hasWon || e.hasLost || e.timeUp)
+      return;
+    saveRun({
+      levelId,
+      snapshot: e.serialize(),
+      baseRaiseRate: baseRaiseRateRef.current ?? 0,
+      practice: practiceRef.current,
+    });
+    runSaveAtRef.current = performance.now();
+  }
+
+  // Continue a run saved by saveCurrentRun(). Returns false if there is no
+  // usable saved run.
+  function resumeSavedRun(run: SavedRun | null = loadSavedRun()): boolean {
+    if (!run) return false;
+    let e: Engine;
+    try {
+      e = engineMgrRef.current.resume(run.snapshot);
+    } catch {
+      clearSavedRun();
+      return false;
+    }
+    setResumeOffer(null);
+    if (musicRef.current) fadeOutAndStopMusic(200);
+
+    engineRef.current = e;
+    runLevelIdRef.current = run.levelId;
+    runSaveAtRef.current = performance.now();
+    setSelectedLevelId(run.levelId);
+    selectedLevelIdRef.current = run.levelId;
+    setRunSeed(e.seed);
+    setPracticeMode(!!run.practice);
+    setRunMode(runModeOf(run.levelId));
+    setBoard({ width: e.width, height: e.height });
+
+    // The snapshot's scroll offset is rescaled to the current board size
+    const canvasWithMeta = canvasRef.current as (HTMLCanvasElement & { _cssCellSize?: number }) | null;
+    e.setCellSize(canvasWithMeta?._cssCellSize ?? CELL);
+    // The run may have been saved while paused or holding X
+    e.setPaused(false);
+    setPaused(false);
+    pausedRef.current = false;
+    pausedByFocusRef.current = false;
+    xHoldRef.current = false;
+    xPrevRateRef.current = null;
+    resetHint();
+    baseRaiseRateRef.current = run.baseRaiseRate;
+    if (run.baseRaiseRate > 0) e.setRaiseRate(run.baseRaiseRate);
+
+    attachEngineHandlers();
+    startLevelMusic(run.levelId);
+
+    // A replay must start from the seed, so resumed runs aren't recorded
+    recorderRef.current = null;
+    setCanWatchReplay(false);
+    setScene('play');
+    return true;
+  }
+
+  // Flag the running engine as a practice run; only practice runs keep rewind snapshots
+  function setPracticeMode(on: boolean) {
+    setPractice(on);
+    practiceRef.current = on;
+    if (engineRef.current) engineRef.current.rewindDepth = on ? PRACTICE_REWIND_DEPTH : 0;
+  }
+
+  function resetHint() {
+    hintRef.current = null;
+    stuckRef.current = false;
+    noMovesFlashUntilRef.current = 0;
+    removeCursorOverlay(cursorOverlayRef.current, HINT_OVERLAY_ID);
+  }
+
+  function setRunMode(mode: RunMode) {
+    setRunModeState(mode);
+    runModeRef.current = mode;
+    setModeRank(null);
+  }
+
+  // Practice mode: undo the last swap (Backspace or a two-finger tap). Also
+  // works after a loss, which puts the run back into play.
+  function rewindRun() {
+    const e = engineRef.current;
+    if (!e || !practiceRef.current || e.hasWon || !e.canRewind()) return;
+    const wasLost = e.hasLost;
+    e.rewind();
+    if (wasLost) {
+      // The loss stopped saving and faded the music out; pick both up again.
+      // The replay ended with the loss, so the rest of the run isn't recorded.
+      runSaveAtRef.current = performance.now();
+      if (runLevelIdRef.current) startLevelMusic(runLevelIdRef.current);
+    }
+  }
+
+  // Start the run requested by the router state. Without an explicit level a
+  // saved run is offered first.
+  function startFromNavigation() {
+    const navState = (location as unknown as { state?: PlayNavState | null })?.state;
+    if (!(navState?.resume && resumeSavedRun())) {
+      const explicit =
+        !!navState?.startLevelId || navState?.seed !== undefined || !!navState?.mode;
+      const saved = explicit ? null : loadSavedRun();
+      if (saved) {
+        setResumeOffer(saved);
+        return;
+      }
+      startGame(navState?.startLevelId, {
+        seed: navState?.seed,
+        practice: navState?.practice,
+        mode: navState?.mode,
+      });
+    }
+    // Consume the state so reloading /play offers to resume instead of restarting
+    if (navState) navigate(location.pathname, { replace: true, state: null });
+  }
+
   // Start the game with initial settings
-  function startGame(levelId?: string, opts?: { preservePlaythrough?: boolean }) {
-    const preserve = opts?.preservePlaythrough ?? false;
+  function startGame(
+    levelId?: string,
+    opts?: {
+      preservePlaythrough?: boolean;
+      seed?: number;
+      practice?: boolean;
+      mode?: RunMode;
+      // set once the level's arena mask has failed to load: start without it
+      noMask?: boolean;
+      // set once installed packs have been registered
+      packsLoaded?: boolean;
+    },
+  ) {
+    const isPractice = opts?.practice ?? false;
+    const mode = opts?.mode ?? 'level';
+    // Pack levels only exist once the installed packs are registered, which
+    // happens asynchronously on mount (e.g. the selected level after a reload).
+    // Wait for that; a pack level that's still missing isn't played on the
+    // default board instead.
+    const requestedId = levelId ?? selectedLevelId;
+    if (mode === 'level' && splitPackLevelId(requestedId) && !findLevel(requestedId)) {
+      if (packsLoadedRef.current && !opts?.packsLoaded) {
+        void packsLoadedRef.current.then(() =>
+          startGame(requestedId, { ...opts, packsLoaded: true }),
+        );
+      } else {
+        setMissingLevelId(requestedId);
+      }
+      return;
+    }
+    setMissingLevelId(null);
+    // The arena mask has to be decoded before the engine and replay recorder
+    // are created, so the run (and its replay) has it from the first tick.
+    // Level select preloads it; if it isn't ready yet, start once it is.
+    const maskLevelId = levelId ?? selectedLevelId;
+    const maskUrl = mode === 'level' ? findLevel(maskLevelId)?.mask : undefined;
+    if (maskUrl && !loadedMask(maskUrl) && !opts?.noMask) {
+      loadMask(maskUrl).then(
+        () => startGame(maskLevelId, opts),
+        () => {
+          console.warn(`Couldn't load the arena mask '${maskUrl}'`);
+          startGame(maskLevelId, { ...opts, noMask: true });
+        },
+      );
+      return;
+    }
+    // Practice and arcade runs leave the current playthrough untouched
+    const preserve = (opts?.preservePlaythrough ?? false) || isPractice || mode !== 'level';
     // If we're starting a fresh playthrough (not preserving), reset stored scores
     if (!preserve) {
       try {
@@ -993,8 +1420,14 @@ export default function App() {
     if (musicRef.current) fadeOutAndStopMusic(200);
 
     // Determine effective level and inputs (prefer explicit levelId when provided)
-    const effectiveLevelId = levelId ?? selectedLevelId;
-    const lvlForStart = LEVELS.find((l) => l.id === effectiveLevelId);
+    // Arcade runs aren't a level and use the default board
+    const effectiveLevelId =
+      mode === 'endless'
+        ? ENDLESS_LEVEL_ID
+        : mode === 'timeAttack'
+          ? TIME_ATTACK_LEVEL_ID
+          : levelId ?? selectedLevelId;
+    const lvlForStart = mode === 'level' ? findLevel(effectiveLevelId) : undefined;
     type EffectiveInputs = {
       targetLines: number;
       startingLines: number;
@@ -1014,122 +1447,55 @@ export default function App() {
       setInputs((p) => ({ ...p, ...effectiveInputs }));
     }
 
-    const e = engineMgrRef.current.start(WIDTH, HEIGHT, 5);
+    // A new run replaces any saved one
+    clearSavedRun();
+    setResumeOffer(null);
+
+    const dims = lvlForStart ?? DEFAULT_BOARD;
+    const e = engineMgrRef.current.start(dims.width, dims.height, dims.numColors, opts?.seed);
+    setBoard({ width: dims.width, height: dims.height });
     engineRef.current = e;
+    runLevelIdRef.current = effectiveLevelId;
+    runSaveAtRef.current = performance.now();
+    setRunSeed(e.seed);
+    setPracticeMode(isPractice);
+    setRunMode(mode);
+    resetHint();
+    if (mode === 'timeAttack') timeAttackMinutesRef.current = loadTimeAttackMinutes();
     engineRef.current.cellSize = CELL;
-    engineRef.current.targetLines = effectiveInputs.targetLines;
-
-    // Determine an effective raise rate. If the level provides a non-positive
-    // raiseRate (e.g. 0.0), fall back to the UI input or engine default so the
-    // game actually rises instead of being paused.
-    // Ensure there's always a small positive raise rate. If both the level
-    // and UI inputs are zero/non-positive, fall back to a small safe default
-    // so the level still rises during playtests.
-    const MIN_RAISE_RATE = 0.05; // rows per second (minimum)
-    const MAX_RAISE_RATE = 0.6; // rows per second (maximum for normalized rates)
-
-    const mapNormalized = (v: number) => MIN_RAISE_RATE + v * (MAX_RAISE_RATE - MIN_RAISE_RATE);
-
-    // Normalize fallback from UI input: if input rate is in [0,1] treat as normalized
-    let fallbackRate = engineRef.current.autoRiseRateRowsPerSec ?? MAX_RAISE_RATE;
-    if (typeof inputs.rate === 'number' && inputs.rate > 0) {
-      fallbackRate = inputs.rate <= 1 ? mapNormalized(inputs.rate) : inputs.rate;
-    } else {
-      fallbackRate = Math.max(fallbackRate, MIN_RAISE_RATE);
-    }
 
-    let chosenRate: number;
-    if (typeof effectiveInputs.rate === 'number' && effectiveInputs.rate > 0) {
-      // If level-provided rate is normalized (<=1) map into usable range.
-      chosenRate =
-        effectiveInputs.rate <= 1 ? mapNormalized(effectiveInputs.rate) : effectiveInputs.rate;
-    } else {
-      chosenRate = fallbackRate;
-    }
-    // Apply chosen rate to the engine (rows/sec) and compute pixel scroll speed
-    engineRef.current.autoRiseRateRowsPerSec = chosenRate;
+    // Apply target lines, raise rate and the seeded queue. If the level provides
+    // a non-positive raiseRate (e.g. 0.0), fall back to the UI input or engine
+    // default so the game actually rises instead of being paused.
+    const levelSetup: LevelSetup =
+      mode === 'endless'
+        ? { ...ENDLESS_SETUP, fallbackRate: inputs.rate }
+        : mode === 'timeAttack'
+          ? { ...timeAttackSetup(timeAttackMinutesRef.current), fallbackRate: inputs.rate }
+          : {
+          targetLines: effectiveInputs.targetLines,
+          startingLines: effectiveInputs.startingLines,
+          raiseRate: effectiveInputs.rate,
+          fallbackRate: inputs.rate,
+          gemWeights: lvlForStart?.gemWeights,
+          queue: lvlForStart?.queue,
+          board: lvlForStart?.board,
+          mask: lvlForStart?.mask ? loadedMask(lvlForStart.mask) : undefined,
+        };
     // remember the base raise rate for the current level
-    baseRaiseRateRef.current = chosenRate;
-    try {
-      engineRef.current.scrollSpeedPxPerSec = chosenRate * engineRef.current.cellSize;
-    } catch {
-      /* ignore */
-    }
+    baseRaiseRateRef.current = applyLevelSetup(engineRef.current, levelSetup);
 
-    // Prevent swapping while paused by wrapping the instance method
-    const origSwap = engineRef.current.swap.bind(engineRef.current);
-    engineRef.current.swap = function () {
-      if (pausedRef.current) return;
-      return origSwap();
-    };
+    attachEngineHandlers();
+    if (lvlForStart) startLevelMusic(lvlForStart.id);
+    else if (mode !== 'level' && LEVELS[0]) startLevelMusic(LEVELS[0].id);
 
-    // Wire up sound callbacks and win handler via engine manager
-    try {
-      engineMgrRef.current.setHandlers({
-        onMatch: (chainCount: number) => {
-          try {
-            if (pausedRef.current) return;
-            audioMgrRef.current.playMatch(chainCount);
-          } catch {
-            void 0;
-          }
-        },
-        onSwap: () => {
-          try {
-            if (pausedRef.current) return;
-            audioMgrRef.current.playSwap();
-          } catch {
-            void 0;
-          }
-        },
-        onWin: () => {
-          if (musicRef.current) fadeOutAndStopMusic(300);
-        },
-      });
-    } catch {
-      void 0;
-    }
-
-    // Start playing level music if provided (use effective level id)
-    if (lvlForStart && lvlForStart.music) {
-      try {
-        audioMgrRef.current.playLevelMusic(lvlForStart.music);
-        musicRef.current = audioMgrRef.current.getMusic();
-      } catch {
-        /* ignore */
-      }
-    }
-
-    // Build prebuilt queue: targetLines + 16 overflow rows
-    const total = Math.max(
-      1,
-      // prefer explicit targetLines; fall back to a sane default
-      effectiveInputs.targetLines || DEFAULT_TARGET_LINES,
-    );
-    const queueLen = total + 16;
-    const rows: number[][] = [];
-
-    for (let i = 0; i < queueLen; i++) {
-      const row: number[] = [];
-      for (let x = 0; x < WIDTH; x++) {
-        // random color index based on engine palette
-        const colorIndex = Math.floor(Math.random() * engineRef.current.colors.length);
-        row.push(colorIndex);
-      }
-      rows.push(row);
-    }
-
-    engineRef.current.setLevelQueue(
-      rows,
-      Math.max(0, Math.min(HEIGHT, effectiveInputs.startingLines)),
-    );
-
-    // Set the totalLevelLines so engine computes the rising win line; the
-    // engine will add the +16 rows already included above.
-    // Set totalLevelLines so engine computes the rising win line; the
-    // engine will add the +16 rows already included above. We use the
-    // configured targetLines as the total for the engine's win-line math.
-    engineRef.current.totalLevelLines = total;
+    // Record input from here on; the level setup above is reproduced from the seed
+    recorderRef.current = createReplayRecorder(engineRef.current, {
+      levelId: effectiveLevelId,
+      numColors: dims.numColors,
+      level: levelSetup,
+    });
+    setCanWatchReplay(true);
 
     setScene('play');
     setHud({
@@ -1155,10 +1521,12 @@ export default function App() {
       try {
         const engineState = engineRef.current?.getState?.();
         const won = !!(engineState?.hasWon || hud.hasWon);
-        if (won) {
-          // Use the ref to ensure we record the actual currently-selected level
-          // even if this function was called from an older closure.
-          const prevId = selectedLevelIdRef.current;
+        // Use the ref to ensure we record the actual currently-selected level
+        // even if this function was called from an older closure.
+        const prevId = selectedLevelIdRef.current;
+        // Practice scores are not part of the playthrough, and pack levels keep
+        // their progress in the pack store instead
+        if (won && !practiceRef.current && !splitPackLevelId(prevId)) {
           // Prefer the engine state score when available to avoid HUD lag.
           const scoreToRecord =
             typeof engineState?.score === 'number' ? engineState!.score : hud.score;
@@ -1200,12 +1568,21 @@ export default function App() {
       });
       setSelectedLevelId(levelId);
       // start the new level, preserving the current playthrough
-      startGame(levelId, { preservePlaythrough: true });
+      startGame(levelId, { preservePlaythrough: true, practice: practiceRef.current });
     } finally {
       advancingRef.current = false;
     }
   }
 
+  // After a win: the next level in the same set (built-in or pack). Beating the
+  // last built-in level finishes the playthrough; a finished pack goes back to
+  // level select.
+  function goToNextLevel() {
+    const nextId = nextLevelId(selectedLevelId);
+    if (nextId) advanceToLevel(nextId);
+    else navigate(splitPackLevelId(selectedLevelId) ? '/levels' : '/you-beat');
+  }
+
   // preset change handler removed — UI no longer exposes rise preset controls
 
   // game framework
@@ -1273,8 +1650,8 @@ export default function App() {
                   borderRadius: 8,
                   overflow: 'hidden',
                   // If the selected level has a background, apply it.
-                  backgroundImage: LEVELS.find((l) => l.id === selectedLevelId)?.background
-                    ? `url(${LEVELS.find((l) => l.id === selectedLevelId)?.background})`
+                  backgroundImage: findLevel(selectedLevelId)?.background
+                    ? `url(${findLevel(selectedLevelId)?.background})`
                     : undefined,
                   backgroundSize: 'cover',
                   backgroundPosition: 'center',
@@ -1360,6 +1737,51 @@ export default function App() {
                     </div>
                   )}
                 </div>
+                {/* Top-out warning: the stack is stuck at the top or touching the mask */}
+                {hud.ceilingLeftMs !== undefined && !hud.hasLost && (
+                  <div
+                    role="alert"
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      right: 0,
+                      top: 16,
+                      textAlign: 'center',
+                      fontSize: 16,
+                      fontWeight: 800,
+                      color: '#f87171',
+                      textShadow: '0 2px 4px rgba(0,0,0,0.9)',
+                      pointerEvents: 'none',
+                      zIndex: 1120,
+                    }}
+                  >
+                    CEILING! {(hud.ceilingLeftMs / 1000).toFixed(1)}s
+                  </div>
+                )}
+                {/* Combo callout: fades out over COMBO_FLASH_MS */}
+                {comboFlash && (
+                  <div
+                    key={comboFlash.id}
+                    aria-live="polite"
+                    style={{
+                      position: 'absolute',
+                      left: 0,
+                      right: 0,
+                      top: '30%',
+                      textAlign: 'center',
+                      fontSize: 20,
+                      fontWeight: 800,
+                      color: '#fde68a',
+                      textShadow: '0 2px 4px rgba(0,0,0,0.9)',
+                      pointerEvents: 'none',
+                      zIndex: 1200,
+                      animation: `comboFlash ${COMBO_FLASH_MS}ms ease-out forwards`,
+                    }}
+                  >
+                    {comboFlash.label}
+                    <div style={{ fontSize: 14 }}>+{comboFlash.bonus}</div>
+                  </div>
+                )}
                 {/* Soft fade gradients at top and bottom to mask incoming rows */}
                 <div
                   style={{
@@ -1387,21 +1809,23 @@ export default function App() {
                     borderBottomRightRadius: 8,
                   }}
                 />
-                {/* Win line (DOM) */}
-                <WinLine
-                  percent={winLine.percent}
-                  yPx={winLine.yPx}
-                  aria-label="Win threshold"
-                  style={{
-                    filter: hud.hasWon || hud.hasLost ? 'blur(3px)' : 'none',
-                  }}
-                />
+                {/* Win line (DOM); arcade runs have none */}
+                {runMode === 'level' && (
+                  <WinLine
+                    percent={winLine.percent}
+                    yPx={winLine.yPx}
+                    aria-label="Win threshold"
+                    style={{
+                      filter: hud.hasWon || hud.hasLost || hud.timeUp ? 'blur(3px)' : 'none',
+                    }}
+                  />
+                )}
                 {/* Title button at top-right of the board */}(
                 <button
                   onMouseEnter={() => setTitleHover(true)}
                   onMouseLeave={() => setTitleHover(false)}
                   onClick={() => {
-                    // Stop music and playing clones, reset engine and HUD, go to title
+                    // Stop music and playing clones, save the run for resuming, reset engine and HUD, go to title
                     if (musicRef.current) fadeOutAndStopMusic(200);
                     try {
                       audioMgrRef.current.stopPlayingClones();
@@ -1413,6 +1837,7 @@ export default function App() {
                     } catch {
                       /* ignore */
                     }
+                    saveCurrentRun();
                     engineRef.current = null;
                     setPaused(false);
                     pausedRef.current = false;
@@ -1453,7 +1878,7 @@ export default function App() {
                   onMouseEnter={() => setOptionsHover(true)}
                   onMouseLeave={() => setOptionsHover(false)}
                   onClick={() => {
-                    // Stop music and playing clones, reset engine and HUD, then go to Options
+                    // Stop music and playing clones, save the run for resuming, reset engine and HUD, then go to Options
                     if (musicRef.current) fadeOutAndStopMusic(200);
                     try {
                       audioMgrRef.current.stopPlayingClones();
@@ -1465,6 +1890,7 @@ export default function App() {
                     } catch {
                       /* ignore */
                     }
+                    saveCurrentRun();
                     engineRef.current = null;
                     setPaused(false);
                     pausedRef.current = false;
@@ -1506,7 +1932,7 @@ export default function App() {
                   onMouseEnter={() => setLevelsHover(true)}
                   onMouseLeave={() => setLevelsHover(false)}
                   onClick={() => {
-                    // Stop music and playing clones, reset engine and HUD, then go to Levels
+                    // Stop music and playing clones, save the run for resuming, reset engine and HUD, then go to Levels
                     if (musicRef.current) fadeOutAndStopMusic(200);
                     try {
                       audioMgrRef.current.stopPlayingClones();
@@ -1518,6 +1944,7 @@ export default function App() {
                     } catch {
                       /* ignore */
                     }
+                    saveCurrentRun();
                     engineRef.current = null;
                     setPaused(false);
                     pausedRef.current = false;
@@ -1555,7 +1982,7 @@ export default function App() {
                   Levels
                 </button>
                 )
-                {scene === 'play' && (hud.hasWon || hud.hasLost) && (
+                {scene === 'play' && (hud.hasWon || hud.hasLost || hud.timeUp) && (
                   <div
                     style={{
                       position: 'absolute',
@@ -1581,7 +2008,20 @@ export default function App() {
                         alignItems: 'center',
                       }}
                     >
-                      {hud.hasWon ? 'You win!' : 'Game Over!'}
+                      {hud.hasWon ? 'You win!' : hud.timeUp ? "Time's up!" : 'Game Over!'}
+                      {runMode !== 'level' && (
+                        <div style={{ marginTop: 8, fontSize: 18, fontWeight: 600 }}>
+                          Score {hud.score} •{' '}
+                          {modeRank ? `#${modeRank} in your top 10` : 'not in your top 10'}
+                          {runMode === 'timeAttack' && engineRef.current && (
+                            <div style={{ fontSize: 14 }}>
+                              Max chain x{Math.max(1, engineRef.current.maxChain)} • Largest combo{' '}
+                              {engineRef.current.largestCombo} gems
+                            </div>
+                          )}
+                          <div style={{ fontSize: 14, opacity: 0.8 }}>Press R to play again</div>
+                        </div>
+                      )}
                       {hud.hasWon && (
                         <button
                           style={{
@@ -1596,21 +2036,31 @@ export default function App() {
                             cursor: 'pointer',
                             boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
                           }}
-                          onClick={() => {
-                            const idx = LEVELS.findIndex((l) => l.id === selectedLevelId);
-                            const nextIdx = idx + 1;
-                            if (nextIdx >= LEVELS.length) {
-                              navigate('/you-beat');
-                            } else {
-                              const nextId = LEVELS[nextIdx].id;
-                              advanceToLevel(nextId);
-                            }
-                          }}
+                          onClick={goToNextLevel}
                         >
                           Next Level
                         </button>
                       )}
-                      {hud.hasLost && (
+                      {hud.hasLost && practice && (
+                        <button
+                          style={{
+                            marginTop: 18,
+                            fontSize: 20,
+                            padding: '8px 24px',
+                            borderRadius: 6,
+                            border: 'none',
+                            background: '#fbbf24',
+                            color: '#222',
+                            fontWeight: 700,
+                            cursor: 'pointer',
+                            boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+                          }}
+                          onClick={() => rewindRun()}
+                        >
+                          Rewind
+                        </button>
+                      )}
+                      {(hud.hasLost || hud.timeUp) && (
                         <button
                           style={{
                             marginTop: 18,
@@ -1658,6 +2108,159 @@ export default function App() {
                           Return to Title
                         </button>
                       )}
+                      {canWatchReplay && (
+                        <button
+                          style={{
+                            marginTop: 10,
+                            fontSize: 14,
+                            padding: '6px 16px',
+                            borderRadius: 6,
+                            border: 'none',
+                            background: 'rgba(255,255,255,0.85)',
+                            color: '#222',
+                            fontWeight: 700,
+                            cursor: 'pointer',
+                          }}
+                          onClick={() => {
+                            if (musicRef.current) fadeOutAndStopMusic(200);
+                            try {
+                              audioMgrRef.current.stopPlayingClones();
+                            } catch {
+                              /* ignore */
+                            }
+                            engineRef.current = null;
+                            setPaused(false);
+                            pausedRef.current = false;
+                            pausedByFocusRef.current = false;
+                            navigate('/replay');
+                          }}
+                        >
+                          Watch Replay
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+                {/* A pack level that isn't installed in this browser */}
+                {scene === 'play' && missingLevelId && (
+                  <div
+                    role="alert"
+                    style={{
+                      position: 'absolute',
+                      inset: 0,
+                      display: 'grid',
+                      placeItems: 'center',
+                      color: '#fff',
+                      textShadow: '0 2px 8px rgba(0,0,0,0.6)',
+                      fontWeight: 700,
+                      fontSize: 24,
+                      zIndex: 1200,
+                    }}
+                  >
+                    <div
+                      style={{
+                        padding: '12px 16px',
+                        borderRadius: 8,
+                        background: 'rgba(0,0,0,0.5)',
+                        border: '1px solid rgba(255,255,255,0.2)',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        textAlign: 'center',
+                      }}
+                    >
+                      <div>Level not installed</div>
+                      <div style={{ fontSize: 14, fontWeight: 400, marginTop: 6 }}>
+                        {splitPackLevelId(missingLevelId)?.levelId} from the pack{' '}
+                        {splitPackLevelId(missingLevelId)?.packId} isn't installed in this browser.
+                      </div>
+                      <button
+                        style={{
+                          marginTop: 18,
+                          fontSize: 20,
+                          padding: '8px 24px',
+                          borderRadius: 6,
+                          border: 'none',
+                          background: '#34d399',
+                          color: '#222',
+                          fontWeight: 700,
+                          cursor: 'pointer',
+                          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+                        }}
+                        onClick={() => navigate('/levels')}
+                      >
+                        Back to level select
+                      </button>
+                    </div>
+                  </div>
+                )}
+                {/* Offer to continue a run saved on an earlier visit */}
+                {scene === 'play' && resumeOffer && (
+                  <div
+                    style={{
+                      position: 'absolute',
+                      inset: 0,
+                      display: 'grid',
+                      placeItems: 'center',
+                      color: '#fff',
+                      textShadow: '0 2px 8px rgba(0,0,0,0.6)',
+                      fontWeight: 700,
+                      fontSize: 24,
+                      zIndex: 1200,
+                    }}
+                  >
+                    <div
+                      style={{
+                        padding: '12px 16px',
+                        borderRadius: 8,
+                        background: 'rgba(0,0,0,0.5)',
+                        border: '1px solid rgba(255,255,255,0.2)',
+                        display: 'flex',
+                        flexDirection: 'column',
+                        alignItems: 'center',
+                        textAlign: 'center',
+                      }}
+                    >
+                      <div>
+                        {findLevel(resumeOffer.levelId)?.name ?? 'Level'} in
+                        progress
+                      </div>
+                      <div style={{ fontSize: 14, fontWeight: 400, marginTop: 6 }}>
+                        Score {resumeOffer.snapshot.score}
+                      </div>
+                      <button
+                        style={{
+                          marginTop: 18,
+                          fontSize: 20,
+                          padding: '8px 24px',
+                          borderRadius: 6,
+                          border: 'none',
+                          background: '#34d399',
+                          color: '#222',
+                          fontWeight: 700,
+                          cursor: 'pointer',
+                          boxShadow: '0 2px 8px rgba(0,0,0,0.2)',
+                        }}
+                        onClick={() => resumeSavedRun(resumeOffer)}
+                      >
+                        Resume level
+                      </button>
+                      <button
+                        style={{
+                          marginTop: 10,
+                          fontSize: 14,
+                          padding: '6px 16px',
+                          borderRadius: 6,
+                          border: 'none',
+                          background: 'rgba(255,255,255,0.85)',
+                          color: '#222',
+                          fontWeight: 700,
+                          cursor: 'pointer',
+                        }}
+                        onClick={() => startGame()}
+                      >
+                        Start new
+                      </button>
                     </div>
                   </div>
                 )}
@@ -1741,6 +2344,11 @@ export default function App() {
                     <div style={{ fontSize: 24, marginBottom: 6 }}>
                       {/* rise pause indicator already shown above the grid; keep this space for consistency */}
                     </div>
+                    {practice && (
+                      <div style={{ color: '#fbbf24', fontWeight: 700, marginBottom: 4 }}>
+                        Practice — score not recorded
+                      </div>
+                    )}
                     <div>
                       Level Score: <strong>{hud.score}</strong>
                     </div>
@@ -1753,20 +2361,51 @@ export default function App() {
                     <div>
                       Current chain: <strong>x{Math.max(1, hud.chains)}</strong>
                     </div>
-                    <div>
-                      Lines cleared (eq): <strong>{hud.linesEq}</strong> /{' '}
-                      <strong>{inputs.targetLines}</strong>
-                    </div>
-                    <div>
-                      Tiles above line: <strong>{hud.tilesAbove}</strong>
-                    </div>
+                    {runMode === 'timeAttack' && (
+                      <div style={{ fontSize: 28, fontWeight: 700, marginBottom: 4 }}>
+                        {formatClock(engineRef.current?.timeLeftMs ?? 0)}
+                      </div>
+                    )}
+                    {runMode !== 'level' ? (
+                      <>
+                        <div>
+                          Lines cleared (eq): <strong>{hud.linesEq}</strong>
+                        </div>
+                        <div>
+                          Rise speed:{' '}
+                          <strong>x{(engineRef.current?.riseSpeedFactor() ?? 1).toFixed(2)}</strong>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        <div>
+                          Lines cleared (eq): <strong>{hud.linesEq}</strong> /{' '}
+                          <strong>{inputs.targetLines}</strong>
+                        </div>
+                        <div>
+                          Tiles above line: <strong>{hud.tilesAbove}</strong>
+                        </div>
+                      </>
+                    )}
+                    {noMoves && (
+                      <div style={{ color: '#fbbf24', fontWeight: 700 }}>No moves available</div>
+                    )}
+                    {runSeed !== null && (
+                      <div style={{ opacity: 0.6 }}>
+                        Seed: <strong>{runSeed}</strong>
+                      </div>
+                    )}
                   </div>
                 )}
                 <div style={{ marginBottom: 8 }}>
                   <div style={{ display: 'block', marginBottom: 6 }}>
                     Level:{' '}
                     <strong style={{ marginLeft: 8 }}>
-                      {LEVELS.find((l) => l.id === selectedLevelId)?.name}
+                      {runMode === 'endless'
+                        ? 'Endless'
+                        : runMode === 'timeAttack'
+                          ? 'Time Attack'
+                          : findLevel(selectedLevelId)?.name}
                     </strong>
                   </div>
                   {/* level selection is handled on the LevelSelect page; keep name display only */}
@@ -1776,6 +2415,7 @@ export default function App() {
                   <div>
                     <p style={{ marginTop: 8, opacity: 0.8 }}>
                       Controls: Arrows = move • Z/Space = swap • X = raise
+                      {practice && ' • Backspace = rewind'}
                     </p>
                   </div>
                 ) : (
@@ -6,6 +6,12 @@ import OptionsPage from './pages/OptionsPage';
 import LevelSelectPage from './pages/LevelSelectPage';
 import App from './App';
 import CongratulationsPage from './pages/CongratulationsPage';
+import ReplayPage from './pages/ReplayPage';
+import PuzzleSelectPage from './pages/PuzzleSelectPage';
+import PuzzlePage from './pages/PuzzlePage';
+import VersusPage from './pages/VersusPage';
+import TwoPlayerPage from './pages/TwoPlayerPage';
+import LevelEditorPage from './pages/LevelEditorPage';
 
 const AppRoutes: React.FC = () => {
   return (
@@ -16,6 +22,12 @@ const AppRoutes: React.FC = () => {
       <Route path="/options" element={<OptionsPage />} />
       <Route path="/scores" element={<ScorePage />} />
       <Route path="/you-beat" element={<CongratulationsPage />} />
+      <Route path="/replay" element={<ReplayPage />} />
+      <Route path="/puzzles" element={<PuzzleSelectPage />} />
+      <Route path="/puzzles/:id" element={<PuzzlePage />} />
+      <Route path="/versus" element={<VersusPage />} />
+      <Route path="/two-player" element={<TwoPlayerPage />} />
+      <Route path="/editor" element={<LevelEditorPage />} />
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -0,0 +1,51 @@
+import React from 'react';
+import Footer from './Footer';
+import type { LevelProblem } from '../levels/validate';
+
+type Props = {
+  title: string;
+  problems: LevelProblem[];
+  onBack: () => void;
+  backLabel?: string;
+};
+
+/** Full-page list of what's wrong with levels a player brought in, shown instead of playing them. */
+const LevelErrorScreen: React.FC<Props> = ({ title, problems, onBack, backLabel = 'Back' }) => {
+  const errors = problems.filter((p) => p.severity === 'error');
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 664, maxWidth: '90vw', textAlign: 'left' }}>
+        <h1 style={{ marginBottom: 8, color: '#f87171' }}>{title}</h1>
+        <p style={{ marginTop: 0, opacity: 0.9 }}>
+          {errors.length === 1 ? 'One problem needs' : `${errors.length} problems need`} fixing
+          before these levels can be played:
+        </p>
+        <ul style={{ lineHeight: 1.6 }}>
+          {errors.map((p, i) => (
+            <li key={i}>
+              {p.level && <strong>{p.level}: </strong>}
+              {p.message}
+            </li>
+          ))}
+        </ul>
+        <button onClick={onBack}>{backLabel}</button>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default LevelErrorScreen;
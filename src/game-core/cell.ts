@@ -0,0 +1,55 @@
+// Grid cell encoding. A cell is a plain number so grids stay cheap to copy and
+// serialize:
+//
+//   -1                        empty
+//   0 .. GARBAGE_BASE - 1     gem: kind * GEM_KIND_STRIDE + color index, where
+//                             kind indexes GEM_KINDS (0 = normal, so plain color
+//                             indices are normal gems)
+//   GARBAGE_BASE + id         part of garbage slab `id`; every cell of a slab
+//                             holds the same value, so its shape can be found
+//                             again after the grid shifts
+
+export type Cell = number;
+
+export const EMPTY: Cell = -1;
+export const GEM_KIND_STRIDE = 100;
+export const GARBAGE_BASE = 1000;
+
+// wildcard: matches any color; bomb: clears its 3x3 neighborhood when matched;
+// locked: can't be swapped until a neighbor is cleared
+export const GEM_KINDS = ['normal', 'wildcard', 'bomb', 'locked'] as const;
+export type GemKind = (typeof GEM_KINDS)[number];
+
+// Relative spawn weights per gem kind for generated rows. `normal` defaults to
+// DEFAULT_NORMAL_WEIGHT, so `{ bomb: 2 }` makes roughly 2% of gems bombs.
+export type GemWeights = Partial<Record<GemKind, number>>;
+export const DEFAULT_NORMAL_WEIGHT = 100;
+
+export function isEmpty(v: Cell): boolean {
+  return v < 0;
+}
+
+/** A gem of any kind (not empty, not garbage). */
+export function isGem(v: Cell): boolean {
+  return v >= 0 && v < GARBAGE_BASE;
+}
+
+export function isGarbage(v: Cell): boolean {
+  return v >= GARBAGE_BASE;
+}
+
+export function garbageCell(slabId: number): Cell {
+  return GARBAGE_BASE + slabId;
+}
+
+export function makeGem(color: number, kind: GemKind = 'normal'): Cell {
+  return GEM_KINDS.indexOf(kind) * GEM_KIND_STRIDE + color;
+}
+
+export function gemColor(v: Cell): number {
+  return v % GEM_KIND_STRIDE;
+}
+
+export function gemKind(v: Cell): GemKind {
+  return GEM_KINDS[Math.floor(v / GEM_KIND_STRIDE)] ?? 'normal';
+}
@@ -1,6 +1,52 @@
-export type Cell = number;
+// Grid cell value (see cell.ts for the encoding)
+import type { Cell } from './cell';
+export type { Cell };
 export type Phase = 'idle' | 'clearing' | 'settling';
 
+// Fixed simulation step. `Engine.advance()` runs the simulation in ticks of this
+// length regardless of display refresh rate.
+export const TICK_MS = 1000 / 60;
+// Gem palette; a level with n colors uses the first n
+export const GEM_COLORS = ['#e63946', '#2a9d8f', '#457b9d', '#f4a261', '#a29bfe', '#ffd166'];
+// Longest frame delta `advance()` will simulate; time beyond this (tab hitches,
+// background tabs) is dropped instead of inserting several rows at once.
+export const MAX_FRAME_MS = 250;
+// A column is in danger once its stack is within this many rows of its ceiling
+export const DANGER_ROWS = 2;
+// A stack this close to its ceiling (in pixels) touches it; rising stops there,
+// but float rounding can leave a sliver of room
+const TOUCH_PX = 1e-6;
+
+// Per-cell state machine. Each tile moves through these on its own timer, so the
+// rest of the board stays playable while some tiles clear or fall:
+//   idle      resting (empty cells are always idle)
+//   swapping  just swapped; can't be swapped again or matched until it settles
+//   matched   part of a match, flashing
+//   clearing  popping; removed when its clear resolves
+//   hanging   lost its support, about to fall
+//   falling   dropping one row at a time
+export type TileState = 'idle' | 'swapping' | 'matched' | 'clearing' | 'hanging' | 'falling';
+
+export type Tile = {
+  state: TileState;
+  // ms left in the current state; for falling tiles, ms until the next one-row step
+  timerMs: number;
+  // set on tiles that fall because of a clear: a match they land in extends the chain
+  chain: boolean;
+};
+
+// Tiles matched by one scan. They flash and pop on a shared timer and are scored
+// together when the timer runs out.
+export type ClearEvent = {
+  // cell indices (y * width + x), including bomb blasts
+  cells: number[];
+  groups: MatchGroup[];
+  // chain step this clear scores as (1 = not part of a chain)
+  chain: number;
+  timerMs: number;
+};
+
+// Rendering view of a falling tile (see Engine.getState)
 export type FallPiece = {
   x: number;
   fromY: number;
@@ -9,6 +55,24 @@ export type FallPiece = {
   color: number;
   // Optional per-piece fall speed in rows per second. If undefined, Engine.fallSpeedRowsPerSec is used.
   speedRowsPerSec?: number;
+  // Row position at the start of the last tick, used to interpolate rendering
+  prevY?: number;
+};
+
+// A garbage slab waiting to drop in from the top of the board
+export type GarbageDrop = {
+  width: number;
+  height: number;
+  // left column, picked from the gameplay PRNG when the slab is queued
+  x: number;
+};
+
+// Cosmetic: a garbage cell that just broke into the gem now at (x, y)
+export type GarbageBreak = {
+  x: number;
+  y: number;
+  ageMs: number;
+  lifeMs: number;
 };
 
 export type Particle = {
@@ -22,6 +86,92 @@ export type Particle = {
   size: number; // px radius
 };
 
+// Every player input that reaches the engine. Emitted as the `action` event
+// (see EngineEvents) so input can be recorded, and fed back through `Engine.applyAction` to replay it.
+export type EngineAction =
+  | { type: 'moveCursor'; dx: number; dy: number }
+  | { type: 'setCursor'; x: number; y: number }
+  | { type: 'swap'; x: number; y: number }
+  | { type: 'raiseRate'; rowsPerSec: number }
+  | { type: 'pause'; paused: boolean }
+  | { type: 'cellSize'; px: number }
+  | { type: 'rewind' }
+  | { type: 'garbage'; width: number; height: number };
+
+// Shape of a matched group: a straight run, or two runs crossing at both their
+// ends (L) or anywhere else (T, including crosses)
+export type MatchShape = 'line' | 'L' | 'T';
+
+// One connected group of matched gems from a single scan. `color` is -1 for an
+// all-wildcard group.
+export type MatchGroup = {
+  size: number;
+  shape: MatchShape;
+  color: number;
+};
+
+// A clear step that earned a combo bonus (already scaled by the chain multiplier)
+export type Combo = {
+  groups: MatchGroup[];
+  bonus: number;
+  chainCount: number;
+};
+
+// A gem (or garbage cell) on the board and its cell value
+export type CellRef = { x: number; y: number; color: Cell };
+
+// Why a run was lost: the stack stayed at the top of the board or against the
+// arena mask past its grace period
+export type LoseReason = 'topOut' | 'mask';
+
+// Everything the engine announces through `Engine.events`. Listeners run
+// synchronously in the middle of the tick, after the change they describe.
+export type EngineEvents = {
+  // player input (see EngineAction), before it is applied
+  action: EngineAction;
+  // two cells traded places; `left` and `right` are their values after the swap
+  swap: { x: number; y: number; left: Cell; right: Cell };
+  // a clear resolved; `chain` is 1 for a clear made by a swap, higher for
+  // cascades, and `scoreDelta` includes any combo bonus
+  match: {
+    chain: number;
+    cells: CellRef[];
+    groups: MatchGroup[];
+    scoreDelta: number;
+    score: number;
+  };
+  // a clear step earned a combo bonus (see comboBonusTable)
+  combo: Combo;
+  // the board came to rest after one or more clears; `chain` is the longest step
+  chainEnd: { chain: number; score: number };
+  // a falling gem or garbage slab came to rest (for a slab, its bottom-left cell)
+  land: CellRef & { chain: boolean };
+  // a new row rose in at the bottom of the board
+  rowInserted: { row: Cell[]; rowsInserted: number };
+  phase: { phase: Phase; prev: Phase };
+  // the stack reached the top of the board and stopped rising
+  topOut: { graceMs: number };
+  // the stack first touched the arena mask
+  topContact: { graceMs: number };
+  win: { score: number };
+  lose: { reason: LoseReason; score: number };
+  // the time attack clock ran out
+  timeUp: { score: number };
+  // a simulation step is starting; input made here lands on this tick however
+  // frames group the ticks (the CPU player steps on it)
+  tick: { tick: number };
+};
+
+// Endless mode rise ramp: the rise speeds up by `speedUpPerLine` (a fraction
+// of the set rate) per line cleared, by at most `maxSpeedUp`
+export type EndlessRamp = { speedUpPerLine: number; maxSpeedUp: number };
+
+// Rows an endless queue keeps generated ahead of the rising stack
+const ENDLESS_QUEUE_AHEAD = 2;
+
+// Why a rewind snapshot was taken: just before a swap, or just after a row rose in
+export type RewindPoint = 'swap' | 'row';
+
 export type GameState = {
   grid: Cell[][];
   width: number;
@@ -31,6 +181,7 @@ export type GameState = {
   colors: string[];
   phase: Phase;
   matchMask: boolean[][];
+  tiles: Tile[][];
   chainCount: number;
   fallPieces: FallPiece[];
   score: number;
@@ -44,15 +195,121 @@ export type GameState = {
   clearLineY: number;
   hasWon: boolean;
   hasLost: boolean;
+  // time attack clock (null: none) and whether it has run out
+  timeLeftMs: number | null;
+  timeUp: boolean;
+  maxChain: number;
+  largestCombo: number;
   // fractional upward scroll in pixels (renderer should subtract this)
   scrollOffsetPx?: number;
   particles: Particle[];
+  // garbage cells currently turning into gems (break animation)
+  garbageBreaks: GarbageBreak[];
+  // slabs queued to drop in once the board is idle
+  pendingGarbage: GarbageDrop[];
   winLineY?: number;
   nextRowPreview?: number[];
+  // arena silhouette (see setMask) and how long the stack has been touching
+  // it (null: not touching); touching it for maskGraceMs loses the run
+  mask?: Mask;
+  maskContactMs: number | null;
+  maskGraceMs: number;
+  // how long the stack has been stopped at the top of the board (null: it
+  // isn't); still there after topOutGraceMs loses the run
+  topOutMs: number | null;
+  topOutGraceMs: number;
+  // per column: 0 while the stack is DANGER_ROWS or more below its ceiling,
+  // rising to 1 as it touches (see columnDanger)
+  danger: number[];
+  // per column: where its ceiling is, in rows from the top of the board (0
+  // unless the arena mask comes down into it)
+  ceilingRows: number[];
+  // seed the engine's PRNG was created with; same seed => same board and queue
+  seed: number;
+  // number of update() calls so far (simulation tick)
+  tick: number;
+  paused: boolean;
+};
+
+// Bump when the snapshot layout changes; deserialize() rejects other versions.
+// v2: garbage slabs
+// v3: match groups
+// v4: per-tile states and clear events replace the global clear timer and fall pieces
+// v5: puzzle swap limit, endless ramp, time attack clock and run stats
+// v6: arena mask and its contact timer
+// v7: top-out grace timer
+// v8: special gem weights and both grace periods
+export const ENGINE_SNAPSHOT_VERSION = 8;
+
+/**
+ * Plain-JSON snapshot of everything needed to continue a run mid-level. Cosmetic
+ * state (particles) and callbacks are not included.
+ */
+export type EngineSnapshot = {
+  version: number;
+  width: number;
+  height: number;
+  colors: string[];
+  cellSize: number;
+  seed: number;
+  rngState: number;
+  fxRngState: number;
+  tick: number;
+  grid: Cell[][];
+  levelQueue: number[][];
+  rowsInserted: number;
+  totalLevelLines: number;
+  cursorX: number;
+  cursorY: number;
+  phase: Phase;
+  matchMask: boolean[][];
+  matchGroups: MatchGroup[];
+  tiles: Tile[][];
+  clearEvents: ClearEvent[];
+  chainCount: number;
+  scrollOffsetPx: number;
+  autoRiseRateRowsPerSec: number;
+  scrollSpeedPxPerSec: number;
+  risePauseMs: number;
+  risePauseMaxMs: number;
+  score: number;
+  matchesTotal: number;
+  linesClearedEq: number;
+  targetLines: number;
+  hasWon: boolean;
+  hasLost: boolean;
+  paused: boolean;
+  pendingGarbage: GarbageDrop[];
+  nextGarbageId: number;
+  swapsLeft: number | null;
+  endless: EndlessRamp | null;
+  timeLeftMs: number | null;
+  timeUp: boolean;
+  maxChain: number;
+  largestCombo: number;
+  gemWeights: GemWeights | null;
+  mask: Mask | null;
+  maskGraceMs: number;
+  maskContactMs: number | null;
+  topOutGraceMs: number;
+  topOutMs: number | null;
 };
 
 import type { Mask } from '../mask';
-import { cellTouchesMask } from '../mask';
+import { createRng, randomSeed, type Rng } from './rng';
+import { createEmitter } from './events';
+import {
+  DEFAULT_NORMAL_WEIGHT,
+  GEM_KINDS,
+  garbageCell,
+  gemColor,
+  gemKind,
+  isGarbage,
+  isGem,
+  makeGem,
+  type GemKind,
+  type GemWeights,
+} from './cell';
 
 export class Engine {
   width: number;
@@ -62,18 +319,38 @@ export class Engine {
   grid: Cell[][];
   cursorX = 0;
   cursorY = 0;
+  // Board-wide summary of the tile states: 'clearing' while any clear is
+  // pending, 'settling' while tiles hang or fall, otherwise 'idle'. The stack
+  // only rises and garbage only drops while idle.
   phase: Phase = 'idle';
+  // Cells of all pending clears
   matchMask: boolean[][];
+  tiles: Tile[][];
+  clearEvents: ClearEvent[] = [];
+  // Groups found by the last scan; scored when their clear lands
+  matchGroups: MatchGroup[] = [];
   mask?: Mask;
-  clearTimerMs = 0;
   chainCount = 0;
-  fallPieces: FallPiece[] = [];
+  // Tile timings (ms). A clear flashes (matched) then pops (the last
+  // clearPopMs, clearing); clears that continue a chain are a little quicker.
+  swapMs = 50;
+  clearMs = 230;
+  cascadeClearMs = 200;
+  clearPopMs = 80;
+  hangMs = 80;
   fallSpeedRowsPerSec = 18;
   // Multiplier applied to fallSpeedRowsPerSec for cascades that result from clears.
   // Values < 1 slow the animation; tune to taste (default 0.6).
   cascadeFallSpeedMultiplier = 0.6;
+  // Set when tiles come to rest so the next tick looks for new matches
+  private needsScan = false;
   // Scrolling config: pixels/sec upward
   scrollSpeedPxPerSec = 24; // default: half cell/sec for 48px cell
+  // Garbage slabs waiting for the board to go idle before dropping in
+  pendingGarbage: GarbageDrop[] = [];
+  garbageBreaks: GarbageBreak[] = [];
+  garbageBreakMs = 350;
+  private nextGarbageId = 0;
   // Particle system
   particles: Particle[] = [];
   particleGravityPxPerSec2 = 1600; // downward gravity
@@ -90,15 +367,31 @@ export class Engine {
   // How many rows have been inserted from the queue into the visible grid
   // (including initial visible rows populated by setLevelQueue).
   rowsInserted = 0;
-  // Mask/contact hook placeholders
+  // Arena mask: the stack touching the silhouette starts a warning; staying in
+  // contact for maskGraceMs (counted while the board is idle) loses the run
   maskCheckSamples = [0.25, 0.5, 0.75]; // sample fractions across cell width
   maskImageWidth = 0; // populated if mask provided (mask module gives width)
-  onTopContact?: () => void;
-  onWin?: () => void;
-  // Called when a clear/match occurs. Receives the current chain count (1 = first clear).
-  onMatch?: (chainCount: number) => void;
-  // Called whenever the player performs a swap action that changes grid cells
-  onSwap?: () => void;
+  maskGraceMs = 2000;
+  // ms the stack has been touching the mask, or null while it's clear
+  maskContactMs: number | null = null;
+  // Top-out grace ("stop time at the top"): a stack that reaches the top of
+  // the board stops rising instead of losing at once, and the run is lost only
+  // if it's still there after topOutGraceMs of idle board time (0: no grace).
+  // Swap-limited (puzzle) boards don't rise and never top out.
+  topOutGraceMs = 1500;
+  // ms the stack has been at the top, or null while there's room above it
+  topOutMs: number | null = null;
+  // Subscribe here for wins, losses, matches, swaps, landings and every other
+  // change (see EngineEvents); each listener gets its own subscription
+  readonly events = createEmitter<EngineEvents>();
+  // Simulation tick: incremented once per update() call
+  tick = 0;
+  // Real time banked by advance() that hasn't been simulated yet (< TICK_MS)
+  private accumulatorMs = 0;
+  // scrollOffsetPx at the start of the last tick, in the current grid's frame
+  private prevScrollOffsetPx = 0;
+  // While paused the stack does not rise and swaps are ignored
+  paused = false;
   score = 0;
   matchesTotal = 0;
   linesClearedEq = 0;
@@ -112,25 +405,61 @@ export class Engine {
   clearLineY: number;
   hasWon = false;
   hasLost = false;
+  // Seed for the gameplay PRNG. Starting boards and generated queues are a pure
+  // function of this value.
+  readonly seed: number;
+  private rng: Rng;
+  // Cosmetic randomness (particles) uses its own stream so visual tweaks never
+  // shift the gameplay sequence.
+  private fxRng: Rng;
   private chainMultTable = [1, 2, 4, 8, 16, 32, 64];
+  // Flat combo points per clear step, scaled by the chain multiplier: per group
+  // of exactly 4 or of 5+, per L/T group (on top of its size bonus), and per
+  // group beyond the first
+  comboBonusTable = { four: 20, fivePlus: 50, shape: 30, extraGroup: 40 };
+  // Spawn weights for special gems in generated rows (null: plain gems only)
+  gemWeights: GemWeights | null = null;
+  // Practice mode: how many snapshots to keep for rewind() (0 disables rewinding)
+  rewindDepth = 0;
+  // Puzzle boards: swaps the player has left (null: unlimited). A board with a
+  // swap limit has no win line; the caller decides when the puzzle is solved.
+  swapsLeft: number | null = null;
+  // Endless mode (null: a regular level). The queue refills itself, there is
+  // no win line and the rise speeds up as lines are cleared.
+  endless: EndlessRamp | null = null;
+  // Time attack: time left on the clock (null: no clock). It only runs while
+  // unpaused, and the run is over once it reaches zero (`timeUp`).
+  timeLeftMs: number | null = null;
+  timeUp = false;
+  // Run stats: longest chain and most gems cleared in one clear step
+  maxChain = 0;
+  largestCombo = 0;
+  // Bounded history of snapshots, oldest first
+  private rewindBuffer: { point: RewindPoint; snapshot: EngineSnapshot }[] = [];
 
   /**
    * Creates a new game engine instance with the specified board dimensions and number of colors.
    *
    * @param width - The number of columns in the game grid. Defaults to 6.
    * @param height - The number of rows in the game grid. Defaults to 12.
-   * @param numColors - The number of distinct colors used in the game. Defaults to 5.
+   * @param numColors - The number of distinct colors used in the game (at most 6). Defaults to 5.
+   * @param seed - Optional PRNG seed. When omitted a random seed is picked; read it back
+   *   from `seed` / `getState().seed` to reproduce the run.
    *
    * Initializes the grid, color palette, match mask, clear line position, and cursor position.
    * The cursor starts in the middle of the board. The mask can be set later via `setMask()`.
    */
-  constructor(width = 6, height = 12, numColors = 5) {
+  constructor(width = 6, height = 12, numColors = 5, seed?: number) {
+    this.seed = (seed ?? randomSeed()) >>> 0;
+    this.rng = createRng(this.seed);
+    this.fxRng = createRng(this.seed ^ 0x9e3779b9);
     this.width = width;
     this.height = height;
     this.cellSize = 64; // default to 64px tiles
-    this.colors = ['#e63946', '#2a9d8f', '#457b9d', '#f4a261', '#a29bfe'].slice(0, numColors);
+    this.colors = GEM_COLORS.slice(0, numColors);
     this.grid = Array.from({ length: height }, () => Array.from({ length: width }, () => -1));
     this.matchMask = this.blankMask();
+    this.tiles = this.blankTiles();
     this.clearLineY = Math.floor(this.height * 0.5);
     // Start cursor in the middle of the board
     this.cursorX = Math.floor((this.width - 2) / 2);
@@ -145,7 +474,8 @@ export class Engine {
    * immediate horizontal or vertical triples, and simulates their insertion into a copy of
    * the current grid for accurate sanitization. The sanitized rows are stored in the level queue.
    * If `visibleCount` is provided, up to that many rows are inserted into the visible grid
-   * from the bottom up, and the number of inserted rows is tracked.
+   * from the bottom up, and the number of inserted rows is tracked. Without it the visible
+   * grid is left as is (e.g. a board placed by `setStartingBoard()`).
    *
    * @param rows - An array of row arrays to queue, each representing a row of numbers.
    * @param visibleCount - Optional. The number of rows to immediately insert into the visible grid.
@@ -174,6 +504,10 @@ export class Engine {
 
     // Store the pre-sanitized queue
     this.levelQueue = sanitizedQueue.slice();
+    if (visibleCount === undefined) {
+      this.refillEndlessQueue();
+      return;
+    }
 
     // Prepare visible grid and populate bottom-up with up to `want` rows
     const temp: number[][] = Array.from({ length: this.height }, () =>
@@ -188,8 +522,80 @@ export class Engine {
       } else break;
     }
     this.grid = temp;
+    this.tiles = this.blankTiles();
     // Track how many rows we've inserted into the visible grid so far.
     this.rowsInserted = placed;
+    this.refillEndlessQueue();
+  }
+
+  /**
+   * Endless mode: generates rows so the queue always holds a few ahead. Each
+   * row is sanitized against the rows that will sit directly above it.
+   */
+  private refillEndlessQueue() {
+    if (!this.endless) return;
+    while (this.levelQueue.length < ENDLESS_QUEUE_AHEAD) {
+      const context = [...this.grid, ...this.levelQueue].slice(-this.height);
+      this.levelQueue.push(this.sanitizeRow(this.generateRandomRows(1)[0], context));
+    }
+  }
+
+  /** How much faster than the set rate the stack rises (endless mode ramp). */
+  riseSpeedFactor(): number {
+    if (!this.endless) return 1;
+    const { speedUpPerLine, maxSpeedUp } = this.endless;
+    return 1 + Math.min(maxSpeedUp, speedUpPerLine * this.linesClearedEq);
+  }
+
+  /**
+   * Replaces the visible grid with a hand-authored board. `rows` run top to
+   * bottom and sit on the bottom of the grid; missing cells are empty. Gems
+   * left floating over empty cells fall once play starts. Every row counts as
+   * inserted for the win line, like starting lines from the queue.
+   */
+  setStartingBoard(rows: Cell[][]) {
+    const board = rows.slice(-this.height);
+    const top = this.height - board.length;
+    this.grid = Array.from({ length: this.height }, (_, y) =>
+      Array.from({ length: this.width }, (_, x) => (y >= top ? board[y - top][x] ?? -1 : -1)),
+    );
+    this.tiles = this.blankTiles();
+    this.rowsInserted = board.length;
+    this.needsScan = true;
+    this.startFalls();
+    this.updatePhase();
+  }
+
+  /**
+   * Generates `count` rows of random gems from the engine's seeded PRNG. When
+   * `gemWeights` is set each gem also rolls its kind (wildcard, bomb, locked).
+   * Rows are raw (unsanitized); pass them to `setLevelQueue()` which removes
+   * immediate triples.
+   */
+  generateRandomRows(count: number): number[][] {
+    const rows: number[][] = [];
+    for (let i = 0; i < count; i++) {
+      rows.push(
+        Array.from({ length: this.width }, () => {
+          const color = this.randColorIndex();
+          // Only roll kinds when configured so plain levels keep their PRNG sequence
+          return this.gemWeights ? makeGem(color, this.rollGemKind(this.gemWeights)) : color;
+        }),
+      );
+    }
+    return rows;
+  }
+
+  private rollGemKind(weights: GemWeights): GemKind {
+    const w = (k: GemKind) =>
+      Math.max(0, weights[k] ?? (k === 'normal' ? DEFAULT_NORMAL_WEIGHT : 0));
+    const total = GEM_KINDS.reduce((sum, k) => sum + w(k), 0);
+    let r = this.rng.next() * total;
+    for (const k of GEM_KINDS) {
+      r -= w(k);
+      if (r < 0) return k;
+    }
+    return 'normal';
   }
 
   // Helper to pop next row or return empty row when queue is empty
@@ -220,7 +626,11 @@ export class Engine {
   private sanitizeRow(row: number[], gridContext: Cell[][] = this.grid): number[] {
     const w = this.width;
     const numColors = this.colors.length;
-    const out = Array.from({ length: w }, (_, i) => (row[i] !== undefined ? row[i] : -1));
+    const cells = Array.from({ length: w }, (_, i) => (row[i] !== undefined ? row[i] : -1));
+    // Work on plain colors; wildcards, garbage and empty cells never count as a repeat
+    const colorOf = (v: Cell) => (isGem(v) && gemKind(v) !== 'wildcard' ? gemColor(v) : -1);
+    const out = cells.map(colorOf);
+    gridContext = gridContext.map((r) => r.map(colorOf));
 
     // Helper: pick a color not in the forbidden set
     const pickAlt = (forbidden: Set<number>) => {
@@ -256,7 +666,10 @@ export class Engine {
       }
     }
 
-    return out;
+    // Recolor changed gems, keeping their kind
+    return cells.map((v, x) =>
+      out[x] >= 0 && out[x] !== colorOf(v) ? makeGem(out[x], gemKind(v)) : v,
+    );
   }
 
   setStartingLines(n: number) {
@@ -287,46 +700,205 @@ export class Engine {
     );
   }
 
+  private blankTiles(): Tile[][] {
+    return Array.from({ length: this.height }, () => this.blankTileRow());
+  }
+
+  private blankTileRow(): Tile[] {
+    return Array.from({ length: this.width }, () => ({ state: 'idle', timerMs: 0, chain: false }));
+  }
+
+  /** Shapes the board's ceiling with a mask stretched over the whole board. */
   setMask(mask: Mask, maskImageWidth?: number) {
     this.mask = mask;
+    this.maskContactMs = null;
     if (maskImageWidth) this.maskImageWidth = maskImageWidth;
   }
 
-  // Check top contact against mask using multiple sample points across each cell.
+  // Whether the stack touches the arena mask in any column the mask comes
+  // down into (the board top is handled by updateTopOut)
   private checkTopContact(): boolean {
     if (!this.mask) return false;
+    for (let x = 0; x < this.width; x++) {
+      if (this.ceilingPx(x) > 0 && this.roomPx(x) <= TOUCH_PX) return true;
+    }
+    return false;
+  }
+
+  // Lowest point of a column's ceiling in board pixels: the arena mask's edge
+  // under the column's sample points, or the top of the board
+  private ceilingPx(x: number): number {
+    if (!this.mask) return 0;
     const cellPx = this.cellSize;
-    const canvasWidthPx = this.width * cellPx;
-    const scale = this.mask.width / canvasWidthPx;
+    const scaleX = this.mask.width / (this.width * cellPx);
+    const scaleY = this.mask.height / (this.height * cellPx);
+    let ceiling = 0;
+    for (const f of this.maskCheckSamples) {
+      const top = this.mask.colTop[Math.floor((x + f) * cellPx * scaleX)] ?? -1;
+      if (top >= 0) ceiling = Math.max(ceiling, top / scaleY);
+    }
+    return ceiling;
+  }
+
+  /**
+   * How close each column's stack is to its ceiling (the top of the board, or
+   * the arena mask): 0 when DANGER_ROWS or more rows away, rising to 1 when
+   * it touches. Empty columns are never in danger.
+   */
+  columnDanger(scrollOffsetPx = this.scrollOffsetPx): number[] {
+    const range = DANGER_ROWS * this.cellSize;
+    return Array.from({ length: this.width }, (_, x) => {
+      let y = 0;
+      while (y < this.height && this.grid[y][x] < 0) y++;
+      if (y === this.height) return 0;
+      const gap = y * this.cellSize - scrollOffsetPx - this.ceilingPx(x);
+      return gap >= range ? 0 : Math.min(1, 1 - gap / range);
+    });
+  }
+
+  // Tracks how long the stack has been touching the mask. Time only counts
+  // while the board is idle, so a clear in progress can still save the run.
+  private updateMaskContact(dtMs: number) {
+    if (!this.checkTopContact()) {
+      this.maskContactMs = null;
+      return;
+    }
+    if (this.maskContactMs === null) {
+      this.maskContactMs = 0;
+      this.events.emit('topContact', { graceMs: this.maskGraceMs });
+    }
+    if (this.paused || this.phase !== 'idle') return;
+    this.maskContactMs += dtMs;
+    if (this.maskContactMs >= this.maskGraceMs) this.lose('mask');
+  }
+
+  // Pixels between a column's highest cell and its ceiling (Infinity while the
+  // column is empty)
+  private roomPx(x: number): number {
     for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const v = this.grid[y][x];
-        if (v < 0) continue;
-        // compute cell top in screen pixels
-        const cellTopY = y * cellPx - this.scrollOffsetPx;
-        // prepare sample Xs in mask image space
-        const sampleXs: number[] = this.maskCheckSamples.map((f) => {
-          const localX = x * cellPx + f * cellPx;
-          return localX * scale;
-        });
-        if (cellTouchesMask(this.mask, cellTopY, sampleXs)) return true;
-      }
+      if (this.grid[y][x] >= 0) return y * this.cellSize - this.scrollOffsetPx - this.ceilingPx(x);
     }
-    return false;
+    return Infinity;
+  }
+
+  // Pixels the stack can still rise before its highest cell reaches the top
+  // of the board (Infinity while the board is empty)
+  private roomAtTopPx(): number {
+    for (let y = 0; y < this.height; y++) {
+      if (this.grid[y].some((v) => v >= 0)) return y * this.cellSize - this.scrollOffsetPx;
+    }
+    return Infinity;
+  }
+
+  // Runs the top-out grace timer. Like the mask contact timer it only counts
+  // while the board is idle and no chain stop is running, so clears in
+  // progress can still make room.
+  private updateTopOut(dtMs: number) {
+    if (this.roomAtTopPx() > TOUCH_PX) {
+      this.topOutMs = null;
+      return;
+    }
+    if (this.topOutMs === null) {
+      this.topOutMs = 0;
+      this.events.emit('topOut', { graceMs: this.topOutGraceMs });
+    }
+    if (this.paused || this.phase !== 'idle' || this.risePauseMs > 0) return;
+    this.topOutMs += dtMs;
+    if (this.topOutMs >= this.topOutGraceMs) this.lose('topOut');
+  }
+
+  private lose(reason: LoseReason) {
+    this.hasLost = true;
+    this.events.emit('lose', { reason, score: this.score });
+  }
+
+  private win() {
+    this.hasWon = true;
+    this.events.emit('win', { score: this.score });
   }
 
   private randColorIndex(): number {
-    return Math.floor(Math.random() * this.colors.length);
+    return this.rng.nextInt(this.colors.length);
+  }
+
+  private emitAction(action: EngineAction) {
+    this.events.emit('action', action);
+  }
+
+  /**
+   * Dispatches a recorded action to the matching engine method. Used by the
+   * replay player; the action is re-emitted as an `action` event like live input.
+   */
+  applyAction(action: EngineAction) {
+    switch (action.type) {
+      case 'moveCursor':
+        this.moveCursor(action.dx, action.dy);
+        break;
+      case 'setCursor':
+        this.setCursorAbsolute(action.x, action.y);
+        break;
+      case 'swap':
+        this.swapAt(action.x, action.y);
+        break;
+      case 'raiseRate':
+        this.setRaiseRate(action.rowsPerSec);
+        break;
+      case 'pause':
+        this.setPaused(action.paused);
+        break;
+      case 'cellSize':
+        this.setCellSize(action.px);
+        break;
+      case 'rewind':
+        this.rewind();
+        break;
+      case 'garbage':
+        this.queueGarbage(action.width, action.height);
+        break;
+    }
+  }
+
+  /**
+   * Sets the automatic raise rate in rows per second and derives the pixel
+   * scroll speed from the current cell size.
+   */
+  setRaiseRate(rowsPerSec: number) {
+    this.autoRiseRateRowsPerSec = rowsPerSec;
+    this.scrollSpeedPxPerSec = rowsPerSec * this.cellSize;
+    this.emitAction({ type: 'raiseRate', rowsPerSec });
+  }
+
+  setPaused(paused: boolean) {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    this.emitAction({ type: 'pause', paused });
+  }
+
+  /**
+   * Changes the cell size (CSS pixels) used for scrolling. The fractional scroll
+   * offset is rescaled so the stack keeps its position in row units, and the
+   * scroll speed is recomputed from the current raise rate.
+   */
+  setCellSize(px: number) {
+    if (!(px > 0) || px === this.cellSize) return;
+    const ratio = px / this.cellSize;
+    this.scrollOffsetPx *= ratio;
+    this.prevScrollOffsetPx *= ratio;
+    this.cellSize = px;
+    this.scrollSpeedPxPerSec = this.autoRiseRateRowsPerSec * px;
+    this.emitAction({ type: 'cellSize', px });
   }
 
   setCursorAbsolute(x: number, y: number) {
     this.cursorX = Math.max(0, Math.min(this.width - 2, x | 0));
     this.cursorY = Math.max(0, Math.min(this.height - 1, y | 0));
+    this.emitAction({ type: 'setCursor', x, y });
   }
 
   moveCursor(dx: number, dy: number) {
     this.cursorX = Math.max(0, Math.min(this.width - 2, this.cursorX + dx));
     this.cursorY = Math.max(0, Math.min(this.height - 1, this.cursorY + dy));
+    this.emitAction({ type: 'moveCursor', dx, dy });
   }
 
   swap() {
@@ -353,38 +925,59 @@ export class Engine {
     } catch {
       /* ignore */
     }
-    if (this.phase !== 'idle' || this.hasWon || this.hasLost) return;
+    // Record the attempt even when it is refused so replays see the same input
+    this.emitAction({ type: 'swap', x, y });
+    if (this.paused || this.hasWon || this.hasLost || this.timeUp) return;
 
     const a = this.grid[y][x];
     const b = this.grid[y][x + 1];
     if (a < 0 && b < 0) return;
+    // Only resting tiles move; the rest of the board stays playable while
+    // other tiles clear or fall
+    if (this.tiles[y][x].state !== 'idle' || this.tiles[y][x + 1].state !== 'idle') return;
+    // Garbage and locked gems can't be moved by swaps
+    if (isGarbage(a) || isGarbage(b)) return;
+    if (gemKind(a) === 'locked' || gemKind(b) === 'locked') return;
+    if (this.swapsLeft === 0) return;
 
+    this.pushRewindPoint('swap');
+    if (this.swapsLeft !== null) this.swapsLeft--;
     this.grid[y][x] = b;
     this.grid[y][x + 1] = a;
 
-    try {
-      if (this.onSwap) this.onSwap();
-    } catch (e) {
-      console.debug('[Engine] onSwap handler error', e);
-    }
+    this.events.emit('swap', { x, y, left: b, right: a });
     try {
       console.debug('[Engine] swap performed', { x, y, a, b });
     } catch {
       /* ignore */
     }
 
-    const anyMatches = this.scanForMatches();
-    if (anyMatches) {
-      this.phase = 'clearing';
-      this.clearTimerMs = 230;
-      this.chainCount = Math.max(this.chainCount, 1);
-      return;
+    this.scanForMatches();
+    // Swapped gems that didn't match settle for a moment before they can be
+    // touched again; one swapped over a gap starts to fall after that
+    for (const sx of [x, x + 1]) {
+      if (this.grid[y][sx] >= 0 && this.tiles[y][sx].state === 'idle') {
+        this.tiles[y][sx] = { state: 'swapping', timerMs: this.swapMs, chain: false };
+      }
     }
+    this.updatePhase();
+  }
 
-    if (a < 0 || b < 0) {
-      this.startSettlingAnimation();
-      return;
+  /**
+   * Advances the simulation by a real-time frame delta using fixed ticks of
+   * `TICK_MS`. Leftover time is carried to the next call so gameplay is the
+   * same on 60 Hz and 144 Hz displays.
+   *
+   * @returns The interpolation factor in [0, 1) between the last two ticks;
+   *   pass it to `getState(alpha)` for smooth rendering.
+   */
+  advance(frameDtMs: number): number {
+    this.accumulatorMs += Math.max(0, Math.min(MAX_FRAME_MS, frameDtMs));
+    while (this.accumulatorMs >= TICK_MS) {
+      this.accumulatorMs -= TICK_MS;
+      this.update(TICK_MS);
     }
+    return this.accumulatorMs / TICK_MS;
   }
 
   // manualRaiseOnce removed: X now temporarily increases the raise rate while held
@@ -392,8 +985,24 @@ export class Engine {
   // underlying insertion helpers (`insertRowFromBottom` / `insertRowFromBottomFromQueue`)
   // remain for internal engine usage and automatic rising.
 
+  /**
+   * Runs one simulation step of `dtMs`. Live play goes through `advance()`,
+   * which always calls this with `TICK_MS`.
+   */
   update(dtMs: number) {
-    if (this.hasWon || this.hasLost) return;
+    this.tick++;
+    // Remember where things were so rendering can interpolate within this tick
+    this.prevScrollOffsetPx = this.scrollOffsetPx;
+    if (this.hasWon || this.hasLost || this.timeUp) return;
+    this.events.emit('tick', { tick: this.tick });
+    if (this.timeLeftMs !== null && !this.paused) {
+      this.timeLeftMs = Math.max(0, this.timeLeftMs - dtMs);
+      if (this.timeLeftMs === 0) {
+        this.timeUp = true;
+        this.events.emit('timeUp', { score: this.score });
+        return;
+      }
+    }
     // Tick down any rise pause timer first; when >0, automatic rising is paused
     if (this.risePauseMs > 0) {
       this.risePauseMs = Math.max(0, this.risePauseMs - dtMs);
@@ -413,196 +1022,446 @@ export class Engine {
       }
       this.particles = alive;
     }
+    if (this.garbageBreaks.length > 0) {
+      for (const b of this.garbageBreaks) b.ageMs += dtMs;
+      this.garbageBreaks = this.garbageBreaks.filter((b) => b.ageMs < b.lifeMs);
+    }
+    // Queued garbage drops in between chains, never in the middle of one
+    if (this.phase === 'idle' && this.pendingGarbage.length > 0) this.dropGarbage();
     // SCROLLING: advance fractional pixel scroll first
     // Only perform automatic scrolling when idle, scrolling speed > 0, and
-    // not currently paused by a match countdown.
-    if (this.phase === 'idle' && this.scrollSpeedPxPerSec > 0 && this.risePauseMs <= 0) {
-      this.scrollOffsetPx += (this.scrollSpeedPxPerSec * dtMs) / 1000;
+    // not currently paused by a match countdown or by the player.
+    if (
+      !this.paused &&
+      this.phase === 'idle' &&
+      this.scrollSpeedPxPerSec > 0 &&
+      this.risePauseMs <= 0
+    ) {
+      const rise = (this.scrollSpeedPxPerSec * this.riseSpeedFactor() * dtMs) / 1000;
+      // The stack stops at its ceiling: the top of the board (see updateTopOut)
+      // or the arena mask (see updateMaskContact)
+      let room = Infinity;
+      for (let x = 0; x < this.width; x++) room = Math.min(room, this.roomPx(x));
+      this.scrollOffsetPx += Math.max(0, Math.min(rise, room));
       const cellPx = this.cellSize;
-      // Consume as many full rows as needed (handle large dtMs)
-      while (this.scrollOffsetPx >= cellPx) {
-        this.scrollOffsetPx -= cellPx;
+      // Consume as many full rows as needed (handle large dtMs); stopping a
+      // sliver short of a row at the top of the board still completes it
+      while (this.scrollOffsetPx >= cellPx - TOUCH_PX) {
+        this.scrollOffsetPx = Math.max(0, this.scrollOffsetPx - cellPx);
+        // Express the previous offset relative to the shifted grid
+        this.prevScrollOffsetPx -= cellPx;
         const lost = this.insertRowFromBottomFromQueue();
         if (lost) {
-          this.hasLost = true;
+          this.lose('topOut');
           return;
         }
       }
-      // Immediate top-of-screen loss: if any occupied cell's top edge
-      // crosses y <= 0 (consider fractional scrollOffset), the game is lost
-      // immediately instead of waiting for a full-row shift.
-      for (let y = 0; y < this.height; y++) {
-        for (let x = 0; x < this.width; x++) {
-          if (this.grid[y][x] >= 0) {
-            const topY = y * cellPx - this.scrollOffsetPx;
-            if (topY <= 0) {
-              this.hasLost = true;
-              return;
-            }
-          }
+    }
+
+    this.stepTiles(dtMs);
+    if (this.hasWon) return;
+    const prevPhase = this.phase;
+    this.updatePhase();
+    if (prevPhase !== 'idle' && this.phase === 'idle') {
+      if (this.chainCount > 0) {
+        this.events.emit('chainEnd', { chain: this.chainCount, score: this.score });
+      }
+      this.chainCount = 0;
+      if (this.swapsLeft === null && !this.endless) this.checkWinLine();
+    }
+    if (!this.hasWon && this.swapsLeft === null) this.updateTopOut(dtMs);
+    if (this.mask && !this.hasWon && !this.hasLost) this.updateMaskContact(dtMs);
+    // Expose scroll offset in state for renderer
+    // (no-op here; getState will include scrollOffsetPx)
+  }
+
+  /**
+   * Advances every tile's state machine by one step:
+   * swaps settle, pending clears flash, pop and resolve, hanging tiles start
+   * to fall and falling tiles drop or land. Tiles that came to rest are then
+   * scanned for new matches, and tiles that lost their support start to hang.
+   */
+  private stepTiles(dtMs: number) {
+    for (const row of this.tiles) {
+      for (const t of row) {
+        if (t.state !== 'swapping') continue;
+        t.timerMs -= dtMs;
+        if (t.timerMs <= 0) {
+          t.state = 'idle';
+          t.timerMs = 0;
+          this.needsScan = true;
         }
       }
-      // After scroll movement (including fractional), check mask contact
-      if (this.mask && this.checkTopContact()) {
-        if (this.onTopContact) this.onTopContact();
+    }
+
+    for (const ev of this.clearEvents.slice()) {
+      ev.timerMs -= dtMs;
+      if (ev.timerMs > 0) {
+        for (const c of ev.cells) {
+          const t = this.tiles[Math.floor(c / this.width)][c % this.width];
+          t.state = ev.timerMs > this.clearPopMs ? 'matched' : 'clearing';
+          t.timerMs = ev.timerMs;
+        }
+        continue;
       }
+      this.clearEvents.splice(this.clearEvents.indexOf(ev), 1);
+      if (this.resolveClear(ev)) return;
     }
+    this.refreshMatchMask();
 
-    if (this.phase === 'clearing') {
-      this.clearTimerMs -= dtMs;
-      if (this.clearTimerMs <= 0) {
-        const { tilesCleared, clearedBelowLine } = this.applyClearAndCount();
-        if (tilesCleared > 0) {
-          // Notify listeners that a match/clear happened. Pass the chainCount
-          // which will be 1 for the initial clear in a chain or higher for
-          // cascades.
-          if (this.onMatch) this.onMatch(this.chainCount);
-          this.matchesTotal += 1;
-          const mult =
-            this.chainCount - 1 < this.chainMultTable.length
-              ? this.chainMultTable[this.chainCount - 1]
-              : this.chainMultTable[this.chainMultTable.length - 1];
-          this.score += tilesCleared * mult;
-
-          const lineEq = Math.floor(tilesCleared / this.width);
-          if (lineEq > 0) this.linesClearedEq += lineEq;
-
-          if (this.linesClearedEq >= this.targetLines && clearedBelowLine) {
-            this.hasWon = true;
-            return;
-          }
-          // Add pause time based on chainCount: 1-chain -> 1000ms, 2-chain -> 2000ms,
-          // and exponential thereafter (2^(n-1) * 1000).
-          const baseMs = 1000;
-          const add = baseMs * Math.pow(2, Math.max(0, this.chainCount - 1));
-          this.risePauseMs += add;
-          // track the current total as the max for the progress bar; if
-          // multiple adds occur, the bar resets to the new total so it
-          // represents the most-recent countdown length.
-          this.risePauseMaxMs = this.risePauseMs;
-          // Emit rainbow particles for every cleared tile
-          const cellPx = this.cellSize;
-          for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-              if (this.matchMask[y][x]) {
-                const cx = x * cellPx + cellPx / 2;
-                const cy = y * cellPx + cellPx / 2;
-                for (let k = 0; k < this.particlesPerTile; k++) {
-                  const angle = Math.random() * Math.PI * 2;
-                  const speed = 160 + Math.random() * 200; // px/sec
-                  const vx = Math.cos(angle) * speed;
-                  const vy = -120 - Math.random() * 420; // upward bias
-                  const color = `hsl(${Math.floor(Math.random() * 360)},90%,60%)`;
-                  const size = 2 + Math.random() * 3;
-                  this.particles.push({
-                    x: cx,
-                    y: cy,
-                    vx,
-                    vy,
-                    ageMs: 0,
-                    lifeMs: this.particleLifeMs,
-                    color,
-                    size,
-                  });
-                }
-              }
-            }
-          }
+    this.stepFalls(dtMs);
+    if (this.needsScan) {
+      this.needsScan = false;
+      this.scanForMatches();
+    }
+    this.startFalls();
+    // Tiles that came to rest without matching drop out of the chain
+    for (const row of this.tiles) {
+      for (const t of row) if (t.state === 'idle') t.chain = false;
+    }
+  }
+
+  /**
+   * Removes a clear's tiles and scores it. Tiles resting above the cleared cells
+   * are flagged as part of the chain so a match they fall into counts as the
+   * next chain step.
+   *
+   * @returns `true` when the clear won the level.
+   */
+  private resolveClear(ev: ClearEvent): boolean {
+    const cells: CellRef[] = ev.cells.map((c) => {
+      const x = c % this.width;
+      const y = Math.floor(c / this.width);
+      return { x, y, color: this.grid[y][x] };
+    });
+    const mask = this.blankMask();
+    for (const c of ev.cells) mask[Math.floor(c / this.width)][c % this.width] = true;
+    const { tilesCleared, clearedBelowLine } = this.applyClearAndCount(mask);
+    this.breakAdjacentGarbage(mask);
+    this.unlockAdjacent(mask);
+    this.needsScan = true;
+    const scoreBefore = this.score;
+    this.matchesTotal += 1;
+    this.maxChain = Math.max(this.maxChain, ev.chain);
+    this.largestCombo = Math.max(this.largestCombo, ev.cells.length);
+    const mult =
+      ev.chain - 1 < this.chainMultTable.length
+        ? this.chainMultTable[ev.chain - 1]
+        : this.chainMultTable[this.chainMultTable.length - 1];
+    this.score += tilesCleared * mult;
+    const bonus = this.comboBonus(ev.groups) * mult;
+    if (bonus > 0) this.score += bonus;
+    this.events.emit('match', {
+      chain: ev.chain,
+      cells,
+      groups: ev.groups.map((g) => ({ ...g })),
+      scoreDelta: this.score - scoreBefore,
+      score: this.score,
+    });
+    if (bonus > 0) {
+      this.events.emit('combo', {
+        groups: ev.groups.map((g) => ({ ...g })),
+        bonus,
+        chainCount: ev.chain,
+      });
+    }
+
+    const lineEq = Math.floor(tilesCleared / this.width);
+    if (lineEq > 0) this.linesClearedEq += lineEq;
+
+    // Endless runs (endless, time attack) and puzzles have no target to reach
+    if (
+      this.swapsLeft === null &&
+      !this.endless &&
+      this.linesClearedEq >= this.targetLines &&
+      clearedBelowLine
+    ) {
+      this.win();
+      return true;
+    }
+    // Add pause time based on the chain step: 1-chain -> 1000ms, 2-chain -> 2000ms,
+    // and exponential thereafter (2^(n-1) * 1000).
+    const baseMs = 1000;
+    const add = baseMs * Math.pow(2, Math.max(0, ev.chain - 1));
+    this.risePauseMs += add;
+    // track the current total as the max for the progress bar; if
+    // multiple adds occur, the bar resets to the new total so it
+    // represents the most-recent countdown length.
+    this.risePauseMaxMs = this.risePauseMs;
+
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (!mask[y][x]) continue;
+        for (let above = y - 1; above >= 0; above--) {
+          const t = this.tiles[above][x];
+          if (this.grid[above][x] < 0 || t.state !== 'idle') break;
+          t.chain = true;
         }
-        this.startSettlingAnimation();
       }
-      return;
     }
 
-    if (this.phase === 'settling') {
-      if (this.fallPieces.length > 0) {
-        let allLanded = true;
-        // Update each piece with its own speed (if provided) so cascade pieces
-        // can fall slower than normal moves.
-        for (const p of this.fallPieces) {
-          const speed = p.speedRowsPerSec ?? this.fallSpeedRowsPerSec;
-          const dy = (speed * dtMs) / 1000;
-          if (p.y < p.toY) p.y = Math.min(p.y + dy, p.toY);
-          if (p.y < p.toY) allLanded = false;
+    // Emit rainbow particles for every cleared tile
+    const cellPx = this.cellSize;
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (mask[y][x]) {
+          const cx = x * cellPx + cellPx / 2;
+          const cy = y * cellPx + cellPx / 2;
+          for (let k = 0; k < this.particlesPerTile; k++) {
+            const angle = this.fxRng.next() * Math.PI * 2;
+            const speed = 160 + this.fxRng.next() * 200; // px/sec
+            const vx = Math.cos(angle) * speed;
+            const vy = -120 - this.fxRng.next() * 420; // upward bias
+            const color = `hsl(${this.fxRng.nextInt(360)},90%,60%)`;
+            const size = 2 + this.fxRng.next() * 3;
+            this.particles.push({
+              x: cx,
+              y: cy,
+              vx,
+              vy,
+              ageMs: 0,
+              lifeMs: this.particleLifeMs,
+              color,
+              size,
+            });
+          }
         }
-        if (!allLanded) return;
+      }
+    }
+    return false;
+  }
+
+  // Time for a falling tile to drop one row; cascades fall slower
+  private fallStepMs(t: Tile): number {
+    const speed = t.chain
+      ? this.fallSpeedRowsPerSec * this.cascadeFallSpeedMultiplier
+      : this.fallSpeedRowsPerSec;
+    return 1000 / speed;
+  }
 
-        for (const p of this.fallPieces) this.grid[p.toY][p.x] = p.color;
-        this.fallPieces = [];
+  /**
+   * Hanging tiles count down and start falling; falling tiles drop one row per
+   * fallStepMs() into empty cells and land on anything at rest. The board is
+   * walked bottom-up so a falling column moves together. A garbage slab moves
+   * as one unit (see stepSlab()).
+   */
+  private stepFalls(dtMs: number) {
+    const seenSlabs = new Set<number>();
+    for (let y = this.height - 1; y >= 0; y--) {
+      for (let x = 0; x < this.width; x++) {
+        const v = this.grid[y][x];
+        const t = this.tiles[y][x];
+        if (v < 0) continue;
+        if (t.state === 'hanging') {
+          t.timerMs -= dtMs;
+          if (t.timerMs <= 0) {
+            t.state = 'falling';
+            t.timerMs += this.fallStepMs(t);
+          }
+          continue;
+        }
+        if (t.state !== 'falling') continue;
+        if (isGarbage(v)) {
+          if (!seenSlabs.has(v)) {
+            seenSlabs.add(v);
+            this.stepSlab(v, dtMs);
+          }
+          continue;
+        }
+        t.timerMs -= dtMs;
+        let cy = y;
+        while (t.timerMs <= 0) {
+          const below = cy + 1 < this.height ? this.tiles[cy + 1][x] : null;
+          if (below && this.grid[cy + 1][x] < 0) {
+            this.grid[cy + 1][x] = v;
+            this.grid[cy][x] = -1;
+            this.tiles[cy + 1][x] = t;
+            this.tiles[cy][x] = { state: 'idle', timerMs: 0, chain: false };
+            cy++;
+            t.timerMs += this.fallStepMs(t);
+          } else if (below && (below.state === 'hanging' || below.state === 'falling')) {
+            // the tile underneath hasn't moved out of the way yet
+            t.timerMs = 0;
+            break;
+          } else {
+            t.state = 'idle';
+            t.timerMs = 0;
+            this.needsScan = true;
+            this.events.emit('land', { x, y: cy, color: v, chain: t.chain });
+            break;
+          }
+        }
       }
+    }
+  }
 
-      const cascades = this.scanForMatches();
-      if (cascades) {
-        this.phase = 'clearing';
-        this.clearTimerMs = 200;
-        this.chainCount += 1;
+  // Drops a falling slab by whole rows, on the timer of its bottom-left tile
+  private stepSlab(v: Cell, dtMs: number) {
+    const cells: [number, number][] = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) if (this.grid[y][x] === v) cells.push([x, y]);
+    }
+    let bottom = Math.max(...cells.map(([, y]) => y));
+    const cols = cells.filter(([, y]) => y === bottom).map(([x]) => x);
+    const lead = this.tiles[bottom][cols[0]];
+    lead.timerMs -= dtMs;
+    while (lead.timerMs <= 0) {
+      const below = cols.map((x) => (bottom + 1 < this.height ? this.tiles[bottom + 1][x] : null));
+      if (below.every((t, i) => t && this.grid[bottom + 1][cols[i]] < 0)) {
+        cells.sort((a, b) => b[1] - a[1]);
+        for (const c of cells) {
+          const [x, y] = c;
+          this.grid[y + 1][x] = v;
+          this.grid[y][x] = -1;
+          this.tiles[y + 1][x] = this.tiles[y][x];
+          this.tiles[y][x] = { state: 'idle', timerMs: 0, chain: false };
+          c[1] = y + 1;
+        }
+        bottom++;
+        lead.timerMs += this.fallStepMs(lead);
+      } else if (below.some((t) => t && (t.state === 'hanging' || t.state === 'falling'))) {
+        lead.timerMs = 0;
+        break;
       } else {
-        this.phase = 'idle';
-        this.chainCount = 0;
-        // WIN CHECK: after cascades settled, if the on-screen win line has
-        // risen into view (rowsInserted >= totalLevelLines) and no occupied
-        // cell exists above the win line, fire onWin. This matches the
-        // renderer which only draws the win line once it has risen into the
-        // visible canvas.
-        if (this.rowsInserted >= this.totalLevelLines) {
-          const cellPx = 48;
-          const canvasH = this.height * cellPx;
-          // Use the same formula as getState().winLineY so the logical win
-          // check matches the on-screen line position. The win line starts
-          // below the canvas until enough rows have been inserted.
-          const winLineScreenY =
-            canvasH + (this.totalLevelLines - this.rowsInserted) * cellPx - this.scrollOffsetPx;
-          let anyAbove = false;
-          for (let y = 0; y < this.height; y++) {
-            for (let x = 0; x < this.width; x++) {
-              if (this.grid[y][x] >= 0) {
-                const topY = y * cellPx - this.scrollOffsetPx;
-                const bottomY = topY + cellPx; // cell bottom in screen coords
-                // Consider a cell "above" the win line only if its entire
-                // bottom edge is above the line. This allows cells that are
-                // partially below the line (e.g. the row immediately below)
-                // to not block the win.
-                if (bottomY <= winLineScreenY) {
-                  anyAbove = true;
-                  break;
-                }
-              }
+        lead.state = 'idle';
+        lead.timerMs = 0;
+        this.needsScan = true;
+        this.events.emit('land', { x: cols[0], y: bottom, color: v, chain: lead.chain });
+        break;
+      }
+    }
+    for (const [x, y] of cells) {
+      const t = this.tiles[y][x];
+      t.state = lead.state;
+      t.timerMs = lead.timerMs;
+    }
+  }
+
+  /**
+   * Resting tiles with an empty cell under them start to hang; tiles resting on
+   * a hanging or falling tile join it so columns fall together. A garbage slab
+   * only hangs when nothing under its bottom row holds it up.
+   */
+  private startFalls() {
+    const seenSlabs = new Set<number>();
+    const unsupported = (x: number, y: number) =>
+      y < this.height && this.grid[y][x] < 0 ? 'empty' : this.movingTileAt(x, y);
+    for (let y = this.height - 2; y >= 0; y--) {
+      for (let x = 0; x < this.width; x++) {
+        const v = this.grid[y][x];
+        const t = this.tiles[y][x];
+        if (v < 0 || t.state !== 'idle') continue;
+        if (isGarbage(v)) {
+          if (seenSlabs.has(v)) continue;
+          seenSlabs.add(v);
+          // Scanning bottom-up, this is the slab's bottom row
+          const cols: number[] = [];
+          for (let c = x; c < this.width && this.grid[y][c] === v; c++) cols.push(c);
+          const under = cols.map((c) => unsupported(c, y + 1));
+          if (!under.every((u) => u !== null)) continue;
+          const moving = under.find((u): u is Tile => u !== 'empty');
+          let top = y;
+          while (top > 0 && this.grid[top - 1][x] === v) top--;
+          for (let r = top; r <= y; r++) {
+            for (const c of cols) {
+              this.tiles[r][c] = moving
+                ? { state: moving.state, timerMs: moving.timerMs, chain: t.chain }
+                : { state: 'hanging', timerMs: this.hangMs, chain: t.chain };
             }
-            if (anyAbove) break;
-          }
-          if (!anyAbove) {
-            this.hasWon = true;
-            if (this.onWin) this.onWin();
-            return;
           }
+          continue;
+        }
+        const under = unsupported(x, y + 1);
+        if (under === 'empty') {
+          t.state = 'hanging';
+          t.timerMs = this.hangMs;
+        } else if (under) {
+          t.state = under.state;
+          t.timerMs = under.timerMs;
         }
       }
-      return;
     }
-    // Expose scroll offset in state for renderer
-    // (no-op here; getState will include scrollOffsetPx)
+  }
+
+  // The tile at (x, y) if it is hanging or falling, otherwise null
+  private movingTileAt(x: number, y: number): Tile | null {
+    const t = this.tiles[y]?.[x];
+    return t && (t.state === 'hanging' || t.state === 'falling') ? t : null;
+  }
+
+  /** Whether every tile is at rest: nothing swapping, clearing or falling. */
+  isSettled(): boolean {
+    return (
+      this.clearEvents.length === 0 && this.tiles.every((r) => r.every((t) => t.state === 'idle'))
+    );
+  }
+
+  private updatePhase() {
+    const prev = this.phase;
+    if (this.clearEvents.length > 0) this.phase = 'clearing';
+    else if (this.tiles.some((r) => r.some((t) => t.state === 'hanging' || t.state === 'falling')))
+      this.phase = 'settling';
+    else this.phase = 'idle';
+    if (this.phase !== prev) this.events.emit('phase', { phase: this.phase, prev });
+  }
+
+  private refreshMatchMask() {
+    this.matchMask = this.blankMask();
+    for (const ev of this.clearEvents) {
+      for (const c of ev.cells) this.matchMask[Math.floor(c / this.width)][c % this.width] = true;
+    }
+  }
+
+  /**
+   * WIN CHECK: once the board has gone quiet, if the on-screen win line has
+   * risen into view (rowsInserted >= totalLevelLines) and no occupied cell
+   * exists above the win line, the level is won. This matches the renderer which
+   * only draws the win line once it has risen into the visible canvas.
+   */
+  private checkWinLine() {
+    if (this.rowsInserted < this.totalLevelLines) return;
+    const cellPx = this.cellSize;
+    const canvasH = this.height * cellPx;
+    // Use the same formula as getState().winLineY so the logical win
+    // check matches the on-screen line position. The win line starts
+    // below the canvas until enough rows have been inserted.
+    const winLineScreenY =
+      canvasH + (this.totalLevelLines - this.rowsInserted) * cellPx - this.scrollOffsetPx;
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (this.grid[y][x] >= 0) {
+          const topY = y * cellPx - this.scrollOffsetPx;
+          const bottomY = topY + cellPx; // cell bottom in screen coords
+          // Consider a cell "above" the win line only if its entire
+          // bottom edge is above the line. This allows cells that are
+          // partially below the line (e.g. the row immediately below)
+          // to not block the win.
+          if (bottomY <= winLineScreenY) return;
+        }
+      }
+    }
+    this.win();
   }
 
   // Insert row using prebuilt queue (or empty) - shifts grid up by one row
   private insertRowFromBottomFromQueue(): boolean {
     // If any cell in the top visible row is occupied, that's a loss (blocks
-    // have reached the top of the visible grid). This is distinct from the
-    // mask-based top contact hook which callers may use for soft alerts.
+    // have reached the top of the visible grid). Touching the arena mask is
+    // handled separately, with a grace period (see updateMaskContact).
     for (let x = 0; x < this.width; x++) {
       if (this.grid[0][x] >= 0) return true;
     }
-    // Fire mask contact hook if mask indicates contact (non-lethal by default)
-    if (this.mask && this.checkTopContact()) {
-      if (this.onTopContact) this.onTopContact();
-    }
     // shift rows up
     for (let y = 0; y < this.height - 1; y++) {
       this.grid[y] = this.grid[y + 1].slice();
+      this.tiles[y] = this.tiles[y + 1];
     }
+    this.tiles[this.height - 1] = this.blankTileRow();
     // Next row is from queue or empty. Queue rows are pre-sanitized in
     // setLevelQueue(), so use them directly to avoid visible changes while
     // the row is rising into view.
     const newRow = this.shiftNextRow();
+    this.refillEndlessQueue();
     // Ensure length
     if (newRow.length !== this.width) {
       const r = Array.from({ length: this.width }, () => -1);
@@ -613,83 +1472,239 @@ export class Engine {
     }
     this.cursorY = Math.max(0, this.cursorY - 1);
     this.rowsInserted++;
+    this.pushRewindPoint('row');
+    this.events.emit('rowInserted', {
+      row: this.grid[this.height - 1].slice(),
+      rowsInserted: this.rowsInserted,
+    });
     return false;
   }
 
+  private pushRewindPoint(point: RewindPoint) {
+    if (this.rewindDepth <= 0) return;
+    this.rewindBuffer.push({ point, snapshot: this.serialize() });
+    while (this.rewindBuffer.length > this.rewindDepth) this.rewindBuffer.shift();
+  }
+
+  /** Whether rewind() has a snapshot to go back to. */
+  canRewind(): boolean {
+    return this.rewindBuffer.length > 0;
+  }
+
+  /**
+   * Practice mode: restores the board to just before the most recent swap,
+   * dropping the row snapshots taken since. If that swap has already fallen
+   * out of the buffer, goes back to the oldest snapshot still kept. Also undoes
+   * a loss. The tick counter keeps running so replays stay in order.
+   *
+   * @returns `false` when there is nothing to rewind to.
+   */
+  rewind(): boolean {
+    this.emitAction({ type: 'rewind' });
+    let entry = this.rewindBuffer.pop();
+    if (!entry) return false;
+    while (entry.point !== 'swap' && this.rewindBuffer.length > 0) {
+      entry = this.rewindBuffer.pop()!;
+    }
+    // Time, pause, rise rate and board size are player/UI state, not board state
+    const { tick, paused, cellSize, autoRiseRateRowsPerSec } = this;
+    this.restoreSnapshot(entry.snapshot);
+    this.tick = tick;
+    this.paused = paused;
+    this.particles = [];
+    this.scrollOffsetPx *= cellSize / this.cellSize;
+    this.prevScrollOffsetPx = this.scrollOffsetPx;
+    this.cellSize = cellSize;
+    this.autoRiseRateRowsPerSec = autoRiseRateRowsPerSec;
+    this.scrollSpeedPxPerSec = autoRiseRateRowsPerSec * cellSize;
+    return true;
+  }
+
   /**
-   * Scans the game grid for horizontal and vertical matches of at least three consecutive cells
-   * with the same color (non-negative value). Marks matched cells in the `matchMask` and returns
-   * whether any matches were found.
+   * Scans the game grid for horizontal and vertical matches of at least three consecutive gems
+   * of the same color among resting (idle) tiles. Matched tiles become one `ClearEvent` and
+   * start flashing; returns whether any matches were found.
    *
-   * @returns {boolean} `true` if any matches were found and marked; otherwise, `false`.
+   * @returns {boolean} `true` if any matches were found; otherwise, `false`.
    *
    * @remarks
-   * - Horizontal matches are detected row by row.
-   * - Vertical matches are detected column by column.
-   * - Only runs of three or more consecutive, occupied cells (value >= 0) with the same color are considered matches.
-   * - The `matchMask` is updated to reflect the positions of all matched cells.
+   * - Horizontal matches are detected row by row, vertical matches column by column.
+   * - Tiles that are swapping, falling, hanging or already clearing never match.
+   * - If any matched tile fell because of a clear (`Tile.chain`), the clear is the next
+   *   step of the current chain; otherwise it scores as a fresh 1-chain.
+   * - Wildcards match any color, so a run is any stretch of gems whose non-wildcard gems all
+   *   share one color. Garbage never matches.
+   * - A matched bomb also marks its 3x3 neighborhood (gems only); bombs caught in a blast
+   *   set off their own.
+   * - Runs that share a cell form one group; `matchGroups` gets each group's size and
+   *   shape for combo scoring. Blast cells don't count towards a group.
    */
   private scanForMatches(): boolean {
-    this.matchMask = this.blankMask();
-    let found = false;
+    // Only resting tiles take part
+    const live = this.grid.map((r, y) =>
+      r.map((v, x) => (this.tiles[y][x].state === 'idle' ? v : -1)),
+    );
+    const mask = this.blankMask();
+    // Maximal runs as cell indices (y * width + x)
+    const runs: { cells: number[]; vertical: boolean }[] = [];
 
-    // Scan for horizontal matches in each row.
-    for (let y = 0; y < this.height; y++) {
-      let runStart = 0;
-      // Iterate across the row, checking for runs of matching colors.
-      for (let x = 1; x <= this.width; x++) {
-        const prev = this.grid[y][x - 1];
-        const curr = x < this.width ? this.grid[y][x] : Number.NaN;
-        // Check if the current cell matches the previous one and both are occupied.
-        const same = x < this.width && prev >= 0 && curr >= 0 && prev === curr;
-        if (!same) {
-          // If the run ends, check if it was at least 3 cells long.
-          const len = x - runStart;
-          if (this.grid[y][x - 1] >= 0 && len >= 3) {
-            found = true;
-            // Mark all cells in the run as matched in the matchMask.
-            for (let k = runStart; k < x; k++) this.matchMask[y][k] = true;
+    const scanLine = (cells: Cell[], index: (i: number) => number, vertical: boolean) => {
+      // Try each start: with wildcards, runs can overlap (R W B B matches W B B).
+      // A later start never ends earlier, so a run ending at or before the last
+      // one is contained in it.
+      let lastEnd = -1;
+      for (let i = 0; i < cells.length; i++) {
+        let j = i;
+        let color = -1;
+        while (j < cells.length && isGem(cells[j])) {
+          if (gemKind(cells[j]) !== 'wildcard') {
+            if (color >= 0 && gemColor(cells[j]) !== color) break;
+            color = gemColor(cells[j]);
           }
-          // Start a new run.
-          runStart = x;
+          j++;
+        }
+        if (j - i >= 3 && j > lastEnd) {
+          lastEnd = j;
+          const run: number[] = [];
+          for (let k = i; k < j; k++) run.push(index(k));
+          runs.push({ cells: run, vertical });
         }
       }
-    }
+    };
 
-    // Scan for vertical matches in each column.
+    for (let y = 0; y < this.height; y++) {
+      scanLine(live[y], (x) => y * this.width + x, false);
+    }
     for (let x = 0; x < this.width; x++) {
-      let runStart = 0;
-      // Iterate down the column, checking for runs of matching colors.
-      for (let y = 1; y <= this.height; y++) {
-        const prev = this.grid[y - 1][x];
-        const curr = y < this.height ? this.grid[y][x] : Number.NaN;
-        // Check if the current cell matches the previous one and both are occupied.
-        const same = y < this.height && prev >= 0 && curr >= 0 && prev === curr;
-        if (!same) {
-          // If the run ends, check if it was at least 3 cells long.
-          const len = y - runStart;
-          if (this.grid[y - 1][x] >= 0 && len >= 3) {
-            found = true;
-            // Mark all cells in the run as matched in the matchMask.
-            for (let k = runStart; k < y; k++) this.matchMask[k][x] = true;
-          }
-          // Start a new run.
-          runStart = y;
+      scanLine(
+        live.map((r) => r[x]),
+        (y) => y * this.width + x,
+        true,
+      );
+    }
+    if (runs.length === 0) return false;
+    for (const run of runs) {
+      for (const c of run.cells) mask[Math.floor(c / this.width)][c % this.width] = true;
+    }
+    this.matchGroups = this.groupRuns(runs);
+
+    // Bombs: expand matched bombs to their 3x3 neighborhood
+    const pending: [number, number][] = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (mask[y][x] && gemKind(live[y][x]) === 'bomb') pending.push([x, y]);
+      }
+    }
+    const exploded = new Set<number>();
+    while (pending.length > 0) {
+      const [bx, by] = pending.pop()!;
+      if (exploded.has(by * this.width + bx)) continue;
+      exploded.add(by * this.width + bx);
+      for (let y = by - 1; y <= by + 1; y++) {
+        for (let x = bx - 1; x <= bx + 1; x++) {
+          const v = live[y]?.[x];
+          if (v === undefined || !isGem(v)) continue;
+          mask[y][x] = true;
+          if (gemKind(v) === 'bomb') pending.push([x, y]);
         }
       }
     }
-    return found;
+
+    const cells: number[] = [];
+    let chained = false;
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (!mask[y][x]) continue;
+        cells.push(y * this.width + x);
+        if (this.tiles[y][x].chain) chained = true;
+      }
+    }
+    const chain = chained ? this.chainCount + 1 : 1;
+    this.chainCount = Math.max(this.chainCount, chain);
+    const timerMs = chained ? this.cascadeClearMs : this.clearMs;
+    for (const c of cells) {
+      this.tiles[Math.floor(c / this.width)][c % this.width] = {
+        state: 'matched',
+        timerMs,
+        chain: false,
+      };
+    }
+    this.clearEvents.push({ cells, groups: this.matchGroups, chain, timerMs });
+    this.refreshMatchMask();
+    return true;
+  }
+
+  // Joins runs sharing a cell into groups and classifies each group's shape
+  private groupRuns(runs: { cells: number[]; vertical: boolean }[]): MatchGroup[] {
+    const parent = runs.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const runAt = new Map<number, number>();
+    runs.forEach((run, i) => {
+      for (const c of run.cells) {
+        const other = runAt.get(c);
+        if (other !== undefined) parent[find(i)] = find(other);
+        else runAt.set(c, i);
+      }
+    });
+
+    const byRoot = new Map<number, number[]>();
+    runs.forEach((_, i) => {
+      const root = find(i);
+      byRoot.set(root, [...(byRoot.get(root) ?? []), i]);
+    });
+
+    const groups: MatchGroup[] = [];
+    for (const members of byRoot.values()) {
+      const cells = new Set(members.flatMap((i) => runs[i].cells));
+      let shape: MatchShape = 'line';
+      for (const h of members.filter((i) => !runs[i].vertical)) {
+        for (const v of members.filter((i) => runs[i].vertical)) {
+          const hc = runs[h].cells;
+          const vc = runs[v].cells;
+          const shared = hc.find((c) => vc.includes(c));
+          if (shared === undefined) continue;
+          const atEnds =
+            (shared === hc[0] || shared === hc[hc.length - 1]) &&
+            (shared === vc[0] || shared === vc[vc.length - 1]);
+          // a T anywhere in the group outranks an L
+          if (!atEnds) shape = 'T';
+          else if (shape === 'line') shape = 'L';
+        }
+      }
+      let color = -1;
+      for (const c of cells) {
+        const v = this.grid[Math.floor(c / this.width)][c % this.width];
+        if (gemKind(v) !== 'wildcard') {
+          color = gemColor(v);
+          break;
+        }
+      }
+      groups.push({ size: cells.size, shape, color });
+    }
+    return groups;
+  }
+
+  // Combo points for one clear step before the chain multiplier
+  private comboBonus(groups: MatchGroup[]): number {
+    const t = this.comboBonusTable;
+    let bonus = Math.max(0, groups.length - 1) * t.extraGroup;
+    for (const g of groups) {
+      if (g.size >= 5) bonus += t.fivePlus;
+      else if (g.size === 4) bonus += t.four;
+      if (g.shape !== 'line') bonus += t.shape;
+    }
+    return bonus;
   }
 
   /**
-   * Clears matched tiles from the grid and counts the number of tiles cleared.
+   * Clears the masked tiles from the grid and counts the number of tiles cleared.
    * Also determines if any cleared tiles are below a specified clear line.
    *
    * @returns An object containing:
    * - `tilesCleared`: The total number of tiles cleared.
    * - `clearedBelowLine`: `true` if any cleared tiles are below the clear line, otherwise `false`.
    */
-  private applyClearAndCount(): {
+  private applyClearAndCount(mask: boolean[][]): {
     tilesCleared: number;
     clearedBelowLine: boolean;
   } {
@@ -697,10 +1712,11 @@ export class Engine {
     let clearedBelowLine = false;
     for (let y = 0; y < this.height; y++) {
       for (let x = 0; x < this.width; x++) {
-        if (this.matchMask[y][x]) {
+        if (mask[y][x]) {
           tilesCleared++;
           if (y >= this.clearLineY) clearedBelowLine = true;
           this.grid[y][x] = -1;
+          this.tiles[y][x] = { state: 'idle', timerMs: 0, chain: false };
         }
       }
     }
@@ -708,56 +1724,78 @@ export class Engine {
   }
 
   /**
-   * Initiates the settling animation for falling pieces after a swap or clear operation.
-   *
-   * This method scans each column of the grid to identify pieces that need to fall
-   * into empty spaces below them. It constructs a list of falling pieces (`fallPieces`)
-   * with their starting and target positions, color, and falling speed. The speed is
-   * determined by the current engine phase: if settling occurs immediately after a clear,
-   * a slower cascade speed is used for better visual clarity.
-   *
-   * The grid cells are updated to reflect the movement, setting the original positions
-   * of falling pieces to empty. The engine phase is then set to "settling".
-   *
-   * Note: Cells above the last gem in each column are left unchanged.
+   * Queues a garbage slab to drop in from the top of the board. It waits until
+   * the board is idle (no clear or fall in progress) and there is room in the
+   * top rows, then falls as one block (see stepSlab()). Width is clamped to the board width and
+   * height to at most half the board.
    */
-  private startSettlingAnimation() {
-    //console.log('[Engine] startSettlingAnimation called');
-    this.fallPieces = [];
-    for (let x = 0; x < this.width; x++) {
-      const col: { color: number; fromY: number }[] = [];
-      for (let y = 0; y < this.height; y++) {
-        const v = this.grid[y][x];
-        if (v >= 0) col.push({ color: v, fromY: y });
-      }
+  queueGarbage(width: number, height: number) {
+    this.emitAction({ type: 'garbage', width, height });
+    const w = Math.max(1, Math.min(this.width, width | 0));
+    const h = Math.max(1, Math.min(Math.floor(this.height / 2), height | 0));
+    const x = this.rng.nextInt(this.width - w + 1);
+    this.pendingGarbage.push({ width: w, height: h, x });
+  }
+
+  // Place the next queued slab in the top rows and let it fall
+  private dropGarbage() {
+    const g = this.pendingGarbage[0];
+    for (let y = 0; y < g.height; y++) {
+      for (let x = g.x; x < g.x + g.width; x++) if (this.grid[y][x] >= 0) return;
+    }
+    this.pendingGarbage.shift();
+    const v = garbageCell(this.nextGarbageId++);
+    for (let y = 0; y < g.height; y++) {
+      for (let x = g.x; x < g.x + g.width; x++) this.grid[y][x] = v;
+    }
+    // Start it falling now so the rise check this tick doesn't see it resting in the top row
+    this.startFalls();
+    this.updatePhase();
+  }
 
-      let writeY = this.height - 1;
-      for (let i = col.length - 1; i >= 0; i--) {
-        const { color, fromY } = col[i];
-        if (fromY !== writeY) {
-          this.grid[fromY][x] = -1;
-          // Default speed; if we're settling immediately after a clear we
-          // want cascades to fall slower so they read visually as part of
-          // the chain. StartSettlingAnimation is called from both swap()
-          // and after clearing; use the engine phase to decide multiplier.
-          const speed =
-            this.phase === 'clearing'
-              ? this.fallSpeedRowsPerSec * this.cascadeFallSpeedMultiplier
-              : this.fallSpeedRowsPerSec;
-          this.fallPieces.push({
-            x,
-            fromY,
-            toY: writeY,
-            y: fromY,
-            color,
-            speedRowsPerSec: speed,
-          });
+  /**
+   * Garbage slabs touching a just-cleared cell break from the bottom row up:
+   * each clear next to a slab turns its bottom row into gems, and the rest of
+   * the slab stays garbage. Call after applyClearAndCount() with the same mask
+   * of cleared cells.
+   */
+  private breakAdjacentGarbage(mask: boolean[][]) {
+    const hit = new Set<number>();
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        if (!mask[y][x]) continue;
+        for (const [nx, ny] of [
+          [x - 1, y],
+          [x + 1, y],
+          [x, y - 1],
+          [x, y + 1],
+        ]) {
+          const v = this.grid[ny]?.[nx];
+          if (v !== undefined && isGarbage(v)) hit.add(v);
         }
-        writeY--;
       }
-      // Do NOT clear all cells above the last gem; leave them as-is
     }
-    this.phase = 'settling';
+    for (const v of hit) {
+      let bottom = -1;
+      for (let y = 0; y < this.height; y++) if (this.grid[y].includes(v)) bottom = y;
+      for (let x = 0; x < this.width; x++) {
+        if (this.grid[bottom][x] !== v) continue;
+        this.grid[bottom][x] = this.randColorIndex();
+        this.garbageBreaks.push({ x, y: bottom, ageMs: 0, lifeMs: this.garbageBreakMs });
+      }
+    }
+  }
+
+  // Locked gems next to a just-cleared cell become normal gems of the same color
+  private unlockAdjacent(mask: boolean[][]) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const v = this.grid[y][x];
+        if (!isGem(v) || gemKind(v) !== 'locked') continue;
+        const touched = mask[y][x - 1] || mask[y][x + 1] || mask[y - 1]?.[x] || mask[y + 1]?.[x];
+        if (touched) this.grid[y][x] = makeGem(gemColor(v));
+      }
+    }
   }
 
   /**
@@ -778,7 +1816,7 @@ export class Engine {
    * such as grid data, dimensions, cursor position, colors, game phase, match mask,
    * chain count, falling pieces, score, total matches, lines cleared, target lines,
    * auto-rise rate, rise accumulators, pause durations, clear line info, win/loss flags,
-   * scroll offset, win line position, next row preview, and active particles.
+   * scroll offset, win line position, next row preview, active particles, and the PRNG seed.
    *
    * - `winLineY` is calculated to represent the position of the win line, starting off-screen
    *   and rising into view as more rows are inserted.
@@ -786,12 +1824,29 @@ export class Engine {
    *   or an empty row if the queue is empty.
    * - Arrays such as `particles` and `nextRowPreview` are returned as shallow copies to prevent
    *   unintended mutations.
+   * - When `alpha` is given (see `advance()`), `scrollOffsetPx`, `winLineY` and falling piece
+   *   positions are interpolated between the previous and current tick.
+   * - Falling tiles are left out of `grid` and listed in `fallPieces` with their position
+   *   between rows.
    *
+   * @param alpha - Optional interpolation factor in [0, 1].
    * @returns {GameState} The current state of the game.
    */
-  getState(): GameState {
+  getState(alpha?: number): GameState {
+    const t = alpha === undefined ? 1 : Math.max(0, Math.min(1, alpha));
+    const scrollOffsetPx =
+      this.prevScrollOffsetPx + (this.scrollOffsetPx - this.prevScrollOffsetPx) * t;
+    const fallPieces = this.fallPieces().map((p) => {
+      const from = p.prevY ?? p.y;
+      return { ...p, y: from + (p.y - from) * t };
+    });
+    // Falling tiles are drawn from fallPieces, between cells
+    const grid =
+      fallPieces.length === 0
+        ? this.grid
+        : this.grid.map((r, y) => r.map((v, x) => (this.tiles[y][x].state === 'falling' ? -1 : v)));
     return {
-      grid: this.grid,
+      grid,
       width: this.width,
       height: this.height,
       cursorX: this.cursorX,
@@ -799,8 +1854,9 @@ export class Engine {
       colors: this.colors,
       phase: this.phase,
       matchMask: this.matchMask,
+      tiles: this.tiles,
       chainCount: this.chainCount,
-      fallPieces: this.fallPieces,
+      fallPieces,
       score: this.score,
       matchesTotal: this.matchesTotal,
       linesClearedEq: this.linesClearedEq,
@@ -812,7 +1868,11 @@ export class Engine {
       clearLineY: this.clearLineY,
       hasWon: this.hasWon,
       hasLost: this.hasLost,
-      scrollOffsetPx: this.scrollOffsetPx,
+      timeLeftMs: this.timeLeftMs,
+      timeUp: this.timeUp,
+      maxChain: this.maxChain,
+      largestCombo: this.largestCombo,
+      scrollOffsetPx,
       // The win line concept: it should start off-screen below the canvas and
       // only move into the visible area once `totalLevelLines` rows have been
       // inserted. We compute the line as the canvas bottom plus the remaining
@@ -820,10 +1880,12 @@ export class Engine {
       // totalLevelLines the line is below the canvas (off-screen). As more
       // rows are inserted the value will decrease and the line will rise into
       // view. Finally subtract fractional scrollOffsetPx.
-      winLineY:
-        this.height * this.cellSize +
-        (this.totalLevelLines - this.rowsInserted) * this.cellSize -
-        this.scrollOffsetPx,
+      // Endless runs have no win line
+      winLineY: this.endless
+        ? undefined
+        : this.height * this.cellSize +
+          (this.totalLevelLines - this.rowsInserted) * this.cellSize -
+          scrollOffsetPx,
       // Provide a preview of the next row that will be inserted from the
       // level queue (or an empty row when queue is empty). Renderer can use
       // this to draw incoming tiles rising into view during fractional
@@ -837,6 +1899,179 @@ export class Engine {
           ? this.levelQueue[0].slice()
           : Array.from({ length: this.width }, () => -1),
       particles: this.particles.slice(),
+      garbageBreaks: this.garbageBreaks.slice(),
+      pendingGarbage: this.pendingGarbage.slice(),
+      mask: this.mask,
+      maskContactMs: this.maskContactMs,
+      maskGraceMs: this.maskGraceMs,
+      topOutMs: this.topOutMs,
+      topOutGraceMs: this.topOutGraceMs,
+      danger: this.columnDanger(scrollOffsetPx),
+      ceilingRows: Array.from({ length: this.width }, (_, x) => this.ceilingPx(x) / this.cellSize),
+      seed: this.seed,
+      tick: this.tick,
+      paused: this.paused,
+    };
+  }
+
+  // Falling tiles as pieces part-way to the next row, for the renderer
+  private fallPieces(): FallPiece[] {
+    const pieces: FallPiece[] = [];
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
+        const t = this.tiles[y][x];
+        const v = this.grid[y][x];
+        if (v < 0 || t.state !== 'falling') continue;
+        const step = this.fallStepMs(t);
+        const below = this.grid[y + 1]?.[x];
+        // Only slide towards a free cell (or the slab's own cell below)
+        const moving = below !== undefined && (below < 0 || below === v);
+        const progress = moving ? Math.max(0, Math.min(1, 1 - t.timerMs / step)) : 0;
+        pieces.push({
+          x,
+          fromY: y,
+          toY: y + 1,
+          y: y + progress,
+          prevY: y + Math.max(0, progress - TICK_MS / step),
+          color: v,
+          speedRowsPerSec: 1000 / step,
+        });
+      }
+    }
+    return pieces;
+  }
+
+  /**
+   * Captures the run as a versioned, JSON-serializable snapshot: grid, queue,
+   * scoring counters, rise timers, tile states, pending clears and PRNG state.
+   * Restore it with `Engine.deserialize()`.
+   */
+  serialize(): EngineSnapshot {
+    return {
+      version: ENGINE_SNAPSHOT_VERSION,
+      width: this.width,
+      height: this.height,
+      colors: this.colors.slice(),
+      cellSize: this.cellSize,
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      fxRngState: this.fxRng.getState(),
+      tick: this.tick,
+      grid: this.grid.map((r) => r.slice()),
+      levelQueue: this.levelQueue.map((r) => r.slice()),
+      rowsInserted: this.rowsInserted,
+      totalLevelLines: this.totalLevelLines,
+      cursorX: this.cursorX,
+      cursorY: this.cursorY,
+      phase: this.phase,
+      matchMask: this.matchMask.map((r) => r.slice()),
+      matchGroups: this.matchGroups.map((g) => ({ ...g })),
+      tiles: this.tiles.map((r) => r.map((t) => ({ ...t }))),
+      clearEvents: this.clearEvents.map((ev) => ({
+        ...ev,
+        cells: ev.cells.slice(),
+        groups: ev.groups.map((g) => ({ ...g })),
+      })),
+      chainCount: this.chainCount,
+      scrollOffsetPx: this.scrollOffsetPx,
+      autoRiseRateRowsPerSec: this.autoRiseRateRowsPerSec,
+      scrollSpeedPxPerSec: this.scrollSpeedPxPerSec,
+      risePauseMs: this.risePauseMs,
+      risePauseMaxMs: this.risePauseMaxMs,
+      score: this.score,
+      matchesTotal: this.matchesTotal,
+      linesClearedEq: this.linesClearedEq,
+      targetLines: this.targetLines,
+      hasWon: this.hasWon,
+      hasLost: this.hasLost,
+      paused: this.paused,
+      pendingGarbage: this.pendingGarbage.map((g) => ({ ...g })),
+      nextGarbageId: this.nextGarbageId,
+      swapsLeft: this.swapsLeft,
+      endless: this.endless ? { ...this.endless } : null,
+      timeLeftMs: this.timeLeftMs,
+      timeUp: this.timeUp,
+      maxChain: this.maxChain,
+      largestCombo: this.largestCombo,
+      gemWeights: this.gemWeights ? { ...this.gemWeights } : null,
+      mask: this.mask ? { ...this.mask, colTop: this.mask.colTop.slice() } : null,
+      maskGraceMs: this.maskGraceMs,
+      maskContactMs: this.maskContactMs,
+      topOutGraceMs: this.topOutGraceMs,
+      topOutMs: this.topOutMs,
     };
   }
+
+  private restoreSnapshot(snap: EngineSnapshot) {
+    this.colors = snap.colors.slice();
+    this.cellSize = snap.cellSize;
+    this.rng.setState(snap.rngState);
+    this.fxRng.setState(snap.fxRngState);
+    this.tick = snap.tick;
+    this.grid = snap.grid.map((r) => r.slice());
+    this.levelQueue = snap.levelQueue.map((r) => r.slice());
+    this.rowsInserted = snap.rowsInserted;
+    this.totalLevelLines = snap.totalLevelLines;
+    this.cursorX = snap.cursorX;
+    this.cursorY = snap.cursorY;
+    this.phase = snap.phase;
+    this.matchMask = snap.matchMask.map((r) => r.slice());
+    this.matchGroups = snap.matchGroups.map((g) => ({ ...g }));
+    this.tiles = snap.tiles.map((r) => r.map((t) => ({ ...t })));
+    this.clearEvents = snap.clearEvents.map((ev) => ({
+      ...ev,
+      cells: ev.cells.slice(),
+      groups: ev.groups.map((g) => ({ ...g })),
+    }));
+    this.chainCount = snap.chainCount;
+    this.scrollOffsetPx = snap.scrollOffsetPx;
+    this.prevScrollOffsetPx = snap.scrollOffsetPx;
+    this.autoRiseRateRowsPerSec = snap.autoRiseRateRowsPerSec;
+    this.scrollSpeedPxPerSec = snap.scrollSpeedPxPerSec;
+    this.risePauseMs = snap.risePauseMs;
+    this.risePauseMaxMs = snap.risePauseMaxMs;
+    this.score = snap.score;
+    this.matchesTotal = snap.matchesTotal;
+    this.linesClearedEq = snap.linesClearedEq;
+    this.targetLines = snap.targetLines;
+    this.hasWon = snap.hasWon;
+    this.hasLost = snap.hasLost;
+    this.paused = snap.paused;
+    this.pendingGarbage = snap.pendingGarbage.map((g) => ({ ...g }));
+    this.nextGarbageId = snap.nextGarbageId;
+    this.swapsLeft = snap.swapsLeft;
+    this.endless = snap.endless ? { ...snap.endless } : null;
+    this.timeLeftMs = snap.timeLeftMs;
+    this.timeUp = snap.timeUp;
+    this.maxChain = snap.maxChain;
+    this.largestCombo = snap.largestCombo;
+    this.gemWeights = snap.gemWeights ? { ...snap.gemWeights } : null;
+    this.mask = snap.mask ? { ...snap.mask, colTop: snap.mask.colTop.slice() } : undefined;
+    this.maskGraceMs = snap.maskGraceMs;
+    this.maskContactMs = snap.maskContactMs;
+    this.topOutGraceMs = snap.topOutGraceMs;
+    this.topOutMs = snap.topOutMs;
+    this.garbageBreaks = [];
+  }
+
+  /**
+   * Rebuilds an engine from a snapshot produced by `serialize()`. Throws if the
+   * snapshot is from an unsupported version or its grid doesn't match its size.
+   * Event listeners are not restored and must be subscribed again.
+   */
+  static deserialize(snap: EngineSnapshot): Engine {
+    if (!snap || snap.version !== ENGINE_SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported engine snapshot version: ${snap?.version}`);
+    }
+    if (
+      !Array.isArray(snap.grid) ||
+      snap.grid.length !== snap.height ||
+      snap.grid.some((r) => !Array.isArray(r) || r.length !== snap.width)
+    ) {
+      throw new Error('Engine snapshot grid does not match its dimensions');
+    }
+    const e = new Engine(snap.width, snap.height, snap.colors.length, snap.seed);
+    e.restoreSnapshot(snap);
+    return e;
+  }
 }
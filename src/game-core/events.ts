@@ -0,0 +1,51 @@
+export type Listener<T> = (payload: T) => void;
+
+export type Emitter<Events extends object> = {
+  // Adds a listener; returns a function that removes it again
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void;
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void;
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void;
+  // Drops every listener of every event
+  clear(): void;
+};
+
+/**
+ * Typed publish/subscribe with any number of listeners per event. Listeners run
+ * in the order they subscribed; one that throws is logged and the rest still
+ * run. Listeners added or removed during an emit take effect from the next one.
+ */
+export function createEmitter<Events extends object>(): Emitter<Events> {
+  const listeners = new Map<keyof Events, Set<Listener<never>>>();
+
+  function on<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    let set = listeners.get(type);
+    if (!set) {
+      set = new Set();
+      listeners.set(type, set);
+    }
+    set.add(listener);
+    return () => off(type, listener);
+  }
+
+  function off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    listeners.get(type)?.delete(listener);
+  }
+
+  function emit<K extends keyof Events>(type: K, payload: Events[K]) {
+    const set = listeners.get(type);
+    if (!set) return;
+    for (const listener of Array.from(set) as Listener<Events[K]>[]) {
+      try {
+        listener(payload);
+      } catch (e) {
+        console.debug(`[Emitter] ${String(type)} listener error`, e);
+      }
+    }
+  }
+
+  function clear() {
+    listeners.clear();
+  }
+
+  return { on, off, emit, clear };
+}
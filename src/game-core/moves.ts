@@ -0,0 +1,117 @@
+// Static move analysis on a grid (e.g. GameState.grid): which swaps match and
+// what they set off. Boards are played out instantly, with no timers and no
+// rising, so this is a planning model rather than a second engine. Used by
+// the hint key and the CPU opponent.
+
+import type { Cell } from './engine';
+import { EMPTY, gemColor, gemKind, isGarbage, isGem } from './cell';
+
+// Left cell of a swap, like Engine.swapAt
+export type SwapMove = { x: number; y: number };
+
+// A board played out after a swap: gems dropped and every match cleared
+export type SwapOutcome = { grid: Cell[][]; cleared: number; chain: number };
+
+// A swap that matches straight away, with what it sets off
+export type SwapOption = SwapMove & {
+  // clear steps, 1 for a plain match
+  chain: number;
+  // gems cleared over the whole cascade
+  cleared: number;
+};
+
+function canSwap(grid: Cell[][], x: number, y: number): boolean {
+  const a = grid[y][x];
+  const b = grid[y][x + 1];
+  if (a === b) return false;
+  if (isGarbage(a) || isGarbage(b)) return false;
+  return gemKind(a) !== 'locked' && gemKind(b) !== 'locked';
+}
+
+/** Every swap that changes the board (garbage and locked gems can't move). */
+export function legalSwaps(grid: Cell[][]): SwapMove[] {
+  const moves: SwapMove[] = [];
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid[y].length - 1; x++) if (canSwap(grid, x, y)) moves.push({ x, y });
+  }
+  return moves;
+}
+
+// Drops gems straight down into gaps. Garbage is treated as fixed, which is
+// close enough for planning (slabs only move when the gems under them clear).
+function dropGems(grid: Cell[][]) {
+  const height = grid.length;
+  for (let x = 0; x < grid[0].length; x++) {
+    let write = height - 1;
+    for (let y = height - 1; y >= 0; y--) {
+      const v = grid[y][x];
+      if (isGarbage(v)) write = y - 1;
+      else if (isGem(v)) {
+        if (write !== y) {
+          grid[write][x] = v;
+          grid[y][x] = EMPTY;
+        }
+        write--;
+      }
+    }
+  }
+}
+
+// Cells in runs of 3+ (wildcards match any color; bomb blasts are ignored)
+function findMatches(grid: Cell[][]): Set<number> {
+  const width = grid[0].length;
+  const matched = new Set<number>();
+  const scanLine = (cells: Cell[], index: (i: number) => number) => {
+    for (let i = 0; i < cells.length; i++) {
+      let j = i;
+      let color = -1;
+      while (j < cells.length && isGem(cells[j])) {
+        if (gemKind(cells[j]) !== 'wildcard') {
+          if (color >= 0 && gemColor(cells[j]) !== color) break;
+          color = gemColor(cells[j]);
+        }
+        j++;
+      }
+      if (j - i >= 3) for (let k = i; k < j; k++) matched.add(index(k));
+    }
+  };
+  for (let y = 0; y < grid.length; y++) scanLine(grid[y], (x) => y * width + x);
+  for (let x = 0; x < width; x++) {
+    scanLine(
+      grid.map((r) => r[x]),
+      (y) => y * width + x,
+    );
+  }
+  return matched;
+}
+
+/** Plays a swap out on a copy of the board: drops, clears and the chain it sets off. */
+export function playOutSwap(grid: Cell[][], move: SwapMove): SwapOutcome {
+  const g = grid.map((r) => r.slice());
+  const width = g[0].length;
+  [g[move.y][move.x], g[move.y][move.x + 1]] = [g[move.y][move.x + 1], g[move.y][move.x]];
+  let cleared = 0;
+  let chain = 0;
+  for (;;) {
+    dropGems(g);
+    const matched = findMatches(g);
+    if (matched.size === 0) break;
+    chain++;
+    cleared += matched.size;
+    for (const c of matched) g[Math.floor(c / width)][c % width] = EMPTY;
+  }
+  return { grid: g, cleared, chain };
+}
+
+/**
+ * Every swap on a resting board that makes a match, best first: longest chain,
+ * then most gems cleared, then lowest on the board. Empty when no swap matches.
+ */
+export function findMatchingSwaps(grid: Cell[][]): SwapOption[] {
+  const options: SwapOption[] = [];
+  for (const m of legalSwaps(grid)) {
+    const { chain, cleared } = playOutSwap(grid, m);
+    if (cleared > 0) options.push({ ...m, chain, cleared });
+  }
+  return options.sort((a, b) => b.chain - a.chain || b.cleared - a.cleared || b.y - a.y);
+}
@@ -0,0 +1,38 @@
+// Small seedable PRNG (mulberry32). The whole generator state is a single
+// uint32 so it can be captured and restored cheaply, which keeps engine runs
+// reproducible for a given seed.
+
+export type Rng = ReturnType<typeof createRng>;
+
+/** Pick a fresh 32-bit seed for runs that don't request a specific one. */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export function createRng(seed: number) {
+  let state = seed >>> 0;
+
+  // Returns a float in [0, 1)
+  function next(): number {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  // Returns an integer in [0, n)
+  function nextInt(n: number): number {
+    return Math.floor(next() * n);
+  }
+
+  function getState() {
+    return state;
+  }
+
+  function setState(s: number) {
+    state = s >>> 0;
+  }
+
+  return { next, nextInt, getState, setState } as const;
+}
@@ -7,6 +7,7 @@ const TAP_MAX_MOVE_PX = 8;
 const SWIPE_MIN_DX = 24;
 const SWIPE_MAX_ABS_DY = 18;
 const SWIPE_MIN_VX = 0.35; // px / ms
+const TWO_FINGER_TAP_MAX_MS = 300;
 
 type Cell = { col: number; row: number };
 
@@ -15,6 +16,8 @@ export type GestureApi = {
   moveCursorToCell: (col: number, row: number) => void;
   swapWithNeighbor: (col: number, row: number, dir: 'left' | 'right') => void;
   drawFrame: () => void;
+  // Both fingers down and lifted again quickly without moving (practice rewind)
+  twoFingerTap?: () => void;
 };
 
 function isPredominantlyHorizontal(dx: number, dy: number) {
@@ -50,32 +53,56 @@ export default function useCanvasGestures(
       /* ignore */
     }
 
+    // Two-finger tap tracking: where each pointer went down and when the second one did
+    const downAt = new Map<number, { x: number; y: number }>();
+    let multiStartT: number | null = null;
+    let multiMoved = false;
+
     const onContext = (ev: Event) => ev.preventDefault();
-    const onPointerDown = () => {
+    const onPointerDown = (ev: PointerEvent) => {
       activePointers.current += 1;
+      downAt.set(ev.pointerId, { x: ev.clientX, y: ev.clientY });
       if (activePointers.current > 1) {
         // cancel any in-progress gesture
         startPt.current = null;
         startCell.current = null;
         lastHoverCell.current = null;
+        // only exactly two fingers count as a two-finger tap
+        multiStartT = activePointers.current === 2 ? performance.now() : null;
+        multiMoved = false;
       }
     };
-    const onPointerUp = () => {
+    const onPointerMove = (ev: PointerEvent) => {
+      const d = downAt.get(ev.pointerId);
+      if (multiStartT === null || !d) return;
+      if (Math.hypot(ev.clientX - d.x, ev.clientY - d.y) > TAP_MAX_MOVE_PX * 2) multiMoved = true;
+    };
+    const onPointerUp = (ev: PointerEvent) => {
       activePointers.current = Math.max(0, activePointers.current - 1);
+      downAt.delete(ev.pointerId);
+      if (ev.type === 'pointercancel') multiStartT = null;
+      if (activePointers.current === 0 && multiStartT !== null) {
+        if (!multiMoved && performance.now() - multiStartT <= TWO_FINGER_TAP_MAX_MS) {
+          api.twoFingerTap?.();
+        }
+        multiStartT = null;
+      }
     };
 
     c.addEventListener('contextmenu', onContext);
     c.addEventListener('pointerdown', onPointerDown);
+    c.addEventListener('pointermove', onPointerMove);
     c.addEventListener('pointerup', onPointerUp);
     c.addEventListener('pointercancel', onPointerUp);
 
     return () => {
       c.removeEventListener('contextmenu', onContext);
       c.removeEventListener('pointerdown', onPointerDown);
+      c.removeEventListener('pointermove', onPointerMove);
       c.removeEventListener('pointerup', onPointerUp);
       c.removeEventListener('pointercancel', onPointerUp);
     };
-  }, [canvasRef]);
+  }, [canvasRef, api]);
 
   useDrag(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -15,6 +15,10 @@ type UseGameInputOpts = {
   togglePause: () => void;
   // callback invoked when user requests advancing after a win
   onWinAdvance?: () => void;
+  // practice mode: Backspace rewinds the last swap
+  onRewind?: () => void;
+  // H highlights the best matching swap
+  onHint?: () => void;
   selectedLevelIdRef: MutableRefObject<string>;
   pausedRef: MutableRefObject<boolean>;
   // X key hold refs (managed in App) so hook doesn't attach engine internals
@@ -38,6 +42,8 @@ export default function useGameInput(opts: UseGameInputOpts) {
     startGame,
     togglePause,
     onWinAdvance,
+    onRewind,
+    onHint,
     selectedLevelIdRef,
     pausedRef,
     xHoldRef,
@@ -102,8 +108,7 @@ export default function useGameInput(opts: UseGameInputOpts) {
               // store previous rate so we can restore later
               xPrevRateRef.current = engineRef.current.autoRiseRateRowsPerSec ?? null;
               // increase raise rate while held
-              engineRef.current.autoRiseRateRowsPerSec = 2;
-              engineRef.current.scrollSpeedPxPerSec = 2 * engineRef.current.cellSize;
+              engineRef.current.setRaiseRate(2);
             } catch {
               void 0;
             }
@@ -116,6 +121,14 @@ export default function useGameInput(opts: UseGameInputOpts) {
           case 'P':
             togglePause();
             break;
+          case 'Backspace':
+            e.preventDefault();
+            onRewind?.();
+            break;
+          case 'h':
+          case 'H':
+            onHint?.();
+            break;
           default:
             break;
         }
@@ -132,16 +145,11 @@ export default function useGameInput(opts: UseGameInputOpts) {
             xHoldRef.current = false;
             const prev = xPrevRateRef.current;
             if (typeof prev === 'number' && prev > 0) {
-              engineRef.current.autoRiseRateRowsPerSec = prev;
-              engineRef.current.scrollSpeedPxPerSec = prev * engineRef.current.cellSize;
+              engineRef.current.setRaiseRate(prev);
             } else if (baseRaiseRateRef && typeof baseRaiseRateRef.current === 'number') {
-              const base = baseRaiseRateRef.current!;
-              engineRef.current.autoRiseRateRowsPerSec = base;
-              engineRef.current.scrollSpeedPxPerSec = base * engineRef.current.cellSize;
+              engineRef.current.setRaiseRate(baseRaiseRateRef.current!);
             } else {
-              const fallback = engineRef.current.autoRiseRateRowsPerSec ?? 0.1;
-              engineRef.current.autoRiseRateRowsPerSec = fallback;
-              engineRef.current.scrollSpeedPxPerSec = fallback * engineRef.current.cellSize;
+              engineRef.current.setRaiseRate(engineRef.current.autoRiseRateRowsPerSec ?? 0.1);
             }
             xPrevRateRef.current = null;
           } catch {
@@ -165,6 +173,8 @@ export default function useGameInput(opts: UseGameInputOpts) {
     startGame,
     togglePause,
     onWinAdvance,
+    onRewind,
+    onHint,
     selectedLevelIdRef,
     pausedRef,
     xHoldRef,
@@ -1,4 +1,5 @@
 import loadLevels from './loader';
+export { DEFAULT_BOARD } from './loader';
 
 export const LEVELS = loadLevels;
 export default LEVELS;
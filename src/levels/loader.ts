@@ -1,12 +1,27 @@
+import { EMPTY } from '../game-core/cell';
+import type { Cell } from '../game-core/engine';
 import type { Level } from './types';
+import { DEFAULT_BOARD, formatLevelProblems, rowProblem, validateLevels } from './validate';
 import raw from './levels.json';
 
-type RawLevel = Omit<Level, 'background' | 'music'> & {
+export { DEFAULT_BOARD };
+
+// A level as written in levels.json (and exported by the level editor)
+export type RawLevel = Omit<
+  Level,
+  'background' | 'music' | 'mask' | 'width' | 'height' | 'numColors' | 'queue' | 'board'
+> & {
   background: string | null;
   music?: string | null;
+  mask?: string | null;
+  width?: number;
+  height?: number;
+  numColors?: number;
+  queue?: string[];
+  board?: string[];
 };
 
-const rawLevels = raw as RawLevel[];
+export const RAW_LEVELS = raw as RawLevel[];
 
 // Build-time asset map using Vite's globEager with ?url so values are URL strings.
 const assetMap: Record<string, string> = {};
@@ -36,6 +51,8 @@ for (const key in globFiles) {
 
 function resolveAsset(path: string | null) {
   if (!path) return null;
+  // Embedded (level pack) and absolute URLs are already usable
+  if (/^(data|blob|https?):/.test(path)) return path;
   // Prefer public-style relative paths (e.g. 'assets/background/foo.png') so
   // GH Pages will resolve them relative to the repo root (e.g. '/<repo>/assets/...').
   try {
@@ -101,18 +118,60 @@ function resolveAsset(path: string | null) {
   return path;
 }
 
-export function loadLevels(): Level[] {
-  return rawLevels.map((l) => ({
-    id: l.id,
-    name: l.name,
-    shortName: l.shortName,
-    background: l.background ? resolveAsset(l.background) : null,
-    color: l.color ?? null,
-    startingLines: l.startingLines,
-    targetLines: l.targetLines,
-    raiseRate: l.raiseRate,
-    music: l.music ? resolveAsset(l.music) : null,
-  }));
+/**
+ * Decodes hand-authored rows from levels.json. Each row is a string with one
+ * character per cell: a digit is a gem of that color index and `.` is an empty
+ * cell (starting boards only; queued rows must be full). For example a 6-wide
+ * row reads `"012301"`. Throws if a row has the wrong width or a color the
+ * level doesn't use.
+ */
+export function decodeRows(
+  levelId: string,
+  field: 'queue' | 'board',
+  rows: string[],
+  width: number,
+  numColors: number,
+): Cell[][] {
+  if (!Array.isArray(rows)) throw new Error(`${levelId}: ${field} must be a list of row strings`);
+  return rows.map((row, i) => {
+    const problem = rowProblem(field, row, width, numColors);
+    if (problem) throw new Error(`${levelId}: ${field} row ${i + 1} ${problem}`);
+    return Array.from(row, (ch) => (ch === '.' ? EMPTY : Number(ch)));
+  });
+}
+
+/**
+ * Turns levels.json entries into playable levels: fills in the default board,
+ * resolves asset paths and decodes authored rows. Throws with every problem
+ * validateLevels finds (one per line) if any level is broken; warnings don't
+ * stop loading.
+ */
+export function loadLevels(levels: RawLevel[] = RAW_LEVELS): Level[] {
+  const errors = validateLevels(levels).filter((p) => p.severity === 'error');
+  if (errors.length > 0) throw new Error(formatLevelProblems(errors));
+  return levels.map((l) => {
+    const width = l.width ?? DEFAULT_BOARD.width;
+    const height = l.height ?? DEFAULT_BOARD.height;
+    const numColors = l.numColors ?? DEFAULT_BOARD.numColors;
+    return {
+      id: l.id,
+      name: l.name,
+      shortName: l.shortName,
+      background: l.background ? resolveAsset(l.background) : null,
+      color: l.color ?? null,
+      width,
+      height,
+      numColors,
+      startingLines: l.startingLines,
+      targetLines: l.targetLines,
+      raiseRate: l.raiseRate,
+      music: l.music ? resolveAsset(l.music) : null,
+      ...(l.mask ? { mask: resolveAsset(l.mask) } : {}),
+      ...(l.gemWeights ? { gemWeights: { ...l.gemWeights } } : {}),
+      ...(l.queue ? { queue: decodeRows(l.id, 'queue', l.queue, width, numColors) } : {}),
+      ...(l.board ? { board: decodeRows(l.id, 'board', l.board, width, numColors) } : {}),
+    };
+  });
 }
 
 export default loadLevels();
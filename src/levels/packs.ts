@@ -0,0 +1,158 @@
+// Level packs: levels players load from a file and keep in the browser (see
+// lib/packStore.ts). A pack file looks like
+//
+//   { "manifest": { "name": "Team Pack", "author": "Sam", "version": "1.0" },
+//     "levels": [ ...entries as in levels.json... ],
+//     "assets": { "beach.png": "data:image/png;base64,..." } }
+//
+// A level's `background`, `music` or `mask` may name an entry in `assets`, be a data
+// URL itself, or point at one of the game's own assets. Installed packs are
+// registered here so /play can find their levels next to the built-in ones.
+
+import LEVELS from '.';
+import { loadLevels, type RawLevel } from './loader';
+import type { Level } from './types';
+import { validateLevels, type LevelProblem } from './validate';
+
+export type PackManifest = { name: string; author: string; version: string };
+
+export type PackFile = {
+  manifest: PackManifest;
+  levels: RawLevel[];
+  // embedded files by name, as data URLs
+  assets?: Record<string, string>;
+};
+
+// A pack as kept in IndexedDB
+export type StoredPack = PackFile & {
+  id: string;
+  // ids (as written in the pack) of the levels the player has cleared
+  cleared: string[];
+  installedAt: number;
+};
+
+// Pack levels play under `pack:<pack id>/<level id>` so they can't clash with
+// built-in levels or other packs
+const PACK_PREFIX = 'pack:';
+
+export function packLevelId(packId: string, levelId: string) {
+  return `${PACK_PREFIX}${packId}/${levelId}`;
+}
+
+/** The pack and level ids inside a pack level id; null for built-in levels. */
+export function splitPackLevelId(id: string): { packId: string; levelId: string } | null {
+  if (!id.startsWith(PACK_PREFIX)) return null;
+  const slash = id.indexOf('/', PACK_PREFIX.length);
+  if (slash < 0) return null;
+  return { packId: id.slice(PACK_PREFIX.length, slash), levelId: id.slice(slash + 1) };
+}
+
+/** The id a pack is stored under: its name in lower-case words joined by dashes. */
+export function packIdFor(manifest: PackManifest) {
+  return (
+    manifest.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'pack'
+  );
+}
+
+const isError = (p: LevelProblem) => p.severity === 'error';
+
+/**
+ * Reads a pack file. Comes back with the problems instead of a pack if the
+ * manifest is incomplete or any level wouldn't load; warnings such as asset
+ * names missing from `assets` come back alongside the pack.
+ */
+export function parsePack(json: string): { pack: PackFile | null; problems: LevelProblem[] } {
+  const fail = (message: string) => ({
+    pack: null,
+    problems: [{ level: null, message, severity: 'error' as const }],
+  });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return fail('not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object') return fail('expected a pack object');
+  const p = parsed as Partial<Record<keyof PackFile, unknown>>;
+  const m = (p.manifest ?? {}) as Record<string, unknown>;
+  const text = (v: unknown) => (typeof v === 'number' ? String(v) : v);
+  const manifest = { name: text(m.name), author: text(m.author), version: text(m.version) };
+  for (const [key, v] of Object.entries(manifest)) {
+    if (typeof v !== 'string' || v.trim() === '') return fail(`manifest.${key} is missing`);
+  }
+  const assets = p.assets ?? {};
+  if (
+    typeof assets !== 'object' ||
+    Array.isArray(assets) ||
+    !Object.values(assets).every((v) => typeof v === 'string' && v.startsWith('data:'))
+  ) {
+    return fail('assets must map file names to data URLs');
+  }
+  if (!Array.isArray(p.levels) || p.levels.length === 0) return fail('the pack has no levels');
+
+  const embedded = assets as Record<string, string>;
+  const problems = validateLevels(p.levels, {
+    // the game's own assets can't be checked from the browser, so they pass
+    assetExists: (path) =>
+      path in embedded || path.startsWith('data:') || /^(\.\.\/)?assets\//.test(path),
+  });
+  if (problems.some(isError)) return { pack: null, problems };
+  return {
+    pack: { manifest: manifest as PackManifest, levels: p.levels as RawLevel[], assets: embedded },
+    problems,
+  };
+}
+
+/** A pack's levels ready to play, with embedded assets swapped in and pack level ids. */
+export function packLevels(pack: StoredPack): Level[] {
+  const embedded = (path: string | null | undefined) =>
+    path ? pack.assets?.[path] ?? path : path ?? null;
+  const raw = pack.levels.map((l) => ({
+    ...l,
+    background: embedded(l.background),
+    music: embedded(l.music),
+    mask: embedded(l.mask),
+  }));
+  return loadLevels(raw).map((l) => ({ ...l, id: packLevelId(pack.id, l.id) }));
+}
+
+// Installed packs' levels by pack id, filled in by registerPacks()
+const registered = new Map<string, Level[]>();
+
+/** Makes installed packs playable (replacing any registered before). Bad packs are skipped. */
+export function registerPacks(packs: StoredPack[]) {
+  registered.clear();
+  for (const pack of packs) {
+    try {
+      registered.set(pack.id, packLevels(pack));
+    } catch {
+      /* a pack saved by an older build that no longer loads */
+    }
+  }
+}
+
+/** An installed pack's playable levels (empty if it isn't registered or didn't load). */
+export function installedPackLevels(packId: string): Level[] {
+  return registered.get(packId) ?? [];
+}
+
+/** The levels a level id belongs with: the built-in levels or its pack's. */
+export function levelSetOf(id: string): Level[] {
+  const inPack = splitPackLevelId(id);
+  return inPack ? installedPackLevels(inPack.packId) : LEVELS;
+}
+
+/** A built-in or installed pack level by id. */
+export function findLevel(id: string): Level | undefined {
+  return levelSetOf(id).find((l) => l.id === id);
+}
+
+/** The level after `id` in its set, or null after the last one. */
+export function nextLevelId(id: string): string | null {
+  const set = levelSetOf(id);
+  const idx = set.findIndex((l) => l.id === id);
+  return set[idx + 1]?.id ?? null;
+}
@@ -1,3 +1,6 @@
+import type { GemWeights } from '../game-core/cell';
+import type { Cell } from '../game-core/engine';
+
 export type Level = {
   id: string;
   name: string;
@@ -5,9 +8,23 @@ export type Level = {
   // URL for background image, or null for none (transparent)
   background: string | null;
   color: string | null;
+  // board size in cells and number of gem colors (the palette has 6)
+  width: number;
+  height: number;
+  numColors: number;
   startingLines: number;
   targetLines: number;
   raiseRate: number; // rows per second
   // optional music URL to play for this level
   music?: string | null;
+  // optional mask image URL whose opaque top edge is the board's ceiling per
+  // column (see mask.ts)
+  mask?: string | null;
+  // optional spawn weights for special gems, relative to normal gems (100)
+  gemWeights?: GemWeights;
+  // optional hand-authored rows (decoded from levels.json, see loader.ts):
+  // `queue` rises first in order (without making matches, see validate.ts),
+  // `board` replaces the starting lines
+  queue?: Cell[][];
+  board?: Cell[][];
 };
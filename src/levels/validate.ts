@@ -0,0 +1,247 @@
+// Checks level data (levels.json, editor exports) before it's loaded and
+// reports every problem at once with the level it's in. Kept free of engine
+// and DOM imports (cell.ts only has constants) so the Vite config can run it on
+// levels.json at build time.
+
+import { GEM_KINDS } from '../game-core/cell';
+
+// Board sizes and color counts a level may use (the gem palette has 6 colors)
+export const LEVEL_LIMITS = {
+  width: [3, 12],
+  height: [4, 20],
+  numColors: [3, 6],
+} as const;
+
+// Board used when a level doesn't set its own size or color count
+export const DEFAULT_BOARD = { width: 6, height: 12, numColors: 5 } as const;
+
+export type LevelProblem = {
+  // id of the level it's in (`level N` when it has none), or null for the file itself
+  level: string | null;
+  message: string;
+  // errors stop levels from loading; warnings (unknown fields, missing asset
+  // files) only fail strict builds
+  severity: 'error' | 'warning';
+};
+
+export type ValidateOptions = {
+  // whether an asset path from the data points at a real file; asset paths are
+  // not checked when omitted (e.g. in the browser)
+  assetExists?: (path: string) => boolean;
+};
+
+const KNOWN_FIELDS = new Set([
+  'id',
+  'name',
+  'shortName',
+  'background',
+  'color',
+  'width',
+  'height',
+  'numColors',
+  'startingLines',
+  'targetLines',
+  'raiseRate',
+  'music',
+  'mask',
+  'gemWeights',
+  'queue',
+  'board',
+]);
+
+const HEX_COLOR = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+/**
+ * Why a hand-authored row (see decodeRows) can't be decoded, or null if it's
+ * fine: `.` is only allowed on starting boards, since queued rows must be full.
+ */
+export function rowProblem(
+  field: 'queue' | 'board',
+  row: unknown,
+  width: number,
+  numColors: number,
+): string | null {
+  if (typeof row !== 'string') return 'must be a string';
+  if (row.length !== width) return `has ${row.length} cells, expected ${width}`;
+  for (const ch of row) {
+    if (ch === '.' && field === 'board') continue;
+    const color = /^[0-9]$/.test(ch) ? Number(ch) : NaN;
+    if (!(color < numColors)) return `has '${ch}', expected a color 0-${numColors - 1}`;
+  }
+  return null;
+}
+
+/**
+ * The first match an authored queue makes as its rows rise in one by one under
+ * the board (or each other): three of a color in a row, or stacked in a column
+ * with the two rows above. Rows are assumed to be well formed (see rowProblem).
+ * The engine would recolor such gems to keep new rows from clearing, so they
+ * are reported instead of changed behind the designer's back.
+ */
+export function queueMatchProblem(queue: string[], board: string[] = []): string | null {
+  const above = board.slice(-2);
+  for (let i = 0; i < queue.length; i++) {
+    const row = queue[i];
+    const where = `queue row ${i + 1}`;
+    for (let x = 2; x < row.length; x++) {
+      if (row[x] === row[x - 1] && row[x] === row[x - 2]) {
+        return `${where} has three ${row[x]}s in a row, which would clear as it rises`;
+      }
+    }
+    for (let x = 0; x < row.length; x++) {
+      if (above.length === 2 && above.every((r) => r[x] === row[x])) {
+        return `${where} stacks three ${row[x]}s in column ${x + 1}, which would clear as it rises`;
+      }
+    }
+    above.push(row);
+    if (above.length > 2) above.shift();
+  }
+  return null;
+}
+
+function shown(v: unknown) {
+  return typeof v === 'string' ? `'${v}'` : JSON.stringify(v);
+}
+
+function checkLevel(l: Record<string, unknown>, name: string, opts: ValidateOptions) {
+  const problems: LevelProblem[] = [];
+  const error = (message: string) => problems.push({ level: name, message, severity: 'error' });
+  const warn = (message: string) => problems.push({ level: name, message, severity: 'warning' });
+
+  for (const key of Object.keys(l)) {
+    if (!KNOWN_FIELDS.has(key)) warn(`unknown field '${key}'`);
+  }
+  for (const key of ['id', 'name', 'shortName']) {
+    if (l[key] === undefined) error(`${key} is missing`);
+    else if (typeof l[key] !== 'string' || l[key] === '') {
+      error(`${key} must be a non-empty string, got ${shown(l[key])}`);
+    }
+  }
+
+  // Board size first, since the other checks depend on it
+  const size: { width: number; height: number; numColors: number } = { ...DEFAULT_BOARD };
+  for (const key of ['width', 'height', 'numColors'] as const) {
+    const v = l[key];
+    if (v === undefined) continue;
+    const [lo, hi] = LEVEL_LIMITS[key];
+    if (typeof v !== 'number' || !Number.isInteger(v) || v < lo || v > hi) {
+      error(`${key} must be a whole number from ${lo} to ${hi}, got ${shown(v)}`);
+    } else size[key] = v;
+  }
+
+  const number = (key: string, check: (v: number) => string | null) => {
+    const v = l[key];
+    if (v === undefined) error(`${key} is missing`);
+    else if (typeof v !== 'number' || !Number.isFinite(v)) {
+      error(`${key} must be a number, got ${shown(v)}`);
+    } else {
+      const problem = check(v);
+      if (problem) error(`${key} ${problem}, got ${v}`);
+    }
+  };
+  number('startingLines', (v) =>
+    !Number.isInteger(v) || v < 0 || v > size.height
+      ? `must be a whole number from 0 to the board's ${size.height} rows`
+      : null,
+  );
+  number('targetLines', (v) =>
+    !Number.isInteger(v) || v < 1 ? 'must be a whole number of at least 1' : null,
+  );
+  number('raiseRate', (v) => (v < 0 ? 'must be 0 or more (rows per second)' : null));
+
+  if (l.color !== undefined && l.color !== null) {
+    if (typeof l.color !== 'string' || !HEX_COLOR.test(l.color)) {
+      error(`color must be a hex color like '#00FFFF' or null, got ${shown(l.color)}`);
+    }
+  }
+  for (const key of ['background', 'music', 'mask']) {
+    const v = l[key];
+    if (v === undefined || v === null) continue;
+    if (typeof v !== 'string') error(`${key} must be an asset path or null, got ${shown(v)}`);
+    else if (opts.assetExists && !opts.assetExists(v)) warn(`${key} '${v}' was not found`);
+  }
+
+  if (l.gemWeights !== undefined) {
+    const w = l.gemWeights;
+    if (!w || typeof w !== 'object' || Array.isArray(w)) {
+      error('gemWeights must be an object like { "bomb": 2 }');
+    } else {
+      for (const [kind, v] of Object.entries(w)) {
+        if (!(GEM_KINDS as readonly string[]).includes(kind)) {
+          error(`gemWeights has unknown gem kind '${kind}' (use ${GEM_KINDS.join(', ')})`);
+        } else if (typeof v !== 'number' || !(v >= 0)) {
+          error(`gemWeights.${kind} must be 0 or more, got ${shown(v)}`);
+        }
+      }
+    }
+  }
+
+  const wellFormed = { board: true, queue: true };
+  for (const field of ['board', 'queue'] as const) {
+    const rows = l[field];
+    if (rows === undefined) continue;
+    if (!Array.isArray(rows)) {
+      error(`${field} must be a list of row strings`);
+      wellFormed[field] = false;
+      continue;
+    }
+    if (field === 'board' && rows.length > size.height) {
+      error(`board has ${rows.length} rows, expected at most ${size.height}`);
+    }
+    rows.forEach((row, i) => {
+      const problem = rowProblem(field, row, size.width, size.numColors);
+      if (!problem) return;
+      error(`${field} row ${i + 1} ${problem}`);
+      wellFormed[field] = false;
+    });
+  }
+  if (l.queue !== undefined && wellFormed.queue && wellFormed.board) {
+    const problem = queueMatchProblem(l.queue as string[], l.board as string[] | undefined);
+    if (problem) error(problem);
+  }
+  return problems;
+}
+
+/**
+ * Every problem in a list of raw levels: missing or mistyped fields, values
+ * out of range, rows that don't fit the board, duplicate ids and (with
+ * `assetExists`) asset paths that don't resolve. Empty when the data is fine.
+ */
+export function validateLevels(raw: unknown, opts: ValidateOptions = {}): LevelProblem[] {
+  if (!Array.isArray(raw)) {
+    return [{ level: null, message: 'expected a list of levels', severity: 'error' }];
+  }
+  const problems: LevelProblem[] = [];
+  const seen = new Map<string, number>();
+  raw.forEach((l: unknown, i) => {
+    const fallback = `level ${i + 1}`;
+    if (!l || typeof l !== 'object' || Array.isArray(l)) {
+      problems.push({ level: fallback, message: 'must be an object', severity: 'error' });
+      return;
+    }
+    const level = l as Record<string, unknown>;
+    const id = typeof level.id === 'string' && level.id !== '' ? level.id : null;
+    problems.push(...checkLevel(level, id ?? fallback, opts));
+    if (id === null) return;
+    const first = seen.get(id);
+    if (first === undefined) seen.set(id, i);
+    else {
+      problems.push({
+        level: id,
+        message: `id is also used by level ${first + 1} (ids must be unique)`,
+        severity: 'error',
+      });
+    }
+  });
+  return problems;
+}
+
+/** One line per problem, e.g. `level-3: raiseRate must be 0 or more (rows per second), got -1`. */
+export function formatLevelProblems(problems: LevelProblem[]): string {
+  return problems
+    .map((p) => {
+      const where = p.level ? `${p.level}: ` : '';
+      return `${p.severity === 'warning' ? 'warning: ' : ''}${where}${p.message}`;
+    })
+    .join('\n');
+}
@@ -1,5 +1,9 @@
 export type AudioManager = ReturnType<typeof createAudioManager>;
 
+// Music speeds up to this playback rate while the stack is in danger
+const PANIC_PLAYBACK_RATE = 1.25;
+const PANIC_RAMP_MS = 400;
+
 export function createAudioManager() {
   let sounds: HTMLAudioElement[] | null = null;
   let swap: HTMLAudioElement | null = null;
@@ -9,6 +13,8 @@ export function createAudioManager() {
   const playingClones: HTMLAudioElement[] = [];
   let musicVolume = 0.25;
   let sfxVolume = 1.0;
+  let panic = false;
+  let panicTimer: ReturnType<typeof setTimeout> | null = null;
 
   function init(sndUrls: string[], swapUrl: string) {
     if (!sounds) {
@@ -138,6 +144,10 @@ export function createAudioManager() {
 
   function playLevelMusic(url?: string | undefined) {
     if (!url) return;
+    // A new track starts calm; setPanic() speeds it up again if needed
+    panic = false;
+    if (panicTimer !== null) clearTimeout(panicTimer);
+    panicTimer = null;
     try {
       if (music) {
         try {
@@ -167,6 +177,34 @@ export function createAudioManager() {
     }
   }
 
+  // Ramps the music's playback rate up while any column is in danger and back
+  // down once it's safe (the pitch is kept, so it just plays faster)
+  function setPanic(on: boolean) {
+    if (on === panic) return;
+    panic = on;
+    if (panicTimer !== null) clearTimeout(panicTimer);
+    panicTimer = null;
+    const m = music;
+    if (!m) return;
+    try {
+      const from = m.playbackRate || 1;
+      const to = on ? PANIC_PLAYBACK_RATE : 1;
+      const start = performance.now();
+      const tick = () => {
+        const p = Math.min(1, (performance.now() - start) / PANIC_RAMP_MS);
+        try {
+          m.playbackRate = from + (to - from) * p;
+        } catch {
+          void 0;
+        }
+        panicTimer = p < 1 ? setTimeout(tick, 30) : null;
+      };
+      tick();
+    } catch {
+      void 0;
+    }
+  }
+
   function pauseMusic() {
     try {
       if (music) music.pause();
@@ -237,6 +275,7 @@ export function createAudioManager() {
     forceStopAllAudioImmediate,
     playLevelMusic,
     pauseMusic,
+    setPanic,
     playMatch,
     playSwap,
     stopPlayingClones,
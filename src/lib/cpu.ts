@@ -0,0 +1,148 @@
+import { TICK_MS, type Cell, type Engine } from '../game-core/engine';
+import { legalSwaps, playOutSwap, type SwapMove, type SwapOutcome } from '../game-core/moves';
+import { createRng } from '../game-core/rng';
+
+export type CpuDifficulty = {
+  // ms the CPU waits once its board is at rest before picking a swap
+  reactionMs: number;
+  // ms per cursor step on the way to the chosen swap
+  cursorStepMs: number;
+  // swaps looked ahead when scoring a move (1 or 2)
+  searchDepth: number;
+  // chance of playing a random swap instead of the best one
+  mistakeRate: number;
+};
+
+export type CpuLevel = 'easy' | 'normal' | 'hard';
+
+export const CPU_LEVELS: CpuLevel[] = ['easy', 'normal', 'hard'];
+
+export const CPU_DIFFICULTIES: Record<CpuLevel, CpuDifficulty> = {
+  easy: { reactionMs: 1200, cursorStepMs: 220, searchDepth: 1, mistakeRate: 0.3 },
+  normal: { reactionMs: 600, cursorStepMs: 130, searchDepth: 1, mistakeRate: 0.1 },
+  hard: { reactionMs: 250, cursorStepMs: 70, searchDepth: 2, mistakeRate: 0.02 },
+};
+
+// Weight of the tallest column against a cleared gem when scoring boards
+const HEIGHT_PENALTY = 2;
+// Clears found on the second swap of a two-swap plan count a little less
+const LOOKAHEAD_DISCOUNT = 0.9;
+
+// Rows from the tallest column's top gem down to the floor
+function stackHeight(grid: Cell[][]): number {
+  const y = grid.findIndex((r) => r.some((v) => v >= 0));
+  return y < 0 ? 0 : grid.length - y;
+}
+
+function clearValue(o: SwapOutcome): number {
+  if (o.cleared === 0) return 0;
+  return o.cleared * 10 + Math.max(0, o.chain - 1) * 60;
+}
+
+// Value of leaving a board as it is
+function restValue(grid: Cell[][]): number {
+  return -HEIGHT_PENALTY * stackHeight(grid);
+}
+
+// Value of a swap's outcome when `depth - 1` more swaps may follow it. A
+// follow-up only counts for what it gains over stopping there.
+function moveValue(o: SwapOutcome, depth: number): number {
+  const rest = restValue(o.grid);
+  let gain = 0;
+  if (depth > 1) {
+    for (const m of legalSwaps(o.grid)) {
+      gain = Math.max(gain, moveValue(playOutSwap(o.grid, m), depth - 1) - rest);
+    }
+  }
+  return clearValue(o) + rest + LOOKAHEAD_DISCOUNT * gain;
+}
+
+/**
+ * Searches every swap (and, at depth 2, every follow-up swap) on a resting
+ * board. Moves score by gems cleared and chain steps set off, less the height
+ * of the tallest column afterwards, so with nothing to clear the CPU flattens
+ * its stack. Returns null when no swap beats leaving the board alone.
+ */
+export function findBestSwap(grid: Cell[][], depth = 1): SwapMove | null {
+  let best: SwapMove | null = null;
+  let bestScore = restValue(grid);
+  for (const m of legalSwaps(grid)) {
+    const v = moveValue(playOutSwap(grid, m), depth);
+    if (v > bestScore) {
+      bestScore = v;
+      best = m;
+    }
+  }
+  return best;
+}
+
+export type CpuPlayer = {
+  /** The swap the CPU is heading for, in current grid rows, if any. */
+  target: () => SwapMove | null;
+  /** Stops driving the engine. */
+  stop: () => void;
+};
+
+/**
+ * Drives an engine like a player would: waits for its board to settle, picks
+ * a swap, walks the cursor there one cell at a time and swaps. It thinks and
+ * moves at the start of every engine tick, and its own PRNG decides mistakes,
+ * so a match with the same seeds plays out the same way at any frame rate.
+ */
+export function createCpuPlayer(
+  engine: Engine,
+  difficulty: CpuDifficulty,
+  seed: number,
+): CpuPlayer {
+  const rng = createRng(seed);
+  let waitMs = difficulty.reactionMs;
+  let stepMs = 0;
+  // Rows shift up as the stack rises, so the plan remembers how many rows had
+  // risen when it was made
+  let plan: (SwapMove & { rowsInserted: number }) | null = null;
+
+  const target = (): SwapMove | null =>
+    plan ? { x: plan.x, y: plan.y - (engine.rowsInserted - plan.rowsInserted) } : null;
+
+  const pickMove = (): SwapMove | null => {
+    if (rng.next() < difficulty.mistakeRate) {
+      const moves = legalSwaps(engine.grid);
+      return moves.length > 0 ? moves[rng.nextInt(moves.length)] : null;
+    }
+    return findBestSwap(engine.grid, difficulty.searchDepth);
+  };
+
+  const update = (dtMs: number) => {
+    if (engine.paused || engine.hasWon || engine.hasLost) return;
+    if (!plan) {
+      if (!engine.isSettled()) {
+        waitMs = difficulty.reactionMs;
+        return;
+      }
+      waitMs -= dtMs;
+      if (waitMs > 0) return;
+      waitMs = difficulty.reactionMs;
+      const move = pickMove();
+      if (move) plan = { ...move, rowsInserted: engine.rowsInserted };
+      stepMs = 0;
+      return;
+    }
+    const t = target()!;
+    // the target row rose off the top of the board
+    if (t.y < 0) {
+      plan = null;
+      return;
+    }
+    stepMs += dtMs;
+    if (stepMs < difficulty.cursorStepMs) return;
+    stepMs = 0;
+    if (t.x !== engine.cursorX) engine.moveCursor(Math.sign(t.x - engine.cursorX), 0);
+    else if (t.y !== engine.cursorY) engine.moveCursor(0, Math.sign(t.y - engine.cursorY));
+    else {
+      engine.swapAt(t.x, t.y);
+      plan = null;
+    }
+  };
+
+  return { target, stop: engine.events.on('tick', () => update(TICK_MS)) };
+}
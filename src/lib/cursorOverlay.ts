@@ -3,6 +3,10 @@
 
 import { cursorSvg } from '../ui/CursorSVG';
 
+// Overlay child used by the hint key to highlight a swap (see lib/hints.ts)
+export const HINT_OVERLAY_ID = 'dom-hint-svg';
+
+// `markup` builds the child the first time it is drawn (the cursor by default)
 export function updateCursorOverlay(
   overlay: HTMLDivElement | null,
   childId: string,
@@ -11,6 +15,7 @@ export function updateCursorOverlay(
   w: number,
   h: number,
   radius: number,
+  markup: typeof cursorSvg = cursorSvg,
 ) {
   if (!overlay) return;
   // Try to find existing child
@@ -18,7 +23,7 @@ export function updateCursorOverlay(
   if (!child) {
     // Same SVG markup as before, kept compact. Defensive about missing DOM APIs.
     try {
-      const svg = cursorSvg(childId, w, h, radius);
+      const svg = markup(childId, w, h, radius);
       overlay.insertAdjacentHTML('beforeend', svg);
       child = overlay.querySelector<HTMLElement>(`#${childId}`) ?? null;
     } catch {
@@ -0,0 +1,9 @@
+/** Saves text as a JSON file through the browser's download prompt. */
+export function downloadJson(name: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,32 @@
+import { createLeaderboard } from './leaderboard';
+import type { LevelSetup } from './levelSetup';
+
+// Run id used for endless runs wherever a level id is expected (saved runs, replays)
+export const ENDLESS_LEVEL_ID = 'endless';
+
+// localStorage key holding the endless top-10 table
+export const ENDLESS_SCORES_KEY = 'endlessHighScores';
+export const ENDLESS_TABLE_SIZE = 10;
+
+// Starts slow and rises 5% faster per line cleared, up to 4x the starting speed
+export const ENDLESS_SETUP: LevelSetup = {
+  targetLines: 0,
+  startingLines: 5,
+  raiseRate: 0.15,
+  endless: { speedUpPerLine: 0.05, maxSpeedUp: 3 },
+};
+
+export type EndlessScore = {
+  score: number;
+  lines: number;
+  // Date.now() when the run ended
+  at: number;
+};
+
+const table = createLeaderboard<EndlessScore>(ENDLESS_SCORES_KEY, ENDLESS_TABLE_SIZE);
+
+/** The endless top-10, best first. */
+export const loadEndlessScores = table.load;
+
+/** Adds a finished endless run; returns its rank, or null if it didn't place. */
+export const recordEndlessScore = table.record;
@@ -1,24 +1,32 @@
-import { Engine } from '../game-core/engine';
+import { Engine, type EngineEvents, type EngineSnapshot } from '../game-core/engine';
+import type { Listener } from '../game-core/events';
 
 export type EngineManager = ReturnType<typeof createEngineManager>;
 
+export type EngineHandlers = { [K in keyof EngineEvents]?: Listener<EngineEvents[K]> };
+
 export function createEngineManager() {
   let engine: Engine | null = null;
 
-  function start(width: number, height: number, numColors = 5) {
+  // Pass `seed` to reproduce a previous run; omit it for a fresh random board.
+  function start(width: number, height: number, numColors = 5, seed?: number) {
+    if (engine) stop();
+    engine = new Engine(width, height, numColors, seed);
+    return engine;
+  }
+
+  // Continue a run saved with engine.serialize(); throws on an unusable snapshot.
+  function resume(snapshot: EngineSnapshot) {
+    const next = Engine.deserialize(snapshot);
     if (engine) stop();
-    engine = new Engine(width, height, numColors);
+    engine = next;
     return engine;
   }
 
   function stop() {
-    // Clear handlers and drop reference
+    // Drop every listener and the reference
     try {
-      if (engine) {
-        engine.onMatch = undefined;
-        engine.onSwap = undefined;
-        engine.onWin = undefined;
-      }
+      if (engine) engine.events.clear();
     } catch {
       void 0;
     }
@@ -29,16 +37,16 @@ export function createEngineManager() {
     return engine;
   }
 
-  function setHandlers(handlers: {
-    onMatch?: (count: number) => void;
-    onSwap?: () => void;
-    onWin?: () => void;
-  }) {
-    if (!engine) return;
-    engine.onMatch = handlers.onMatch;
-    engine.onSwap = handlers.onSwap;
-    engine.onWin = handlers.onWin;
+  // Subscribes the given handlers to the current engine's events alongside any
+  // other listeners. Returns a function that unsubscribes them again.
+  function subscribe(handlers: EngineHandlers) {
+    const e = engine;
+    if (!e) return () => {};
+    const offs = (Object.keys(handlers) as (keyof EngineEvents)[]).map((type) =>
+      e.events.on(type, handlers[type] as Listener<EngineEvents[typeof type]>),
+    );
+    return () => offs.forEach((off) => off());
   }
 
-  return { start, stop, get, setHandlers } as const;
+  return { start, resume, stop, get, subscribe } as const;
 }
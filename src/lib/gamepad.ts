@@ -0,0 +1,71 @@
+import type { PlayerAction } from './playerControls';
+
+// What a pad can do: a player's actions plus the shared pause
+export type PadInput = PlayerAction | 'pause';
+
+// The parts of a Gamepad that are read (keeps the tracker testable without the API)
+export type PadSnapshot = {
+  buttons: readonly { pressed: boolean }[];
+  axes: readonly number[];
+};
+
+// Button indices in the browser's "standard" mapping: D-pad, A/X to swap,
+// the right shoulder and trigger to raise, Start to pause
+const PAD_BUTTONS: Record<PadInput, number[]> = {
+  up: [12],
+  down: [13],
+  left: [14],
+  right: [15],
+  swap: [0, 2],
+  raise: [5, 7],
+  pause: [9],
+};
+
+// How far the left stick must lean to count as a D-pad press
+const STICK_THRESHOLD = 0.5;
+
+/** Inputs currently held on a pad; the left stick doubles as the D-pad. */
+export function heldPadInputs(pad: PadSnapshot): Set<PadInput> {
+  const held = new Set<PadInput>();
+  for (const [input, buttons] of Object.entries(PAD_BUTTONS) as [PadInput, number[]][]) {
+    if (buttons.some((b) => pad.buttons[b]?.pressed)) held.add(input);
+  }
+  const [x = 0, y = 0] = pad.axes;
+  if (x <= -STICK_THRESHOLD) held.add('left');
+  if (x >= STICK_THRESHOLD) held.add('right');
+  if (y <= -STICK_THRESHOLD) held.add('up');
+  if (y >= STICK_THRESHOLD) held.add('down');
+  return held;
+}
+
+export type PadTracker = {
+  /** Compares a pad with the last poll; a disconnected pad (null) releases everything. */
+  update: (pad: PadSnapshot | null) => { pressed: PadInput[]; released: PadInput[] };
+};
+
+/**
+ * Turns polled pad state into press/release edges. The Gamepad API has no
+ * events for buttons, so pages poll once per frame and feed the result here.
+ */
+export function createPadTracker(): PadTracker {
+  let last = new Set<PadInput>();
+  return {
+    update(pad) {
+      const held = pad ? heldPadInputs(pad) : new Set<PadInput>();
+      const pressed = [...held].filter((i) => !last.has(i));
+      const released = [...last].filter((i) => !held.has(i));
+      last = held;
+      return { pressed, released };
+    },
+  };
+}
+
+/** Connected pads in slot order; empty where the Gamepad API isn't available. */
+export function connectedPads(): Gamepad[] {
+  try {
+    const pads = typeof navigator !== 'undefined' ? navigator.getGamepads?.() : null;
+    return pads ? pads.filter((p): p is Gamepad => !!p && p.connected) : [];
+  } catch {
+    return [];
+  }
+}
@@ -1,4 +1,5 @@
 import type { Atlas } from '../atlas';
+import type { GemKind } from '../game-core/cell';
 import type { Skin, SrcRect } from '../renderer/canvasRenderer';
 
 export function buildBgSkin(atlas: Atlas | null): Skin | undefined {
@@ -22,9 +23,25 @@ export function buildBgSkin(atlas: Atlas | null): Skin | undefined {
 
 export function buildFgSkin(atlas: Atlas | null): Skin | undefined {
   if (!atlas) return undefined;
-  const keys = Object.keys(atlas.frames).sort();
+  const allKeys = Object.keys(atlas.frames).sort();
+  // Special gems get their own frames when the atlas has them; they're kept out
+  // of the color order so they never stand in for a plain color
+  const kindPatterns: Partial<Record<GemKind, RegExp>> = {
+    wildcard: /wild|rainbow/i,
+    bomb: /bomb/i,
+    locked: /lock/i,
+  };
+  const kindFrames: Partial<Record<GemKind, string>> = {};
+  for (const [kind, re] of Object.entries(kindPatterns) as [GemKind, RegExp][]) {
+    kindFrames[kind] =
+      allKeys.find((k) => re.test(k) && !/clear|matched/i.test(k)) ??
+      allKeys.find((k) => re.test(k));
+  }
+  const isKindFrame = (k: string) => Object.values(kindPatterns).some((re) => re.test(k));
+  const keys = allKeys.filter((k) => !isKindFrame(k));
   const candidates = keys.filter((k) => /_color/i.test(k));
-  const order = (candidates.length >= 5 ? candidates : keys).slice(0, 5);
+  // one frame per palette color (Engine supports up to 6)
+  const order = (candidates.length >= 5 ? candidates : keys).slice(0, 6);
 
   const clearMap: Record<string, string | undefined> = {};
   for (const baseName of order) {
@@ -66,5 +83,10 @@ export function buildFgSkin(atlas: Atlas | null): Skin | undefined {
       return { sx: f.x, sy: f.y, sw: f.w, sh: f.h };
     },
     pickSrcForColor: pickByColor,
+    pickSrcForKind: (kind: GemKind): SrcRect | undefined => {
+      const name = kindFrames[kind];
+      const f = name ? atlas.frames[name] : undefined;
+      return f ? { sx: f.x, sy: f.y, sw: f.w, sh: f.h } : undefined;
+    },
   };
 }
@@ -0,0 +1,14 @@
+// How long the hint key highlights a swap (or flashes "No moves available")
+export const HINT_MS = 2000;
+
+// localStorage key for the Options toggle that keeps the "No moves available"
+// indicator on whenever the resting board has no matching swap
+export const SHOW_NO_MOVES_KEY = 'showNoMovesIndicator';
+
+export function loadShowNoMoves(): boolean {
+  try {
+    return localStorage.getItem(SHOW_NO_MOVES_KEY) === '1';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,98 @@
+import { PLAYER_ACTIONS, type PlayerAction } from './playerControls';
+
+// One key per action, as KeyboardEvent.code so the maps follow key positions
+// rather than the keyboard layout
+export type KeyMap = Record<PlayerAction, string>;
+export type KeyMaps = [KeyMap, KeyMap];
+
+// localStorage key holding both players' key maps
+export const KEY_MAPS_KEY = 'twoPlayerKeyMaps';
+
+// Shared keys that can't be bound to a player
+export const PAUSE_KEY = 'KeyP';
+export const RESERVED_KEYS = [PAUSE_KEY, 'Escape'];
+
+export const DEFAULT_KEY_MAPS: KeyMaps = [
+  { left: 'KeyA', right: 'KeyD', up: 'KeyW', down: 'KeyS', swap: 'KeyQ', raise: 'KeyE' },
+  {
+    left: 'ArrowLeft',
+    right: 'ArrowRight',
+    up: 'ArrowUp',
+    down: 'ArrowDown',
+    swap: 'KeyZ',
+    raise: 'KeyX',
+  },
+];
+
+function isKeyMap(v: unknown): v is KeyMap {
+  if (!v || typeof v !== 'object') return false;
+  const m = v as Record<string, unknown>;
+  return PLAYER_ACTIONS.every((a) => typeof m[a] === 'string' && !RESERVED_KEYS.includes(m[a]));
+}
+
+/** Both players' key maps; the defaults when none are saved or they don't parse. */
+export function loadKeyMaps(): KeyMaps {
+  try {
+    const raw = localStorage.getItem(KEY_MAPS_KEY);
+    const maps = raw ? (JSON.parse(raw) as unknown) : null;
+    if (Array.isArray(maps) && maps.length === 2 && maps.every(isKeyMap)) {
+      return [{ ...maps[0] }, { ...maps[1] }];
+    }
+  } catch {
+    /* fall through to the defaults */
+  }
+  return [{ ...DEFAULT_KEY_MAPS[0] }, { ...DEFAULT_KEY_MAPS[1] }];
+}
+
+export function saveKeyMaps(maps: KeyMaps) {
+  try {
+    localStorage.setItem(KEY_MAPS_KEY, JSON.stringify(maps));
+  } catch {
+    /* ignore quota/private mode errors */
+  }
+}
+
+/** The player and action a key is bound to, if any. */
+export function actionForKey(
+  maps: KeyMaps,
+  code: string,
+): { player: 0 | 1; action: PlayerAction } | null {
+  for (const player of [0, 1] as const) {
+    const action = PLAYER_ACTIONS.find((a) => maps[player][a] === code);
+    if (action) return { player, action };
+  }
+  return null;
+}
+
+/**
+ * Binds a key to one player's action. A key can only do one thing, so if it
+ * was bound elsewhere that slot takes the key this action had before.
+ * Reserved keys are refused (the maps come back unchanged).
+ */
+export function rebindKey(
+  maps: KeyMaps,
+  player: 0 | 1,
+  action: PlayerAction,
+  code: string,
+): KeyMaps {
+  if (RESERVED_KEYS.includes(code)) return maps;
+  const next: KeyMaps = [{ ...maps[0] }, { ...maps[1] }];
+  const taken = actionForKey(maps, code);
+  if (taken) next[taken.player][taken.action] = maps[player][action];
+  next[player][action] = code;
+  return next;
+}
+
+const ARROWS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+};
+
+/** Short label for a key code: `KeyW` → `W`, `Digit1` → `1`, `ArrowLeft` → `←`. */
+export function keyLabel(code: string): string {
+  if (ARROWS[code]) return ARROWS[code];
+  const m = /^(?:Key|Digit|Numpad)(.+)$/.exec(code);
+  return m ? m[1] : code;
+}
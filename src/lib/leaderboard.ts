@@ -0,0 +1,41 @@
+// Local high score tables kept in localStorage, best score first
+
+export type Leaderboard<T extends { score: number }> = {
+  load: () => T[];
+  /**
+   * Adds a finished run. Returns its 1-based rank, or null when it didn't make
+   * the table. Ties rank below earlier runs.
+   */
+  record: (entry: T) => number | null;
+};
+
+export function createLeaderboard<T extends { score: number }>(
+  storageKey: string,
+  size = 10,
+): Leaderboard<T> {
+  const load = (): T[] => {
+    try {
+      const raw = localStorage.getItem(storageKey);
+      const list = raw ? (JSON.parse(raw) as T[]) : [];
+      return Array.isArray(list) ? list.filter((s) => typeof s?.score === 'number') : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const record = (entry: T): number | null => {
+    const list = load();
+    let idx = list.findIndex((s) => entry.score > s.score);
+    if (idx === -1) idx = list.length;
+    if (idx >= size) return null;
+    list.splice(idx, 0, entry);
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(list.slice(0, size)));
+    } catch {
+      /* ignore quota/private mode errors */
+    }
+    return idx + 1;
+  };
+
+  return { load, record };
+}
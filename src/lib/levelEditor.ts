@@ -0,0 +1,166 @@
+import { DEFAULT_BOARD, loadLevels, type RawLevel } from '../levels/loader';
+import type { Level } from '../levels/types';
+import { validateLevels, type LevelProblem } from '../levels/validate';
+
+// localStorage key holding the editor's working set of levels
+export const EDITOR_DRAFT_KEY = 'levelEditorDraft';
+
+// What a painted cell holds: a color index, or '.' for an empty board cell
+export type Paint = number | '.';
+
+/** A new level with the default board and an id not used in `levels`. */
+export function blankLevel(levels: RawLevel[]): RawLevel {
+  let n = levels.length + 1;
+  while (levels.some((l) => l.id === `level-${n}`)) n++;
+  return {
+    id: `level-${n}`,
+    name: `Level ${n}`,
+    shortName: String(n),
+    background: null,
+    color: '#00FFFF',
+    ...DEFAULT_BOARD,
+    startingLines: 5,
+    targetLines: 10,
+    raiseRate: 0.2,
+    music: null,
+  };
+}
+
+function sizeOf(level: RawLevel) {
+  return {
+    width: level.width ?? DEFAULT_BOARD.width,
+    height: level.height ?? DEFAULT_BOARD.height,
+  };
+}
+
+/** The level's starting board as full-height rows, empty rows filling the top. */
+export function boardRows(level: RawLevel): string[] {
+  const { width, height } = sizeOf(level);
+  const rows = (level.board ?? []).slice(-height);
+  const blank = '.'.repeat(width);
+  return [...Array.from({ length: height - rows.length }, () => blank), ...rows];
+}
+
+function setChar(row: string, x: number, ch: string) {
+  return row.slice(0, x) + ch + row.slice(x + 1);
+}
+
+/**
+ * Paints one cell of the starting board. The board is stored the way
+ * levels.json has it: empty rows at the top are dropped, and a board with
+ * nothing on it is left out so the level starts from random rows.
+ */
+export function paintBoard(level: RawLevel, x: number, y: number, paint: Paint): RawLevel {
+  const rows = boardRows(level);
+  rows[y] = setChar(rows[y], x, String(paint));
+  const top = rows.findIndex((r) => /[^.]/.test(r));
+  const next = { ...level };
+  if (top < 0) delete next.board;
+  else next.board = rows.slice(top);
+  return next;
+}
+
+/** Paints one cell of a queued row; queued rows must be full, so '.' is ignored. */
+export function paintQueue(level: RawLevel, x: number, y: number, paint: Paint): RawLevel {
+  if (paint === '.' || !level.queue?.[y]) return level;
+  const queue = level.queue.slice();
+  queue[y] = setChar(queue[y], x, String(paint));
+  return { ...level, queue };
+}
+
+/** Adds a queued row at the end, cycling through the level's colors. */
+export function addQueueRow(level: RawLevel): RawLevel {
+  const { width } = sizeOf(level);
+  const numColors = level.numColors ?? DEFAULT_BOARD.numColors;
+  const queue = level.queue ?? [];
+  const row = Array.from({ length: width }, (_, x) => (x + queue.length) % numColors).join('');
+  return { ...level, queue: [...queue, row] };
+}
+
+export function removeQueueRow(level: RawLevel, y: number): RawLevel {
+  const queue = (level.queue ?? []).filter((_, i) => i !== y);
+  const next: RawLevel = { ...level, queue };
+  if (queue.length === 0) delete next.queue;
+  return next;
+}
+
+/**
+ * Changes the board size, keeping painted cells: rows are cut or padded on the
+ * right (queued rows with color 0, the board with empty cells) and the board
+ * keeps its bottom rows.
+ */
+export function resizeLevel(level: RawLevel, width: number, height: number): RawLevel {
+  const fit = (row: string, fill: string) => row.slice(0, width).padEnd(width, fill);
+  const next: RawLevel = { ...level, width, height };
+  if (level.board) next.board = level.board.slice(-height).map((r) => fit(r, '.'));
+  if (level.queue) next.queue = level.queue.map((r) => fit(r, '0'));
+  return next;
+}
+
+const isError = (p: LevelProblem) => p.severity === 'error';
+
+/** Checks a level the way the game loads it; returns the loaded level or why it won't load. */
+export function checkLevel(level: RawLevel): { level: Level } | { problems: LevelProblem[] } {
+  const problems = validateLevels([level]).filter(isError);
+  return problems.length > 0 ? { problems } : { level: loadLevels([level])[0] };
+}
+
+/** The working set as levels.json, ready to drop into src/levels. */
+export function exportLevels(levels: RawLevel[]): string {
+  return `${JSON.stringify(levels, null, 2)}\n`;
+}
+
+// Parses a saved draft: a list of entries that at least have ids
+function parseLevels(json: string): RawLevel[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Not valid JSON');
+  }
+  if (!Array.isArray(parsed)) throw new Error('Expected a list of levels');
+  parsed.forEach((l: unknown, i) => {
+    if (!l || typeof l !== 'object' || typeof (l as RawLevel).id !== 'string') {
+      throw new Error(`Level ${i + 1} has no id`);
+    }
+  });
+  return parsed as RawLevel[];
+}
+
+/**
+ * Reads levels.json-style text. Comes back with no levels and the errors
+ * found if the text isn't JSON or any level wouldn't load; warnings (e.g.
+ * unknown fields) are returned alongside the levels.
+ */
+export function importLevels(json: string): { levels: RawLevel[]; problems: LevelProblem[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return {
+      levels: [],
+      problems: [{ level: null, message: 'not valid JSON', severity: 'error' }],
+    };
+  }
+  const problems = validateLevels(parsed);
+  return { levels: problems.some(isError) ? [] : (parsed as RawLevel[]), problems };
+}
+
+/** The saved working set, if there is one. Levels that don't load yet are kept. */
+export function loadDraft(): RawLevel[] | null {
+  try {
+    const raw = localStorage.getItem(EDITOR_DRAFT_KEY);
+    const levels = raw ? parseLevels(raw) : null;
+    return levels && levels.length > 0 ? levels : null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(levels: RawLevel[]) {
+  try {
+    localStorage.setItem(EDITOR_DRAFT_KEY, JSON.stringify(levels));
+  } catch {
+    /* ignore quota/private mode errors */
+  }
+}
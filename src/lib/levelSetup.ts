@@ -0,0 +1,108 @@
+import type { GemWeights } from '../game-core/cell';
+import type { Cell, EndlessRamp, Engine } from '../game-core/engine';
+import type { Level } from '../levels/types';
+import { loadedMask, type Mask } from '../mask';
+
+// Default target lines used when a level doesn't provide one.
+export const DEFAULT_TARGET_LINES = 10;
+// Rows kept in the queue beyond the target so the stack keeps rising past the win line.
+export const QUEUE_OVERFLOW_ROWS = 16;
+
+// Ensure there's always a small positive raise rate. If both the level and UI
+// inputs are zero/non-positive, fall back to a small safe default so the level
+// still rises during playtests.
+const MIN_RAISE_RATE = 0.05; // rows per second (minimum)
+const MAX_RAISE_RATE = 0.6; // rows per second (maximum for normalized rates)
+
+export type LevelSetup = {
+  targetLines: number;
+  startingLines: number;
+  // rows per second; values <= 1 are treated as normalized and mapped into range
+  raiseRate: number;
+  // used when raiseRate is non-positive (e.g. the UI input rate)
+  fallbackRate?: number;
+  // special gem spawn weights; omitted means plain gems only
+  gemWeights?: GemWeights;
+  // hand-authored rows that rise first, in order; random rows follow
+  queue?: Cell[][];
+  // hand-authored starting board (top to bottom); replaces the starting lines
+  board?: Cell[][];
+  // endless mode: the queue is generated as the stack rises and never runs out
+  endless?: EndlessRamp;
+  // time attack: the run ends when this clock (ms) runs out
+  timeLimitMs?: number;
+  // arena silhouette built from the level's mask image (see mask.ts)
+  mask?: Mask;
+};
+
+const mapNormalized = (v: number) => MIN_RAISE_RATE + v * (MAX_RAISE_RATE - MIN_RAISE_RATE);
+
+/**
+ * Resolves a level's configured raise rate into rows per second. Non-positive
+ * rates fall back to `fallbackRate` (normalized the same way) or the engine default.
+ */
+export function resolveRaiseRate(rate: number, fallbackRate?: number): number {
+  if (typeof rate === 'number' && rate > 0) return rate <= 1 ? mapNormalized(rate) : rate;
+  if (typeof fallbackRate === 'number' && fallbackRate > 0) {
+    return fallbackRate <= 1 ? mapNormalized(fallbackRate) : fallbackRate;
+  }
+  // Same as the engine's default autoRiseRateRowsPerSec
+  return MAX_RAISE_RATE;
+}
+
+/**
+ * Applies a level's settings to a freshly created engine: target lines, raise
+ * rate, special gem weights, the seeded level queue with its visible starting rows, and the total
+ * used for the rising win line. Returns the resolved raise rate (rows/sec).
+ *
+ * A level with its own `board` starts from that board instead of queue rows; a
+ * level with its own `queue` rises those rows first and random rows after them.
+ *
+ * Shared by live play and the replay player so both build identical boards
+ * from the same seed.
+ */
+export function applyLevelSetup(engine: Engine, setup: LevelSetup): number {
+  engine.targetLines = setup.targetLines;
+  const rate = resolveRaiseRate(setup.raiseRate, setup.fallbackRate);
+  engine.setRaiseRate(rate);
+  engine.gemWeights = setup.gemWeights ?? null;
+  engine.endless = setup.endless ? { ...setup.endless } : null;
+  engine.timeLeftMs = setup.timeLimitMs ?? null;
+  if (setup.mask) engine.setMask(setup.mask);
+
+  const total = Math.max(1, setup.targetLines || DEFAULT_TARGET_LINES);
+  // Rows come from the engine's seeded PRNG so the same seed replays the same queue
+  const authored = setup.queue ?? [];
+  // An endless queue only needs the starting rows; it refills as rows rise
+  const wanted = setup.endless ? setup.startingLines : total + QUEUE_OVERFLOW_ROWS;
+  const rows = [...authored, ...engine.generateRandomRows(Math.max(0, wanted - authored.length))];
+  if (setup.board) {
+    engine.setStartingBoard(setup.board);
+    engine.setLevelQueue(rows);
+  } else {
+    engine.setLevelQueue(rows, Math.max(0, Math.min(engine.height, setup.startingLines)));
+  }
+  // The engine computes the rising win line from this total; the overflow rows
+  // above are not part of it.
+  engine.totalLevelLines = total;
+  return rate;
+}
+
+/**
+ * The setup a level plays with, as picked from the level select. A level's
+ * arena mask is included once loadMask() has decoded it, unless `mask` is given.
+ */
+export function setupForLevel(
+  level: Level,
+  mask = level.mask ? loadedMask(level.mask) : undefined,
+): LevelSetup {
+  return {
+    targetLines: level.targetLines,
+    startingLines: level.startingLines,
+    raiseRate: level.raiseRate,
+    gemWeights: level.gemWeights,
+    queue: level.queue,
+    board: level.board,
+    mask,
+  };
+}
@@ -0,0 +1,109 @@
+// Installed level packs (see levels/packs.ts), kept in IndexedDB since
+// embedded backgrounds and music are too big for localStorage. Every call
+// settles even without IndexedDB (private mode, tests): reads come back empty
+// and writes reject.
+
+import {
+  packIdFor,
+  registerPacks,
+  splitPackLevelId,
+  type PackFile,
+  type StoredPack,
+} from '../levels/packs';
+
+const DB_NAME = 'level-packs';
+const STORE = 'packs';
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error ?? new Error('could not open the pack store'));
+  });
+}
+
+// Runs one request against the pack store and closes the database after
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const req = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(req.result);
+      tx.onerror = () => reject(tx.error ?? new Error('pack store request failed'));
+      tx.onabort = () => reject(tx.error ?? new Error('pack store request was aborted'));
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** Installed packs, oldest first. */
+export async function listPacks(): Promise<StoredPack[]> {
+  try {
+    const packs = await withStore('readonly', (s) => s.getAll() as IDBRequest<StoredPack[]>);
+    return packs.sort((a, b) => a.installedAt - b.installedAt);
+  } catch {
+    return [];
+  }
+}
+
+/** Reads installed packs and makes their levels playable; returns them for listing. */
+export async function loadInstalledPacks(): Promise<StoredPack[]> {
+  const packs = await listPacks();
+  registerPacks(packs);
+  return packs;
+}
+
+/**
+ * Stores a pack, replacing one with the same name. Progress carries over to
+ * the new version for levels that kept their ids.
+ */
+export async function installPack(pack: PackFile): Promise<StoredPack> {
+  const id = packIdFor(pack.manifest);
+  const old = (await listPacks()).find((p) => p.id === id);
+  const ids = new Set(pack.levels.map((l) => l.id));
+  const stored: StoredPack = {
+    ...pack,
+    id,
+    cleared: (old?.cleared ?? []).filter((levelId) => ids.has(levelId)),
+    installedAt: old?.installedAt ?? Date.now(),
+  };
+  await withStore('readwrite', (s) => s.put(stored));
+  await loadInstalledPacks();
+  return stored;
+}
+
+export async function removePack(id: string) {
+  await withStore('readwrite', (s) => s.delete(id));
+  await loadInstalledPacks();
+}
+
+/** Records a cleared pack level (by its pack level id); built-in level ids are ignored. */
+export async function markPackLevelCleared(id: string) {
+  const inPack = splitPackLevelId(id);
+  if (!inPack) return;
+  try {
+    const pack = (await listPacks()).find((p) => p.id === inPack.packId);
+    if (!pack || pack.cleared.includes(inPack.levelId)) return;
+    await withStore('readwrite', (s) =>
+      s.put({ ...pack, cleared: [...pack.cleared, inPack.levelId] }),
+    );
+  } catch {
+    /* ignore quota/private mode errors */
+  }
+}
+
+/** The file a pack was installed from (progress left out), for sharing it again. */
+export function exportPack(pack: StoredPack): string {
+  const file: PackFile = { manifest: pack.manifest, levels: pack.levels, assets: pack.assets };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,48 @@
+import type { Engine } from '../game-core/engine';
+
+// What a player can do to their own board, whatever device it comes from
+export type PlayerAction = 'left' | 'right' | 'up' | 'down' | 'swap' | 'raise';
+
+export const PLAYER_ACTIONS: PlayerAction[] = ['left', 'right', 'up', 'down', 'swap', 'raise'];
+
+// Rows per second while raise is held (same as X in single player)
+export const RAISE_HOLD_RATE = 2;
+
+const MOVES: Partial<Record<PlayerAction, [number, number]>> = {
+  left: [-1, 0],
+  right: [1, 0],
+  up: [0, -1],
+  down: [0, 1],
+};
+
+export type PlayerControls = {
+  press: (action: PlayerAction) => void;
+  release: (action: PlayerAction) => void;
+};
+
+/**
+ * Applies one player's actions to their engine. Holding raise speeds the
+ * stack up; releasing it restores the rate it had before.
+ */
+export function createPlayerControls(engine: Engine): PlayerControls {
+  // rate to restore when raise is released; null while not held
+  let heldFromRate: number | null = null;
+
+  return {
+    press(action) {
+      if (engine.paused) return;
+      const move = MOVES[action];
+      if (move) engine.moveCursor(move[0], move[1]);
+      else if (action === 'swap') engine.swap();
+      else if (action === 'raise' && heldFromRate === null) {
+        heldFromRate = engine.autoRiseRateRowsPerSec;
+        engine.setRaiseRate(RAISE_HOLD_RATE);
+      }
+    },
+    release(action) {
+      if (action !== 'raise' || heldFromRate === null) return;
+      engine.setRaiseRate(heldFromRate);
+      heldFromRate = null;
+    },
+  };
+}
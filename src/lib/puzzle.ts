@@ -0,0 +1,116 @@
+import { Engine } from '../game-core/engine';
+import { isEmpty } from '../game-core/cell';
+import type { Puzzle } from '../puzzles/types';
+
+// localStorage key holding the ids of solved puzzles
+export const SOLVED_PUZZLES_KEY = 'solvedPuzzles';
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+export type PuzzleSession = {
+  puzzle: Puzzle;
+  getEngine: () => Engine;
+  status: () => PuzzleStatus;
+  swapsLeft: () => number;
+  /** Steps the board by real time and checks the goal once it settles. */
+  advance: (dtMs: number) => void;
+  swapAt: (x: number, y: number) => void;
+  /** Takes back the last swap. Not available once the puzzle is solved. */
+  undo: () => boolean;
+  /** Starts the puzzle over from its authored board. */
+  retry: () => void;
+};
+
+/**
+ * Builds a puzzle engine: the authored board, no rising and a swap limit.
+ * Every swap can be undone, so the rewind buffer holds one snapshot per swap.
+ */
+function buildEngine(puzzle: Puzzle, cellSize: number): Engine {
+  const e = new Engine(puzzle.width, puzzle.height, puzzle.numColors);
+  e.cellSize = cellSize;
+  e.setRaiseRate(0);
+  e.setStartingBoard(puzzle.board);
+  e.swapsLeft = puzzle.swaps;
+  e.rewindDepth = puzzle.swaps;
+  return e;
+}
+
+/**
+ * Runs one attempt at a puzzle. The goal is checked whenever the board comes
+ * to rest: an empty board (clear goal) or a long enough chain since the last
+ * rest (chain goal) solves it; running out of swaps without that, or the
+ * engine losing the board, fails it.
+ */
+export function createPuzzleSession(puzzle: Puzzle, cellSize = 48): PuzzleSession {
+  let engine = buildEngine(puzzle, cellSize);
+  let status: PuzzleStatus = 'playing';
+  // longest chain since the board last came to rest
+  let bestChain = 0;
+
+  const attach = () => {
+    engine.events.on('match', ({ chain }) => {
+      bestChain = Math.max(bestChain, chain);
+    });
+  };
+  attach();
+
+  const goalMet = () => {
+    if (puzzle.goal.type === 'chain') return bestChain >= puzzle.goal.length;
+    return engine.grid.every((r) => r.every(isEmpty));
+  };
+
+  return {
+    puzzle,
+    getEngine: () => engine,
+    status: () => status,
+    swapsLeft: () => engine.swapsLeft ?? 0,
+    advance(dtMs) {
+      engine.advance(dtMs);
+      if (status !== 'playing') return;
+      if (engine.hasLost) {
+        status = 'failed';
+        return;
+      }
+      if (!engine.isSettled()) return;
+      if (goalMet()) status = 'solved';
+      else if (engine.swapsLeft === 0) status = 'failed';
+      bestChain = 0;
+    },
+    swapAt(x, y) {
+      if (status !== 'playing') return;
+      engine.swapAt(x, y);
+    },
+    undo() {
+      if (status === 'solved' || !engine.rewind()) return false;
+      status = 'playing';
+      bestChain = 0;
+      return true;
+    },
+    retry() {
+      engine = buildEngine(puzzle, engine.cellSize);
+      attach();
+      status = 'playing';
+      bestChain = 0;
+    },
+  };
+}
+
+export function loadSolvedPuzzles(): Set<string> {
+  try {
+    const raw = localStorage.getItem(SOLVED_PUZZLES_KEY);
+    const ids = raw ? (JSON.parse(raw) as unknown) : [];
+    return new Set(Array.isArray(ids) ? ids.filter((id) => typeof id === 'string') : []);
+  } catch {
+    return new Set();
+  }
+}
+
+export function markPuzzleSolved(id: string) {
+  try {
+    const solved = loadSolvedPuzzles();
+    solved.add(id);
+    localStorage.setItem(SOLVED_PUZZLES_KEY, JSON.stringify([...solved]));
+  } catch {
+    /* ignore quota/private mode errors */
+  }
+}
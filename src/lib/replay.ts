@@ -0,0 +1,207 @@
+// Input recording and deterministic playback.
+//
+// A replay is the seed, the level settings and the list of player actions
+// stamped with the engine tick they happened before. Because the engine is
+// deterministic for a given seed and advances in fixed ticks, feeding the same
+// actions back at the same ticks into a fresh engine reproduces the run exactly.
+
+import { Engine, TICK_MS, type EngineAction } from '../game-core/engine';
+import { applyLevelSetup, type LevelSetup } from './levelSetup';
+
+// v2: fixed-tick simulation, so frame durations are no longer stored
+// v3: per-tile states change swap, clear and fall timing
+export const REPLAY_VERSION = 3;
+// localStorage key holding the most recently finished run's replay
+export const LAST_REPLAY_KEY = 'lastReplay';
+
+// Compact action tuples: [tick, op, ...args]
+//   m dx dy   moveCursor       c x y   setCursor        s x y   swap
+//   r rate    raiseRate        p 0|1   pause            z px    cellSize
+//   w         rewind           g w h   garbage slab
+export type ReplayActionTuple = [number, string, ...number[]];
+
+export type Replay = {
+  version: number;
+  levelId: string;
+  seed: number;
+  width: number;
+  height: number;
+  numColors: number;
+  level: LevelSetup;
+  // cell size (CSS px) the run started with; later changes are recorded as actions
+  cellSize: number;
+  // total simulation ticks (TICK_MS each) in the run
+  ticks: number;
+  actions: ReplayActionTuple[];
+  // practice runs: engine.rewindDepth, so recorded rewinds restore the same snapshots
+  rewindDepth?: number;
+  finalScore?: number;
+  recordedAt?: string;
+};
+
+export function encodeAction(tick: number, a: EngineAction): ReplayActionTuple {
+  switch (a.type) {
+    case 'moveCursor':
+      return [tick, 'm', a.dx, a.dy];
+    case 'setCursor':
+      return [tick, 'c', a.x, a.y];
+    case 'swap':
+      return [tick, 's', a.x, a.y];
+    case 'raiseRate':
+      return [tick, 'r', a.rowsPerSec];
+    case 'pause':
+      return [tick, 'p', a.paused ? 1 : 0];
+    case 'cellSize':
+      return [tick, 'z', a.px];
+    case 'rewind':
+      return [tick, 'w'];
+    case 'garbage':
+      return [tick, 'g', a.width, a.height];
+  }
+}
+
+export function decodeAction(t: ReplayActionTuple): { tick: number; action: EngineAction } | null {
+  const [tick, op, a = 0, b = 0] = t;
+  switch (op) {
+    case 'm':
+      return { tick, action: { type: 'moveCursor', dx: a, dy: b } };
+    case 'c':
+      return { tick, action: { type: 'setCursor', x: a, y: b } };
+    case 's':
+      return { tick, action: { type: 'swap', x: a, y: b } };
+    case 'r':
+      return { tick, action: { type: 'raiseRate', rowsPerSec: a } };
+    case 'p':
+      return { tick, action: { type: 'pause', paused: a === 1 } };
+    case 'z':
+      return { tick, action: { type: 'cellSize', px: a } };
+    case 'w':
+      return { tick, action: { type: 'rewind' } };
+    case 'g':
+      return { tick, action: { type: 'garbage', width: a, height: b } };
+    default:
+      return null;
+  }
+}
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+/**
+ * Starts recording input on `engine`. Attach after the level has been set up
+ * and call `finish()` to get the replay.
+ */
+export function createReplayRecorder(
+  engine: Engine,
+  meta: { levelId: string; numColors: number; level: LevelSetup },
+) {
+  const actions: ReplayActionTuple[] = [];
+  const startTick = engine.tick;
+  const cellSize = engine.cellSize;
+  const rewindDepth = engine.rewindDepth;
+  const stopRecording = engine.events.on('action', (action) => {
+    actions.push(encodeAction(engine.tick - startTick, action));
+  });
+
+  function finish(): Replay {
+    stopRecording();
+    return {
+      version: REPLAY_VERSION,
+      levelId: meta.levelId,
+      seed: engine.seed,
+      width: engine.width,
+      height: engine.height,
+      numColors: meta.numColors,
+      level: { ...meta.level },
+      cellSize,
+      ticks: engine.tick - startTick,
+      actions: actions.slice(),
+      ...(rewindDepth > 0 ? { rewindDepth } : {}),
+      finalScore: engine.score,
+      recordedAt: new Date().toISOString(),
+    };
+  }
+
+  return { finish } as const;
+}
+
+/** Parses and sanity-checks replay JSON. Throws an Error with a readable message. */
+export function parseReplay(json: string): Replay {
+  const r = JSON.parse(json) as Partial<Replay>;
+  if (!r || typeof r !== 'object') throw new Error('Replay is not an object');
+  if (r.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version: ${r.version}`);
+  if (typeof r.seed !== 'number' || typeof r.ticks !== 'number' || !Array.isArray(r.actions)) {
+    throw new Error('Replay is missing seed, ticks or actions');
+  }
+  if (!r.level || typeof r.width !== 'number' || typeof r.height !== 'number') {
+    throw new Error('Replay is missing board or level settings');
+  }
+  return r as Replay;
+}
+
+export type ReplayPlayer = ReturnType<typeof createReplayPlayer>;
+
+/**
+ * Plays a replay back into a fresh engine. `advance(playbackMs)` runs ticks as
+ * playback time accrues (scale it for speed), and `seek` jumps to any tick by
+ * re-simulating from the start.
+ */
+export function createReplayPlayer(replay: Replay) {
+  const actionsByTick = new Map<number, EngineAction[]>();
+  for (const t of replay.actions) {
+    const d = decodeAction(t);
+    if (!d) continue;
+    const list = actionsByTick.get(d.tick) ?? [];
+    list.push(d.action);
+    actionsByTick.set(d.tick, list);
+  }
+
+  let engine = build();
+  let tick = 0;
+  // playback time banked towards the next tick
+  let pendingMs = 0;
+
+  function build() {
+    const e = new Engine(replay.width, replay.height, replay.numColors, replay.seed);
+    e.cellSize = replay.cellSize;
+    e.rewindDepth = replay.rewindDepth ?? 0;
+    applyLevelSetup(e, replay.level);
+    return e;
+  }
+
+  function stepTick() {
+    const acts = actionsByTick.get(tick);
+    if (acts) for (const a of acts) engine.applyAction(a);
+    engine.update(TICK_MS);
+    tick++;
+  }
+
+  function advance(playbackMs: number) {
+    pendingMs += playbackMs;
+    while (tick < replay.ticks && pendingMs >= TICK_MS) {
+      pendingMs -= TICK_MS;
+      stepTick();
+    }
+    if (tick >= replay.ticks) pendingMs = 0;
+  }
+
+  function seek(target: number) {
+    const to = Math.max(0, Math.min(replay.ticks, target | 0));
+    if (to < tick) {
+      engine = build();
+      tick = 0;
+    }
+    while (tick < to) stepTick();
+    pendingMs = 0;
+  }
+
+  return {
+    getEngine: () => engine,
+    getTick: () => tick,
+    // interpolation factor for rendering between ticks
+    getAlpha: () => pendingMs / TICK_MS,
+    totalTicks: replay.ticks,
+    isDone: () => tick >= replay.ticks,
+    advance,
+    seek,
+  } as const;
+}
@@ -0,0 +1,48 @@
+import { ENGINE_SNAPSHOT_VERSION, type EngineSnapshot } from '../game-core/engine';
+
+// localStorage key holding the in-progress run, if the player left mid-level
+export const SAVED_RUN_KEY = 'savedRun';
+
+export type SavedRun = {
+  levelId: string;
+  snapshot: EngineSnapshot;
+  // resolved raise rate (rows/sec) to restore after the X speed-up is released
+  baseRaiseRate: number;
+  // practice runs stay practice runs (rewind on, scores kept out of the playthrough)
+  practice?: boolean;
+  savedAt: number;
+};
+
+/** Returns the saved mid-level run, or null if there is none or it's unusable. */
+export function loadSavedRun(): SavedRun | null {
+  try {
+    const raw = localStorage.getItem(SAVED_RUN_KEY);
+    if (!raw) return null;
+    const run = JSON.parse(raw) as SavedRun;
+    if (!run || typeof run.levelId !== 'string' || !run.snapshot) return null;
+    if (run.snapshot.version !== ENGINE_SNAPSHOT_VERSION) return null;
+    return run;
+  } catch {
+    return null;
+  }
+}
+
+export function hasSavedRun(): boolean {
+  return loadSavedRun() !== null;
+}
+
+export function saveRun(run: Omit<SavedRun, 'savedAt'>) {
+  try {
+    localStorage.setItem(SAVED_RUN_KEY, JSON.stringify({ ...run, savedAt: Date.now() }));
+  } catch {
+    /* ignore quota/private mode errors */
+  }
+}
+
+export function clearSavedRun() {
+  try {
+    localStorage.removeItem(SAVED_RUN_KEY);
+  } catch {
+    /* ignore */
+  }
+}
@@ -0,0 +1,151 @@
+import { Engine, TICK_MS, type LoseReason } from '../game-core/engine';
+import { findMatchingSwaps } from '../game-core/moves';
+import type { Level } from '../levels/types';
+import type { Mask } from '../mask';
+import { CPU_DIFFICULTIES, createCpuPlayer, type CpuDifficulty } from './cpu';
+import { applyLevelSetup, setupForLevel } from './levelSetup';
+
+// Bots that can play a level: the CPU opponent's levels, plus one that only
+// plays random swaps as a floor to compare against
+export type BotName = 'random' | 'easy' | 'normal' | 'hard';
+
+export const BOT_NAMES: BotName[] = ['random', 'easy', 'normal', 'hard'];
+
+export const BOT_STRATEGIES: Record<BotName, CpuDifficulty> = {
+  random: { ...CPU_DIFFICULTIES.normal, mistakeRate: 1 },
+  easy: CPU_DIFFICULTIES.easy,
+  normal: CPU_DIFFICULTIES.normal,
+  hard: CPU_DIFFICULTIES.hard,
+};
+
+// Why a run wasn't won:
+// - topOut: the stack reached the top while a matching swap was still there
+// - noMoves: the stack reached the top with nothing left to match
+// - mask: the stack stayed against the level's arena mask
+// - timeout: still going when the run's time cap ran out
+export type LossCause = 'topOut' | 'noMoves' | 'mask' | 'timeout';
+
+export const LOSS_CAUSES: LossCause[] = ['topOut', 'noMoves', 'mask', 'timeout'];
+
+export type RunResult = {
+  won: boolean;
+  lossCause: LossCause | null;
+  // simulated time the run lasted
+  timeMs: number;
+  score: number;
+  linesCleared: number;
+  maxChain: number;
+};
+
+export type SimOptions = {
+  bot: CpuDifficulty;
+  // simulated time before a run is given up as a timeout
+  maxRunMs?: number;
+  // the level's decoded arena mask; defaults to the one loadMask() has built.
+  // A level with a mask can't be simulated without it.
+  mask?: Mask;
+};
+
+// Ten minutes: far longer than any level should take
+export const DEFAULT_MAX_RUN_MS = 10 * 60 * 1000;
+
+/**
+ * Plays one run of a level headlessly: the engine is built from the level the
+ * way live play builds it, then a CPU player drives it tick by tick until the
+ * run is won, lost or the time cap runs out.
+ */
+export function simulateRun(level: Level, seed: number, opts: SimOptions): RunResult {
+  const engine = new Engine(level.width, level.height, level.numColors, seed);
+  engine.cellSize = 40;
+  const setup = setupForLevel(level, opts.mask);
+  if (level.mask && !setup.mask) {
+    throw new Error(`${level.id}: its arena mask '${level.mask}' isn't loaded`);
+  }
+  applyLevelSetup(engine, setup);
+  let loseReason: LoseReason | null = null;
+  engine.events.on('lose', ({ reason }) => (loseReason = reason));
+  // The bot plays at the start of every engine tick
+  createCpuPlayer(engine, opts.bot, seed ^ 0x5bd1e995);
+  const maxRunMs = opts.maxRunMs ?? DEFAULT_MAX_RUN_MS;
+
+  let timeMs = 0;
+  while (!engine.hasWon && !engine.hasLost && timeMs < maxRunMs) {
+    engine.update(TICK_MS);
+    timeMs += TICK_MS;
+  }
+
+  let lossCause: LossCause | null = null;
+  if (loseReason === 'mask') lossCause = 'mask';
+  else if (engine.hasLost) {
+    lossCause = findMatchingSwaps(engine.grid).length > 0 ? 'topOut' : 'noMoves';
+  } else if (!engine.hasWon) lossCause = 'timeout';
+  return {
+    won: engine.hasWon,
+    lossCause,
+    timeMs,
+    score: engine.score,
+    linesCleared: engine.linesClearedEq,
+    maxChain: engine.maxChain,
+  };
+}
+
+export type LevelReport = {
+  levelId: string;
+  runs: number;
+  wins: number;
+  winRate: number;
+  // averages over won runs only; null when nothing was won
+  avgTimeToWinMs: number | null;
+  avgScore: number;
+  losses: Record<LossCause, number>;
+};
+
+/**
+ * Plays a level `runs` times from consecutive seeds starting at `seed` and
+ * sums up the results. The same arguments always give the same report.
+ */
+export function simulateLevel(
+  level: Level,
+  runs: number,
+  seed: number,
+  opts: SimOptions,
+): LevelReport {
+  const losses: Record<LossCause, number> = { topOut: 0, noMoves: 0, mask: 0, timeout: 0 };
+  let wins = 0;
+  let winTimeMs = 0;
+  let scoreTotal = 0;
+  for (let i = 0; i < runs; i++) {
+    const r = simulateRun(level, (seed + i) >>> 0, opts);
+    scoreTotal += r.score;
+    if (r.won) {
+      wins++;
+      winTimeMs += r.timeMs;
+    } else if (r.lossCause) losses[r.lossCause]++;
+  }
+  return {
+    levelId: level.id,
+    runs,
+    wins,
+    winRate: runs > 0 ? wins / runs : 0,
+    avgTimeToWinMs: wins > 0 ? winTimeMs / wins : null,
+    avgScore: runs > 0 ? scoreTotal / runs : 0,
+    losses,
+  };
+}
+
+/** Plain-text table of level reports, one row per level. */
+export function formatReports(reports: LevelReport[]): string {
+  const header = ['level', 'runs', 'win %', 'avg win', 'avg score', ...LOSS_CAUSES];
+  const rows = reports.map((r) => [
+    r.levelId,
+    String(r.runs),
+    (r.winRate * 100).toFixed(0),
+    r.avgTimeToWinMs === null ? '-' : `${(r.avgTimeToWinMs / 1000).toFixed(1)}s`,
+    r.avgScore.toFixed(0),
+    ...LOSS_CAUSES.map((c) => String(r.losses[c])),
+  ]);
+  const widths = header.map((h, i) => Math.max(h.length, ...rows.map((row) => row[i].length)));
+  return [header, ...rows]
+    .map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  '))
+    .join('\n');
+}
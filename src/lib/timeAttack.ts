@@ -0,0 +1,53 @@
+import { createLeaderboard, type Leaderboard } from './leaderboard';
+import type { LevelSetup } from './levelSetup';
+
+// Run id used for time attack runs wherever a level id is expected
+export const TIME_ATTACK_LEVEL_ID = 'time-attack';
+
+// localStorage key for the clock length chosen on the Options page
+export const TIME_ATTACK_MINUTES_KEY = 'timeAttackMinutes';
+export const TIME_ATTACK_MINUTE_CHOICES = [1, 2, 3, 5];
+export const DEFAULT_TIME_ATTACK_MINUTES = 2;
+
+export type TimeAttackScore = {
+  score: number;
+  maxChain: number;
+  // most gems cleared in one clear step
+  largestCombo: number;
+  // Date.now() when the run ended
+  at: number;
+};
+
+export function loadTimeAttackMinutes(): number {
+  try {
+    const v = Number(localStorage.getItem(TIME_ATTACK_MINUTES_KEY));
+    return TIME_ATTACK_MINUTE_CHOICES.includes(v) ? v : DEFAULT_TIME_ATTACK_MINUTES;
+  } catch {
+    return DEFAULT_TIME_ATTACK_MINUTES;
+  }
+}
+
+/**
+ * A fast-rising endless board on a clock. The stack never runs out of rows and
+ * there is no win line, so the run ends when the clock hits zero (or on a top out).
+ */
+export function timeAttackSetup(minutes: number): LevelSetup {
+  return {
+    targetLines: 0,
+    startingLines: 6,
+    raiseRate: 0.3,
+    endless: { speedUpPerLine: 0.02, maxSpeedUp: 1 },
+    timeLimitMs: minutes * 60_000,
+  };
+}
+
+/** Each clock length has its own top-10 so scores compare fairly. */
+export function timeAttackScores(minutes: number): Leaderboard<TimeAttackScore> {
+  return createLeaderboard<TimeAttackScore>(`timeAttackHighScores-${minutes}m`);
+}
+
+/** `m:ss` for the HUD clock. */
+export function formatClock(ms: number): string {
+  const total = Math.ceil(Math.max(0, ms) / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,98 @@
+import { Engine } from '../game-core/engine';
+import { createCpuPlayer, type CpuDifficulty, type CpuPlayer } from './cpu';
+import { applyLevelSetup, type LevelSetup } from './levelSetup';
+
+// Both boards: a generated stack that never runs out and speeds up as lines clear
+export const VERSUS_SETUP: LevelSetup = {
+  targetLines: 0,
+  startingLines: 5,
+  raiseRate: 0.12,
+  endless: { speedUpPerLine: 0.03, maxSpeedUp: 2 },
+};
+
+export type GarbageSlab = { width: number; height: number };
+
+/**
+ * Garbage one clear step sends to the other board. A clear of 4+ gems sends a
+ * one-row slab one cell narrower than the clear (at most the board width), and
+ * every chain step past the first sends a full-width row, so an n-chain sends
+ * n - 1 rows in all.
+ */
+export function garbageForClear(chain: number, cells: number, boardWidth: number): GarbageSlab[] {
+  const slabs: GarbageSlab[] = [];
+  if (cells >= 4) slabs.push({ width: Math.min(boardWidth, cells - 1), height: 1 });
+  if (chain >= 2) slabs.push({ width: boardWidth, height: 1 });
+  return slabs;
+}
+
+export type VersusResult = 'playing' | 'won' | 'lost';
+
+export type VersusMatch = {
+  player: Engine;
+  // the CPU's board, or the second player's
+  opponent: Engine;
+  cpuPlayer: CpuPlayer | null;
+  // garbage rows each side has sent so far
+  garbageSent: { player: number; opponent: number };
+  /** Steps both boards and the CPU by real time; does nothing once the match is over. */
+  advance: (dtMs: number) => void;
+  setPaused: (paused: boolean) => void;
+  /** From the player's side: the first board to top out loses. */
+  result: () => VersusResult;
+};
+
+export type VersusOptions = {
+  // drive the opponent's board with a CPU; omitted for two players
+  cpu?: CpuDifficulty;
+  cellSize?: number;
+};
+
+/**
+ * Sets up a match between two boards. Both start from the same seed, so they
+ * rise the same rows until garbage starts to land.
+ */
+export function createVersusMatch(seed: number, opts: VersusOptions = {}): VersusMatch {
+  const build = () => {
+    const e = new Engine(6, 12, 5, seed);
+    e.cellSize = opts.cellSize ?? 40;
+    applyLevelSetup(e, VERSUS_SETUP);
+    return e;
+  };
+  const player = build();
+  const opponent = build();
+  const garbageSent = { player: 0, opponent: 0 };
+  const link = (from: Engine, to: Engine, side: keyof typeof garbageSent) => {
+    from.events.on('match', ({ chain, cells }) => {
+      for (const g of garbageForClear(chain, cells.length, to.width)) {
+        to.queueGarbage(g.width, g.height);
+        garbageSent[side] += g.height;
+      }
+    });
+  };
+  link(player, opponent, 'player');
+  link(opponent, player, 'opponent');
+  const cpuPlayer = opts.cpu ? createCpuPlayer(opponent, opts.cpu, seed ^ 0x5bd1e995) : null;
+
+  const result = (): VersusResult => {
+    if (player.hasLost) return 'lost';
+    if (opponent.hasLost) return 'won';
+    return 'playing';
+  };
+
+  return {
+    player,
+    opponent,
+    cpuPlayer,
+    garbageSent,
+    result,
+    advance(dtMs) {
+      if (result() !== 'playing') return;
+      player.advance(dtMs);
+      opponent.advance(dtMs);
+    },
+    setPaused(paused) {
+      player.setPaused(paused);
+      opponent.setPaused(paused);
+    },
+  };
+}
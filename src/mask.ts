@@ -1,12 +1,14 @@
 // Build a simple per-column top boundary (heightmap) from a mask image.
 // The mask image is treated as an alpha mask: the first opaque pixel from
 // the top defines the mask boundary for that column. Columns with no opaque
-// pixel get a value of -1 (no boundary).
+// pixel get a value of -1 (no boundary). Levels name their mask image in
+// levels.json (`mask`); the image is stretched over the whole board.
 
+// Plain JSON so masks can travel in level setups, snapshots and replays
 export type Mask = {
   width: number;
   height: number;
-  colTop: Int32Array; // per-column y coordinate of first opaque pixel or -1
+  colTop: number[]; // per-column y coordinate of first opaque pixel or -1
 };
 
 export async function buildMaskFromImage(url: string): Promise<Mask> {
@@ -20,7 +22,7 @@ export async function buildMaskFromImage(url: string): Promise<Mask> {
   const ctx = cvs.getContext('2d')!;
   ctx.drawImage(img, 0, 0);
   const data = ctx.getImageData(0, 0, cvs.width, cvs.height).data;
-  const colTop = new Int32Array(cvs.width);
+  const colTop: number[] = new Array(cvs.width);
   for (let x = 0; x < cvs.width; x++) {
     let found = -1;
     for (let y = 0; y < cvs.height; y++) {
@@ -50,3 +52,29 @@ export function cellTouchesMask(mask: Mask, cellTopY: number, sampleXs: number[]
   }
   return false;
 }
+
+// Masks by image URL, so replaying or restarting a level doesn't decode its image again
+const loadedMasks = new Map<string, Mask>();
+const pendingMasks = new Map<string, Promise<Mask>>();
+
+/** Builds (once) the mask for a level's mask image. */
+export function loadMask(url: string): Promise<Mask> {
+  const loaded = loadedMasks.get(url);
+  if (loaded) return Promise.resolve(loaded);
+  let pending = pendingMasks.get(url);
+  if (!pending) {
+    pending = buildMaskFromImage(url)
+      .then((mask) => {
+        loadedMasks.set(url, mask);
+        return mask;
+      })
+      .finally(() => pendingMasks.delete(url));
+    pendingMasks.set(url, pending);
+  }
+  return pending;
+}
+
+/** The mask for an image URL if loadMask() has already built it. */
+export function loadedMask(url: string): Mask | undefined {
+  return loadedMasks.get(url);
+}
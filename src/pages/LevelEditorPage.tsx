@@ -0,0 +1,579 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Footer from '../components/Footer';
+import LevelErrorScreen from '../components/LevelErrorScreen';
+import { drawStateToCanvas, type Skin } from '../renderer/canvasRenderer';
+import { buildFgSkin } from '../lib/graphics';
+import { downloadJson } from '../lib/download';
+import { loadGemsAtlas } from '../atlas';
+import tilesGemsPng from '../assets/sprites/gems.png';
+import tilesGemsXmlUrl from '../assets/sprites/gems.xml?url';
+import { Engine, GEM_COLORS } from '../game-core/engine';
+import { randomSeed } from '../game-core/rng';
+import { RAW_LEVELS, type RawLevel } from '../levels/loader';
+import type { Level } from '../levels/types';
+import {
+  LEVEL_LIMITS,
+  formatLevelProblems,
+  validateLevels,
+  type LevelProblem,
+} from '../levels/validate';
+import { applyLevelSetup, setupForLevel } from '../lib/levelSetup';
+import { loadMask, type Mask } from '../mask';
+import {
+  createPlayerControls,
+  type PlayerAction,
+  type PlayerControls,
+} from '../lib/playerControls';
+import {
+  addQueueRow,
+  blankLevel,
+  boardRows,
+  checkLevel,
+  exportLevels,
+  importLevels,
+  loadDraft,
+  paintBoard,
+  paintQueue,
+  removeQueueRow,
+  resizeLevel,
+  saveDraft,
+  type Paint,
+} from '../lib/levelEditor';
+
+const CELL = 32;
+// Size of a cell in the paint grids
+const PAINT_CELL = 22;
+
+// Test play keys, as in single player
+const TEST_KEYS: Record<string, PlayerAction> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  Space: 'swap',
+  KeyZ: 'swap',
+  KeyX: 'raise',
+};
+
+type TestStatus = 'off' | 'playing' | 'won' | 'lost';
+
+// Asset paths the built-in levels use, offered as suggestions
+const BACKGROUNDS = [...new Set(RAW_LEVELS.map((l) => l.background))].filter((b) => !!b);
+const MUSIC = [...new Set(RAW_LEVELS.map((l) => l.music))].filter((m) => !!m);
+
+function buildEngine(level: Level, seed: number, mask?: Mask) {
+  const e = new Engine(level.width, level.height, level.numColors, seed);
+  e.cellSize = CELL;
+  applyLevelSetup(e, { ...setupForLevel(level), mask });
+  return e;
+}
+
+const LevelEditorPage: React.FC = () => {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fgSkinRef = useRef<Skin | undefined>(undefined);
+  const bgImageRef = useRef<HTMLImageElement | null>(null);
+  // decoded arena mask of the selected level, once loaded
+  const maskRef = useRef<Mask | undefined>(undefined);
+  const [levels, setLevels] = useState<RawLevel[]>(() => loadDraft() ?? RAW_LEVELS.slice());
+  const [index, setIndex] = useState(0);
+  const [paint, setPaint] = useState<Paint>(0);
+  // what was wrong with the last file that failed to import
+  const [importProblems, setImportProblems] = useState<LevelProblem[] | null>(null);
+  // the engine on the preview canvas: a still of the level, or the test run
+  const engineRef = useRef<Engine | null>(null);
+  const controlsRef = useRef<PlayerControls | null>(null);
+  const [testStatus, setTestStatus] = useState<TestStatus>('off');
+  const testStatusRef = useRef(testStatus);
+  const draggingRef = useRef(false);
+
+  const raw = levels[index];
+  const checked = useMemo(() => checkLevel(raw), [raw]);
+  // problems anywhere in the working set, e.g. two levels with the same id
+  const problems = useMemo(() => validateLevels(levels), [levels]);
+  const level = 'level' in checked ? checked.level : null;
+  const width = level?.width ?? raw.width ?? 6;
+  const height = level?.height ?? raw.height ?? 12;
+  const numColors = level?.numColors ?? raw.numColors ?? 5;
+
+  useEffect(() => saveDraft(levels), [levels]);
+
+  useEffect(() => {
+    testStatusRef.current = testStatus;
+  }, [testStatus]);
+
+  // Show the level as it starts whenever it changes (unless a test run is going)
+  useEffect(() => {
+    if (testStatusRef.current !== 'off') return;
+    engineRef.current = level ? buildEngine(level, 1, maskRef.current) : null;
+  }, [level]);
+
+  useEffect(() => {
+    const src = level?.background;
+    if (!src) {
+      bgImageRef.current = null;
+      return;
+    }
+    const img = new Image();
+    img.src = src;
+    bgImageRef.current = img;
+  }, [level?.background]);
+
+  useEffect(() => {
+    const src = level?.mask;
+    maskRef.current = undefined;
+    if (!src) return;
+    let cancelled = false;
+    loadMask(src)
+      .then((mask) => {
+        if (cancelled) return;
+        maskRef.current = mask;
+        if (testStatusRef.current === 'off') engineRef.current?.setMask(mask);
+      })
+      .catch(() => {
+        /* the preview plays without a mask that fails to load */
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [level?.mask]);
+
+  useEffect(() => {
+    loadGemsAtlas(tilesGemsPng, tilesGemsXmlUrl, { w: 128, h: 128 })
+      .then((atlas) => {
+        fgSkinRef.current = buildFgSkin(atlas);
+      })
+      .catch(() => {
+        fgSkinRef.current = undefined;
+      });
+  }, []);
+
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const loop = () => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+      const engine = engineRef.current;
+      const ctx = canvasRef.current?.getContext('2d');
+      if (engine && ctx) {
+        const testing = testStatusRef.current === 'playing';
+        if (testing) {
+          engine.advance(dt);
+          if (engine.hasWon) setTestStatus('won');
+          else if (engine.hasLost) setTestStatus('lost');
+        }
+        try {
+          drawStateToCanvas(
+            ctx,
+            engine.getState(),
+            CELL,
+            dt,
+            engine.scrollOffsetPx,
+            undefined,
+            fgSkinRef.current,
+            testing,
+            bgImageRef.current,
+          );
+        } catch {
+          /* ignore */
+        }
+      } else ctx?.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  // Test runs use a fresh seed each time so designers see different queues
+  const startTest = useCallback(() => {
+    if (!level) return;
+    const engine = buildEngine(level, randomSeed(), maskRef.current);
+    engineRef.current = engine;
+    controlsRef.current = createPlayerControls(engine);
+    setTestStatus('playing');
+  }, [level]);
+
+  const stopTest = useCallback(() => {
+    controlsRef.current = null;
+    engineRef.current = level ? buildEngine(level, 1, maskRef.current) : null;
+    setTestStatus('off');
+  }, [level]);
+
+  // While test playing: the single-player keys, R restarts and Esc goes back to editing
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (testStatusRef.current === 'off') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return;
+      const action = TEST_KEYS[e.code];
+      if (action) {
+        // swaps and raise act once per press; moves follow key repeat
+        if (!e.repeat || (action !== 'swap' && action !== 'raise')) {
+          controlsRef.current?.press(action);
+        }
+      } else if (e.code === 'KeyR') startTest();
+      else if (e.code === 'Escape') stopTest();
+      else return;
+      e.preventDefault();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const action = TEST_KEYS[e.code];
+      if (action) controlsRef.current?.release(action);
+    };
+    const onMouseUp = () => {
+      draggingRef.current = false;
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('mouseup', onMouseUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+  }, [startTest, stopTest]);
+
+  const update = (change: (l: RawLevel) => RawLevel) =>
+    setLevels((all) => all.map((l, i) => (i === index ? change(l) : l)));
+  const setField = (patch: Partial<RawLevel>) => update((l) => ({ ...l, ...patch }));
+  const numberInput = (
+    value: number | undefined,
+    onChange: (n: number) => void,
+    opts: { step?: number; limits?: readonly [number, number] } = {},
+  ) => (
+    <input
+      type="number"
+      step={opts.step ?? 1}
+      min={opts.limits?.[0]}
+      max={opts.limits?.[1]}
+      value={value ?? ''}
+      style={{ width: 80 }}
+      onChange={(e) => {
+        const n = Number(e.target.value);
+        if (e.target.value === '' || !Number.isFinite(n)) return;
+        const [lo, hi] = opts.limits ?? [-Infinity, Infinity];
+        onChange(Math.max(lo, Math.min(hi, n)));
+      }}
+    />
+  );
+
+  const addLevel = (l: RawLevel) => {
+    setLevels((all) => [...all, l]);
+    setIndex(levels.length);
+  };
+  const deleteLevel = () => {
+    if (levels.length <= 1) return;
+    setLevels((all) => all.filter((_, i) => i !== index));
+    setIndex(Math.max(0, index - 1));
+  };
+
+  const onImport = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then((text) => {
+        const imported = importLevels(text);
+        if (imported.levels.length > 0) {
+          setLevels(imported.levels);
+          setIndex(0);
+        } else setImportProblems(imported.problems);
+      })
+      .catch(() =>
+        setImportProblems([
+          { level: null, message: `couldn't read ${file.name}`, severity: 'error' },
+        ]),
+      );
+  };
+
+  const cellStyle = (v: string): React.CSSProperties => ({
+    width: PAINT_CELL,
+    height: PAINT_CELL,
+    boxSizing: 'border-box',
+    border: '1px solid #1f2937',
+    background: v === '.' ? '#0f0f12' : GEM_COLORS[Number(v)] ?? '#f87171',
+    cursor: 'pointer',
+  });
+
+  const paintGrid = (rows: string[], onPaint: (x: number, y: number) => void, key: string) => (
+    <div
+      style={{
+        display: 'grid',
+        gridTemplateColumns: `repeat(${width}, ${PAINT_CELL}px)`,
+        userSelect: 'none',
+      }}
+    >
+      {rows.flatMap((row, y) =>
+        Array.from(row, (v, x) => (
+          <div
+            key={`${key}-${x}-${y}`}
+            style={cellStyle(v)}
+            onMouseDown={() => {
+              draggingRef.current = true;
+              onPaint(x, y);
+            }}
+            onMouseEnter={() => draggingRef.current && onPaint(x, y)}
+          />
+        )),
+      )}
+    </div>
+  );
+
+  const fieldRow = (label: string, input: React.ReactNode) => (
+    <label style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+      <span>{label}</span>
+      {input}
+    </label>
+  );
+
+  if (importProblems) {
+    return (
+      <LevelErrorScreen
+        title="Couldn't import levels"
+        problems={importProblems}
+        onBack={() => setImportProblems(null)}
+        backLabel="Back to editor"
+      />
+    );
+  }
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 960, maxWidth: '96vw', textAlign: 'left' }}>
+        <h1 style={{ marginBottom: 8 }}>Level Editor</h1>
+        <p style={{ marginTop: 0, opacity: 0.9 }}>
+          Changes are kept in this browser until you export them as levels.json.
+        </p>
+
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+          <select value={index} onChange={(e) => setIndex(Number(e.target.value))}>
+            {levels.map((l, i) => (
+              <option key={i} value={i}>
+                {l.id} — {l.name}
+              </option>
+            ))}
+          </select>
+          <button onClick={() => addLevel(blankLevel(levels))}>New level</button>
+          <button
+            onClick={() => {
+              const { id, shortName } = blankLevel(levels);
+              addLevel({ ...raw, id, shortName, name: `${raw.name} copy` });
+            }}
+          >
+            Duplicate
+          </button>
+          <button onClick={deleteLevel} disabled={levels.length <= 1}>
+            Delete
+          </button>
+          <button onClick={() => downloadJson('levels.json', exportLevels(levels))}>
+            Export JSON
+          </button>
+          <label>
+            Import JSON{' '}
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => onImport(e.target.files?.[0])}
+            />
+          </label>
+          <button
+            onClick={() => {
+              setLevels(RAW_LEVELS.slice());
+              setIndex(0);
+            }}
+          >
+            Reset to built-in levels
+          </button>
+        </div>
+
+        <div style={{ display: 'flex', gap: 24, marginTop: 16, flexWrap: 'wrap' }}>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6, minWidth: 240 }}>
+            {fieldRow(
+              'Id',
+              <input value={raw.id} onChange={(e) => setField({ id: e.target.value })} />,
+            )}
+            {fieldRow(
+              'Name',
+              <input value={raw.name} onChange={(e) => setField({ name: e.target.value })} />,
+            )}
+            {fieldRow(
+              'Short name',
+              <input
+                value={raw.shortName}
+                style={{ width: 80 }}
+                onChange={(e) => setField({ shortName: e.target.value })}
+              />,
+            )}
+            {fieldRow(
+              'Color',
+              <input
+                type="color"
+                value={raw.color ?? '#000000'}
+                onChange={(e) => setField({ color: e.target.value.toUpperCase() })}
+              />,
+            )}
+            {fieldRow(
+              'Width',
+              numberInput(width, (n) => update((l) => resizeLevel(l, n, height)), {
+                limits: LEVEL_LIMITS.width,
+              }),
+            )}
+            {fieldRow(
+              'Height',
+              numberInput(height, (n) => update((l) => resizeLevel(l, width, n)), {
+                limits: LEVEL_LIMITS.height,
+              }),
+            )}
+            {fieldRow(
+              'Colors',
+              numberInput(numColors, (n) => setField({ numColors: n }), {
+                limits: LEVEL_LIMITS.numColors,
+              }),
+            )}
+            {fieldRow(
+              'Starting lines',
+              numberInput(raw.startingLines, (n) => setField({ startingLines: n })),
+            )}
+            {fieldRow(
+              'Target lines',
+              numberInput(raw.targetLines, (n) => setField({ targetLines: n })),
+            )}
+            {fieldRow(
+              'Raise rate',
+              numberInput(raw.raiseRate, (n) => setField({ raiseRate: n }), { step: 0.01 }),
+            )}
+            {fieldRow(
+              'Background',
+              <input
+                list="editor-backgrounds"
+                value={raw.background ?? ''}
+                onChange={(e) => setField({ background: e.target.value || null })}
+              />,
+            )}
+            {fieldRow(
+              'Music',
+              <input
+                list="editor-music"
+                value={raw.music ?? ''}
+                onChange={(e) => setField({ music: e.target.value || null })}
+              />,
+            )}
+            {fieldRow(
+              'Mask',
+              <input
+                value={raw.mask ?? ''}
+                onChange={(e) => setField({ mask: e.target.value || null })}
+              />,
+            )}
+            <datalist id="editor-backgrounds">
+              {BACKGROUNDS.map((b) => (
+                <option key={b} value={b ?? ''} />
+              ))}
+            </datalist>
+            <datalist id="editor-music">
+              {MUSIC.map((m) => (
+                <option key={m} value={m ?? ''} />
+              ))}
+            </datalist>
+            {problems.length > 0 && (
+              <div
+                style={{ color: '#f87171', fontSize: 13, whiteSpace: 'pre-wrap', maxWidth: 280 }}
+              >
+                {formatLevelProblems(problems)}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <div style={{ marginBottom: 6 }}>Paint</div>
+            <div style={{ display: 'flex', gap: 4, marginBottom: 8 }}>
+              {(['.', ...Array.from({ length: numColors }, (_, i) => i)] as Paint[]).map((p) => (
+                <button
+                  key={p}
+                  title={p === '.' ? 'Empty' : `Color ${p}`}
+                  onClick={() => setPaint(p)}
+                  style={{
+                    ...cellStyle(String(p)),
+                    outline: paint === p ? '2px solid #fff' : 'none',
+                  }}
+                />
+              ))}
+            </div>
+            <div style={{ marginBottom: 4 }}>
+              Starting board {raw.board ? '' : `(empty: ${raw.startingLines} random lines)`}
+            </div>
+            {paintGrid(
+              boardRows(raw),
+              (x, y) => update((l) => paintBoard(l, x, y, paint)),
+              'board',
+            )}
+            <div style={{ margin: '12px 0 4px' }}>Queue (rises first, top row first)</div>
+            {paintGrid(
+              raw.queue ?? [],
+              (x, y) => update((l) => paintQueue(l, x, y, paint)),
+              'queue',
+            )}
+            <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+              <button onClick={() => update(addQueueRow)}>Add row</button>
+              <button
+                disabled={!raw.queue?.length}
+                onClick={() => update((l) => removeQueueRow(l, (l.queue?.length ?? 1) - 1))}
+              >
+                Remove last row
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <canvas
+              ref={canvasRef}
+              width={width * CELL}
+              height={height * CELL}
+              style={{ border: '2px solid #888', borderRadius: 8, backgroundColor: '#0f0f12' }}
+            />
+            <div style={{ display: 'flex', gap: 8, marginTop: 8, alignItems: 'center' }}>
+              {testStatus === 'off' ? (
+                <button onClick={startTest} disabled={!level}>
+                  Test play
+                </button>
+              ) : (
+                <>
+                  <button onClick={startTest}>Restart (R)</button>
+                  <button onClick={stopTest}>Stop (Esc)</button>
+                </>
+              )}
+              {testStatus === 'won' && <strong style={{ color: '#4ade80' }}>Cleared!</strong>}
+              {testStatus === 'lost' && <strong style={{ color: '#f87171' }}>Topped out</strong>}
+            </div>
+            {testStatus !== 'off' && (
+              <p style={{ fontSize: 13, opacity: 0.8 }}>
+                Arrows move, Space or Z swaps, hold X to raise.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+          <button onClick={() => navigate('/')}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditorPage;
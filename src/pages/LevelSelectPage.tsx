@@ -1,11 +1,32 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import LEVELS from '../levels';
+import { installedPackLevels, parsePack, splitPackLevelId, type StoredPack } from '../levels/packs';
+import type { Level } from '../levels/types';
+import type { LevelProblem } from '../levels/validate';
+import { downloadJson } from '../lib/download';
+import {
+  exportPack,
+  installPack,
+  listPacks,
+  loadInstalledPacks,
+  removePack,
+} from '../lib/packStore';
 import whiteSplat from '../assets/sprites/white-splat.png?url';
 import Footer from '../components/Footer';
+import LevelErrorScreen from '../components/LevelErrorScreen';
 
 const circleSize = 96;
 
+const gridStyle: React.CSSProperties = {
+  display: 'grid',
+  // Use fixed-width columns so items flow left-to-right and wrap
+  gridTemplateColumns: `repeat(auto-fill, minmax(${circleSize}px, ${circleSize}px))`,
+  gap: 12,
+  alignItems: 'start',
+  justifyContent: 'start',
+};
+
 // Parse hex color strings (#rgb, #rgba, #rrggbb, #rrggbbaa) into {r,g,b,a}
 function parseHexColor(input?: string | null) {
   if (!input) return { r: 0, g: 0, b: 0, a: 1 };
@@ -56,8 +77,68 @@ function readableTextAndShadow(hex?: string | null) {
   }
 }
 
+type LevelButtonProps = {
+  level: Level;
+  onSelect: (id: string) => void;
+  // pack levels the player has beaten get a check mark
+  cleared?: boolean;
+};
+
+// A level's splat-shaped button, filled with the level color
+const LevelButton: React.FC<LevelButtonProps> = ({ level, onSelect, cleared = false }) => (
+  <button
+    role="listitem"
+    onClick={() => onSelect(level.id)}
+    style={{
+      height: circleSize,
+      minHeight: circleSize,
+      // Use the white-splat sprite as the button background; the splat image
+      // provides the visual shape so we don't force a circle via borderRadius.
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      // Fill the splat with the level color via mask (no background image)
+      backgroundColor: level.color ?? 'transparent',
+      maskImage: `url(${whiteSplat})`,
+      maskSize: 'contain',
+      maskPosition: 'center',
+      maskRepeat: 'no-repeat',
+      WebkitMaskImage: `url(${whiteSplat})`,
+      WebkitMaskSize: 'contain',
+      WebkitMaskPosition: 'center',
+      WebkitMaskRepeat: 'no-repeat',
+      border: '2px solid rgba(255,255,255,0.06)',
+      color: '#121c29ff',
+      cursor: 'pointer',
+      fontSize: 16,
+      fontWeight: 700,
+      padding: 8,
+      boxSizing: 'border-box',
+      textAlign: 'center',
+      boxShadow: '0 6px 18px rgba(0,0,0,0.4)',
+      transition: 'transform 120ms ease, box-shadow 120ms ease',
+    }}
+    onMouseDown={(e) => (e.currentTarget.style.transform = 'scale(0.98)')}
+    onMouseUp={(e) => (e.currentTarget.style.transform = 'scale(1)')}
+    onMouseLeave={(e) => (e.currentTarget.style.transform = 'scale(1)')}
+    aria-label={`Start ${level.name}${cleared ? ' (cleared)' : ''}`}
+  >
+    {(() => {
+      const { textColor, textShadow } = readableTextAndShadow(level.color);
+      return (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <div style={{ fontSize: 16, color: textColor, textShadow }}>{level.shortName}</div>
+          {cleared && <div style={{ fontSize: 14, color: textColor, textShadow }}>✓</div>}
+        </div>
+      );
+    })()}
+  </button>
+);
+
 const LevelSelectPage: React.FC = () => {
   const navigate = useNavigate();
+  // Practice runs can rewind swaps and don't count towards the playthrough
+  const [practice, setPractice] = useState(false);
 
   const onSelect = (id: string) => {
     try {
@@ -68,9 +149,69 @@ const LevelSelectPage: React.FC = () => {
     // navigate to play and include the chosen level id in navigation state so
     // the App can start that level immediately with the correct settings.
     // Also keep the selectedLevelId in localStorage for other tabs or reloads.
-    navigate('/play', { state: { startLevelId: id } });
+    navigate('/play', { state: { startLevelId: id, practice } });
+  };
+
+  const [packs, setPacks] = useState<StoredPack[]>([]);
+  // a pack file that failed validation, shown full-page instead of the list
+  const [packProblems, setPackProblems] = useState<LevelProblem[] | null>(null);
+  // storage failures (e.g. no IndexedDB in private mode)
+  const [packError, setPackError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadInstalledPacks().then((list) => {
+      if (!cancelled) setPacks(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const onLoadPack = async (file: File | undefined) => {
+    if (!file) return;
+    setPackError(null);
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setPackProblems([{ level: null, message: `couldn't read ${file.name}`, severity: 'error' }]);
+      return;
+    }
+    const { pack, problems } = parsePack(text);
+    if (!pack) {
+      setPackProblems(problems);
+      return;
+    }
+    try {
+      await installPack(pack);
+      setPacks(await listPacks());
+    } catch {
+      setPackError(`Couldn't save ${pack.manifest.name} in this browser.`);
+    }
+  };
+
+  const onRemovePack = async (pack: StoredPack) => {
+    if (!window.confirm(`Remove ${pack.manifest.name} and its progress?`)) return;
+    try {
+      await removePack(pack.id);
+    } catch {
+      setPackError(`Couldn't remove ${pack.manifest.name}.`);
+    }
+    setPacks(await listPacks());
   };
 
+  if (packProblems) {
+    return (
+      <LevelErrorScreen
+        title="Couldn't load level pack"
+        problems={packProblems}
+        onBack={() => setPackProblems(null)}
+        backLabel="Back to level select"
+      />
+    );
+  }
+
   return (
     <div
       style={{
@@ -93,70 +234,80 @@ const LevelSelectPage: React.FC = () => {
           Tap or click a level to play. Layout adjusts for small screens.
         </p>
 
-        <div
-          role="list"
-          style={{
-            display: 'grid',
-            // Use fixed-width columns so items flow left-to-right and wrap
-            gridTemplateColumns: `repeat(auto-fill, minmax(${circleSize}px, ${circleSize}px))`,
-            gap: 12,
-            alignItems: 'start',
-            justifyContent: 'start',
-          }}
-        >
+        <label style={{ display: 'block', marginBottom: 12 }}>
+          <input
+            type="checkbox"
+            checked={practice}
+            onChange={(e) => setPractice(e.target.checked)}
+            style={{ marginRight: 8 }}
+          />
+          Practice mode — rewind swaps with Backspace or a two-finger tap; scores aren't recorded
+        </label>
+
+        <div role="list" style={gridStyle}>
           {LEVELS.map((lvl) => (
-            <button
-              key={lvl.id}
-              role="listitem"
-              onClick={() => onSelect(lvl.id)}
-              style={{
-                height: circleSize,
-                minHeight: circleSize,
-                // Use the white-splat sprite as the button background; the splat image
-                // provides the visual shape so we don't force a circle via borderRadius.
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                // Fill the splat with the level color via mask (no background image)
-                backgroundColor: lvl.color ?? 'transparent',
-                maskImage: `url(${whiteSplat})`,
-                maskSize: 'contain',
-                maskPosition: 'center',
-                maskRepeat: 'no-repeat',
-                WebkitMaskImage: `url(${whiteSplat})`,
-                WebkitMaskSize: 'contain',
-                WebkitMaskPosition: 'center',
-                WebkitMaskRepeat: 'no-repeat',
-                border: '2px solid rgba(255,255,255,0.06)',
-                color: '#121c29ff',
-                cursor: 'pointer',
-                fontSize: 16,
-                fontWeight: 700,
-                padding: 8,
-                boxSizing: 'border-box',
-                textAlign: 'center',
-                boxShadow: '0 6px 18px rgba(0,0,0,0.4)',
-                transition: 'transform 120ms ease, box-shadow 120ms ease',
-              }}
-              onMouseDown={(e) => (e.currentTarget.style.transform = 'scale(0.98)')}
-              onMouseUp={(e) => (e.currentTarget.style.transform = 'scale(1)')}
-              onMouseLeave={(e) => (e.currentTarget.style.transform = 'scale(1)')}
-              aria-label={`Start ${lvl.name}`}
-            >
-              {(() => {
-                const { textColor, textShadow } = readableTextAndShadow(lvl.color);
-                return (
-                  <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
-                    <div style={{ fontSize: 16, color: textColor, textShadow }}>
-                      {lvl.shortName}
-                    </div>
-                  </div>
-                );
-              })()}
-            </button>
+            <LevelButton key={lvl.id} level={lvl} onSelect={onSelect} />
           ))}
         </div>
 
+        <h2 style={{ marginTop: 24, marginBottom: 8 }}>Level packs</h2>
+        <p style={{ marginTop: 0, opacity: 0.9 }}>
+          Packs are level files shared by other players; they stay in this browser once loaded.
+        </p>
+        <label style={{ display: 'block', marginBottom: 12 }}>
+          Load pack{' '}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(e) => {
+              onLoadPack(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {packError && <p style={{ color: '#f87171' }}>{packError}</p>}
+        {packs.map((pack) => {
+          const levels = installedPackLevels(pack.id);
+          const cleared = new Set(pack.cleared);
+          return (
+            <section key={pack.id} style={{ marginBottom: 16 }}>
+              <div style={{ display: 'flex', gap: 8, alignItems: 'baseline', flexWrap: 'wrap' }}>
+                <strong>{pack.manifest.name}</strong>
+                <span style={{ opacity: 0.8 }}>
+                  by {pack.manifest.author} · v{pack.manifest.version} · {cleared.size}/
+                  {pack.levels.length} cleared
+                </span>
+                <button
+                  onClick={() => downloadJson(`${pack.id}.json`, exportPack(pack))}
+                  aria-label={`Export ${pack.manifest.name}`}
+                >
+                  Export
+                </button>
+                <button
+                  onClick={() => onRemovePack(pack)}
+                  aria-label={`Remove ${pack.manifest.name}`}
+                >
+                  Remove
+                </button>
+              </div>
+              {levels.length === 0 ? (
+                <p style={{ color: '#f87171' }}>This pack's levels no longer load.</p>
+              ) : (
+                <div role="list" style={{ ...gridStyle, marginTop: 8 }}>
+                  {levels.map((lvl) => (
+                    <LevelButton
+                      key={lvl.id}
+                      level={lvl}
+                      onSelect={onSelect}
+                      cleared={cleared.has(splitPackLevelId(lvl.id)?.levelId ?? '')}
+                    />
+                  ))}
+                </div>
+              )}
+            </section>
+          );
+        })}
+
         <div style={{ marginTop: 16 }}>
           <button onClick={() => navigate(-1)}>Back</button>
         </div>
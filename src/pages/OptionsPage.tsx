@@ -1,6 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Footer from '../components/Footer';
+import {
+  TIME_ATTACK_MINUTES_KEY,
+  TIME_ATTACK_MINUTE_CHOICES,
+  loadTimeAttackMinutes,
+} from '../lib/timeAttack';
+import { SHOW_NO_MOVES_KEY, loadShowNoMoves } from '../lib/hints';
 
 const OptionsPage: React.FC = () => {
   const navigate = useNavigate();
@@ -12,6 +18,8 @@ const OptionsPage: React.FC = () => {
     const v = typeof window !== 'undefined' ? localStorage.getItem('sfxVolume') : null;
     return v !== null ? Math.max(0, Math.min(1, Number(v))) : 1.0;
   });
+  const [timeAttackMinutes, setTimeAttackMinutes] = useState<number>(loadTimeAttackMinutes);
+  const [showNoMoves, setShowNoMoves] = useState<boolean>(loadShowNoMoves);
 
   useEffect(() => {
     try {
@@ -41,6 +49,24 @@ const OptionsPage: React.FC = () => {
     }
   }, [sfx]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem(TIME_ATTACK_MINUTES_KEY, String(timeAttackMinutes));
+    } catch (e) {
+      void e;
+      // ignore storage errors (e.g., private mode)
+    }
+  }, [timeAttackMinutes]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(SHOW_NO_MOVES_KEY, showNoMoves ? '1' : '0');
+    } catch (e) {
+      void e;
+      // ignore storage errors (e.g., private mode)
+    }
+  }, [showNoMoves]);
+
   return (
     <div
       style={{
@@ -85,6 +111,30 @@ const OptionsPage: React.FC = () => {
           />
         </label>
 
+        <label style={{ display: 'block', marginBottom: 12 }}>
+          Time Attack Length:{' '}
+          <select
+            value={timeAttackMinutes}
+            onChange={(e) => setTimeAttackMinutes(Number(e.target.value))}
+          >
+            {TIME_ATTACK_MINUTE_CHOICES.map((m) => (
+              <option key={m} value={m}>
+                {m} {m === 1 ? 'minute' : 'minutes'}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label style={{ display: 'block', marginBottom: 12 }}>
+          <input
+            type="checkbox"
+            checked={showNoMoves}
+            onChange={(e) => setShowNoMoves(e.target.checked)}
+            style={{ marginRight: 8 }}
+          />
+          Show &quot;No moves available&quot; when no swap makes a match (H shows a hint)
+        </label>
+
         <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
           <button onClick={() => navigate(-1)}>Back</button>
         </div>
@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import Footer from '../components/Footer';
+import { drawStateToCanvas, type Skin } from '../renderer/canvasRenderer';
+import { buildFgSkin } from '../lib/graphics';
+import { loadGemsAtlas } from '../atlas';
+import tilesGemsPng from '../assets/sprites/gems.png';
+import tilesGemsXmlUrl from '../assets/sprites/gems.xml?url';
+import useCanvasGestures, { type GestureApi } from '../hooks/useCanvasGestures';
+import {
+  createPuzzleSession,
+  markPuzzleSolved,
+  type PuzzleSession,
+  type PuzzleStatus,
+} from '../lib/puzzle';
+import { getNextLevelId } from '../levels/utils';
+import PUZZLES from '../puzzles';
+import type { PuzzleGoal } from '../puzzles/types';
+
+const CELL = 48;
+
+function goalText(goal: PuzzleGoal) {
+  return goal.type === 'clear' ? 'Clear every gem' : `Set off a ${goal.length}-chain`;
+}
+
+const PuzzlePage: React.FC = () => {
+  const navigate = useNavigate();
+  const { id } = useParams();
+  const puzzle = PUZZLES.find((p) => p.id === id) ?? null;
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fgSkinRef = useRef<Skin | undefined>(undefined);
+  const sessionRef = useRef<PuzzleSession | null>(null);
+  const [status, setStatus] = useState<PuzzleStatus>('playing');
+  const [swapsLeft, setSwapsLeft] = useState(puzzle?.swaps ?? 0);
+
+  // Load the gem atlas once so puzzles look like the live game
+  useEffect(() => {
+    loadGemsAtlas(tilesGemsPng, tilesGemsXmlUrl, { w: 128, h: 128 })
+      .then((atlas) => {
+        fgSkinRef.current = buildFgSkin(atlas);
+      })
+      .catch(() => {
+        fgSkinRef.current = undefined;
+      });
+  }, []);
+
+  // A fresh session per puzzle (the route changes on "Next puzzle")
+  useEffect(() => {
+    sessionRef.current = puzzle ? createPuzzleSession(puzzle, CELL) : null;
+    setStatus('playing');
+    setSwapsLeft(puzzle?.swaps ?? 0);
+  }, [puzzle]);
+
+  useEffect(() => {
+    if (puzzle && status === 'solved') markPuzzleSolved(puzzle.id);
+  }, [puzzle, status]);
+
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const loop = () => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+      const session = sessionRef.current;
+      const canvas = canvasRef.current;
+      if (session && canvas) {
+        session.advance(dt);
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          try {
+            drawStateToCanvas(
+              ctx,
+              session.getEngine().getState(),
+              CELL,
+              dt,
+              0,
+              undefined,
+              fgSkinRef.current,
+            );
+          } catch {
+            /* ignore */
+          }
+        }
+        setStatus(session.status());
+        setSwapsLeft(session.swapsLeft());
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  const undo = () => sessionRef.current?.undo();
+  const retry = () => sessionRef.current?.retry();
+
+  // Arrows move the cursor, Space/Z swaps, Backspace/U undoes, R retries
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const session = sessionRef.current;
+      if (!session) return;
+      const engine = session.getEngine();
+      const moves: Record<string, [number, number]> = {
+        ArrowLeft: [-1, 0],
+        ArrowRight: [1, 0],
+        ArrowUp: [0, -1],
+        ArrowDown: [0, 1],
+      };
+      const move = moves[e.key];
+      if (move) engine.moveCursor(move[0], move[1]);
+      else if (e.key === ' ' || e.key === 'z' || e.key === 'Z') {
+        session.swapAt(engine.cursorX, engine.cursorY);
+      } else if (e.key === 'Backspace' || e.key === 'u' || e.key === 'U') session.undo();
+      else if (e.key === 'r' || e.key === 'R') session.retry();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const gestureApiRef = useRef<GestureApi | null>(null);
+  if (!gestureApiRef.current) {
+    gestureApiRef.current = {
+      screenToCell: (pt) => {
+        const canvas = canvasRef.current;
+        const engine = sessionRef.current?.getEngine();
+        if (!canvas || !engine) return null;
+        const rect = canvas.getBoundingClientRect();
+        const cssCell = rect.width / engine.width;
+        const round = (v: number, max: number) => Math.max(0, Math.min(max - 1, Math.round(v)));
+        return {
+          col: round((pt.x - rect.left) / cssCell, engine.width),
+          row: round((pt.y - rect.top) / cssCell, engine.height),
+        };
+      },
+      moveCursorToCell: (col, row) => sessionRef.current?.getEngine().setCursorAbsolute(col, row),
+      swapWithNeighbor: (col, row, dir) =>
+        sessionRef.current?.swapAt(dir === 'right' ? col : Math.max(0, col - 1), row),
+      // the animation loop redraws every frame
+      drawFrame: () => {},
+      twoFingerTap: () => sessionRef.current?.undo(),
+    };
+  }
+  useCanvasGestures(canvasRef, gestureApiRef.current);
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 664, maxWidth: '90vw', textAlign: 'left' }}>
+        {!puzzle ? (
+          <>
+            <h1 style={{ marginBottom: 8 }}>Puzzle not found</h1>
+            <button onClick={() => navigate('/puzzles')}>All puzzles</button>
+          </>
+        ) : (
+          <>
+            <h1 style={{ marginBottom: 8 }}>
+              Puzzle {puzzle.shortName}: {puzzle.name}
+            </h1>
+            <p style={{ marginTop: 0, opacity: 0.9 }}>
+              {goalText(puzzle.goal)} • Swaps left <strong>{swapsLeft}</strong>
+              {status === 'solved' && <strong style={{ color: '#4ade80' }}> • Solved!</strong>}
+              {status === 'failed' && (
+                <strong style={{ color: '#f87171' }}> • Out of swaps — undo or retry</strong>
+              )}
+            </p>
+
+            <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+              <canvas
+                ref={canvasRef}
+                width={puzzle.width * CELL}
+                height={puzzle.height * CELL}
+                style={{
+                  border: '2px solid #888',
+                  borderRadius: 8,
+                  backgroundColor: '#0f0f12',
+                  touchAction: 'none',
+                }}
+              />
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 8, minWidth: 200 }}>
+                <button disabled={status === 'solved'} onClick={undo}>
+                  Undo swap
+                </button>
+                <button onClick={retry}>Retry</button>
+                {status === 'solved' && (
+                  <button
+                    onClick={() => navigate(`/puzzles/${getNextLevelId(PUZZLES, puzzle.id)}`)}
+                  >
+                    Next puzzle
+                  </button>
+                )}
+                <p style={{ margin: 0, fontSize: 13, opacity: 0.8 }}>
+                  Arrows and Space, or drag gems sideways. Backspace undoes, R retries.
+                </p>
+              </div>
+            </div>
+          </>
+        )}
+
+        <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+          <button onClick={() => navigate('/puzzles')}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default PuzzlePage;
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import PUZZLES from '../puzzles';
+import { loadSolvedPuzzles } from '../lib/puzzle';
+import whiteSplat from '../assets/sprites/white-splat.png?url';
+import Footer from '../components/Footer';
+
+const circleSize = 96;
+const SOLVED_COLOR = '#4ade80';
+const UNSOLVED_COLOR = '#94a3b8';
+
+const PuzzleSelectPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [solved] = useState(() => loadSolvedPuzzles());
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 800, maxWidth: '96vw' }}>
+        <h1 style={{ marginBottom: 8 }}>Puzzles</h1>
+
+        <p style={{ marginTop: 0, marginBottom: 12, opacity: 0.9 }}>
+          No rising stack and no clock: reach the goal within the swaps you're given. Solved{' '}
+          {PUZZLES.filter((p) => solved.has(p.id)).length} of {PUZZLES.length}.
+        </p>
+
+        <div
+          role="list"
+          style={{
+            display: 'grid',
+            gridTemplateColumns: `repeat(auto-fill, minmax(${circleSize}px, ${circleSize}px))`,
+            gap: 12,
+            alignItems: 'start',
+            justifyContent: 'start',
+          }}
+        >
+          {PUZZLES.map((p) => {
+            const done = solved.has(p.id);
+            return (
+              <button
+                key={p.id}
+                role="listitem"
+                onClick={() => navigate(`/puzzles/${p.id}`)}
+                title={p.name}
+                style={{
+                  height: circleSize,
+                  minHeight: circleSize,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  backgroundColor: done ? SOLVED_COLOR : UNSOLVED_COLOR,
+                  maskImage: `url(${whiteSplat})`,
+                  maskSize: 'contain',
+                  maskPosition: 'center',
+                  maskRepeat: 'no-repeat',
+                  WebkitMaskImage: `url(${whiteSplat})`,
+                  WebkitMaskSize: 'contain',
+                  WebkitMaskPosition: 'center',
+                  WebkitMaskRepeat: 'no-repeat',
+                  border: '2px solid rgba(255,255,255,0.06)',
+                  color: '#121c29ff',
+                  cursor: 'pointer',
+                  fontSize: 16,
+                  fontWeight: 700,
+                  padding: 8,
+                  boxSizing: 'border-box',
+                  textAlign: 'center',
+                }}
+                aria-label={`${p.name}${done ? ' (solved)' : ''}`}
+              >
+                <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                  <div>{p.shortName}</div>
+                  {done && <div style={{ fontSize: 12 }}>✓</div>}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div style={{ marginTop: 16 }}>
+          <button onClick={() => navigate(-1)}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleSelectPage;
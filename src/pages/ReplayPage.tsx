@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Footer from '../components/Footer';
+import { drawStateToCanvas, type Skin } from '../renderer/canvasRenderer';
+import { buildFgSkin } from '../lib/graphics';
+import { loadGemsAtlas } from '../atlas';
+import tilesGemsPng from '../assets/sprites/gems.png';
+import tilesGemsXmlUrl from '../assets/sprites/gems.xml?url';
+import {
+  createReplayPlayer,
+  LAST_REPLAY_KEY,
+  parseReplay,
+  type Replay,
+  type ReplayPlayer,
+} from '../lib/replay';
+import { findLevel } from '../levels/packs';
+
+const CELL = 40;
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+function readLastReplay(): Replay | null {
+  try {
+    const raw = localStorage.getItem(LAST_REPLAY_KEY);
+    return raw ? parseReplay(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+const ReplayPage: React.FC = () => {
+  const navigate = useNavigate();
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  const fgSkinRef = useRef<Skin | undefined>(undefined);
+  const [replay, setReplay] = useState<Replay | null>(() => readLastReplay());
+  const [error, setError] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [tick, setTick] = useState(0);
+  const [score, setScore] = useState(0);
+  const playingRef = useRef(playing);
+  const speedRef = useRef(speed);
+
+  useEffect(() => {
+    playingRef.current = playing;
+  }, [playing]);
+  useEffect(() => {
+    speedRef.current = speed;
+  }, [speed]);
+
+  // Load the gem atlas once so playback looks like the live game
+  useEffect(() => {
+    loadGemsAtlas(tilesGemsPng, tilesGemsXmlUrl, { w: 128, h: 128 })
+      .then((atlas) => {
+        fgSkinRef.current = buildFgSkin(atlas);
+      })
+      .catch(() => {
+        fgSkinRef.current = undefined;
+      });
+  }, []);
+
+  // Build a fresh player whenever a new replay is loaded
+  useEffect(() => {
+    playerRef.current = replay ? createReplayPlayer(replay) : null;
+    setTick(0);
+    setScore(0);
+    setPlaying(false);
+  }, [replay]);
+
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const loop = () => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+      const player = playerRef.current;
+      const canvas = canvasRef.current;
+      if (player && canvas) {
+        if (playingRef.current) {
+          player.advance(dt * speedRef.current);
+          if (player.isDone()) setPlaying(false);
+        }
+        const engine = player.getEngine();
+        const s = engine.getState(player.getAlpha());
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+          // The engine scrolls in its own cell size; scale to the preview's cells
+          const scale = CELL / engine.cellSize;
+          try {
+            drawStateToCanvas(
+              ctx,
+              s,
+              CELL,
+              dt,
+              (s.scrollOffsetPx ?? 0) * scale,
+              undefined,
+              fgSkinRef.current,
+            );
+          } catch {
+            /* ignore */
+          }
+        }
+        setTick(player.getTick());
+        setScore(s.score);
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setReplay(parseReplay(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read replay');
+    }
+  };
+
+  const onDownload = () => {
+    if (!replay) return;
+    try {
+      const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `csts-replay-${replay.levelId}-${replay.seed}.json`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      /* ignore */
+    }
+  };
+
+  const total = playerRef.current?.totalTicks ?? 0;
+  const levelName = replay ? findLevel(replay.levelId)?.name ?? replay.levelId : '';
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 664, maxWidth: '90vw', textAlign: 'left' }}>
+        <h1 style={{ marginBottom: 8 }}>Replay</h1>
+
+        {error && <p style={{ color: '#f87171' }}>{error}</p>}
+        {!replay ? (
+          <p style={{ opacity: 0.9 }}>No replay loaded. Finish a level or load a replay file.</p>
+        ) : (
+          <p style={{ marginTop: 0, opacity: 0.9 }}>
+            {levelName} • Seed <strong>{replay.seed}</strong> • Score <strong>{score}</strong>
+            {replay.rewindDepth ? ' • Practice' : ''}
+          </p>
+        )}
+
+        <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <canvas
+            ref={canvasRef}
+            width={(replay?.width ?? 6) * CELL}
+            height={(replay?.height ?? 12) * CELL}
+            style={{ border: '2px solid #888', borderRadius: 8, backgroundColor: '#0f0f12' }}
+          />
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 8, minWidth: 200 }}>
+            <button disabled={!replay} onClick={() => setPlaying((p) => !p)}>
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            <label>
+              Speed:{' '}
+              <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))}>
+                {SPEEDS.map((v) => (
+                  <option key={v} value={v}>
+                    {v}x
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: 'block' }}>
+              Tick {tick} / {total}
+              <input
+                type="range"
+                min={0}
+                max={total}
+                value={tick}
+                disabled={!replay}
+                onChange={(e) => playerRef.current?.seek(Number(e.target.value))}
+                style={{ width: '100%', marginTop: 6 }}
+              />
+            </label>
+            <button disabled={!replay} onClick={onDownload}>
+              Download replay
+            </button>
+            <label>
+              Load replay file
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => onFile(e.target.files?.[0])}
+                style={{ display: 'block', marginTop: 6 }}
+              />
+            </label>
+          </div>
+        </div>
+
+        <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+          <button onClick={() => navigate(-1)}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default ReplayPage;
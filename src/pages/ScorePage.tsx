@@ -1,7 +1,9 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import LEVELS from '../levels';
+import { findLevel } from '../levels/packs';
 import Footer from '../components/Footer';
+import { loadEndlessScores } from '../lib/endless';
+import { loadTimeAttackMinutes, timeAttackScores } from '../lib/timeAttack';
 
 const ScorePage: React.FC = () => {
   const navigate = useNavigate();
@@ -18,6 +20,10 @@ const ScorePage: React.FC = () => {
   }
 
   const total = scores.reduce((s, p) => s + (p?.score ?? 0), 0);
+  const endlessScores = loadEndlessScores();
+  // Only the table for the clock length currently picked in Options
+  const timeAttackMinutes = loadTimeAttackMinutes();
+  const timeAttackTable = timeAttackScores(timeAttackMinutes).load();
 
   return (
     <div
@@ -43,7 +49,7 @@ const ScorePage: React.FC = () => {
           <div>
             <ul>
               {scores.map((s, i) => {
-                const lvl = LEVELS.find((l) => l.id === s.levelId);
+                const lvl = findLevel(s.levelId);
                 const label = lvl ? lvl.name : s.levelId;
                 return (
                   <li key={i}>
@@ -58,6 +64,33 @@ const ScorePage: React.FC = () => {
           </div>
         )}
 
+        <h2 style={{ marginBottom: 8 }}>Endless Top 10</h2>
+        {endlessScores.length === 0 ? (
+          <p style={{ opacity: 0.9 }}>No endless runs yet.</p>
+        ) : (
+          <ol>
+            {endlessScores.map((s, i) => (
+              <li key={i}>
+                <strong>{s.score}</strong> • {s.lines} lines • {new Date(s.at).toLocaleDateString()}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <h2 style={{ marginBottom: 8 }}>Time Attack Top 10 ({timeAttackMinutes} min)</h2>
+        {timeAttackTable.length === 0 ? (
+          <p style={{ opacity: 0.9 }}>No time attack runs yet.</p>
+        ) : (
+          <ol>
+            {timeAttackTable.map((s, i) => (
+              <li key={i}>
+                <strong>{s.score}</strong> • max chain x{Math.max(1, s.maxChain)} • largest combo{' '}
+                {s.largestCombo} • {new Date(s.at).toLocaleDateString()}
+              </li>
+            ))}
+          </ol>
+        )}
+
         <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
           <button onClick={() => navigate(-1)}>Back</button>
         </div>
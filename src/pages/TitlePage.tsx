@@ -1,10 +1,13 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import titleBackground from '../assets/background/csts-title.png';
 import Footer from '../components/Footer';
+import { hasSavedRun } from '../lib/savedRun';
 
 const TitlePage: React.FC = () => {
   const nav = useNavigate();
+  // A level left mid-run (or evicted with the tab) can be continued
+  const [canResume] = useState(() => hasSavedRun());
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
@@ -73,11 +76,23 @@ const TitlePage: React.FC = () => {
           >
             Start
           </button>
+          {canResume && (
+            <button onClick={() => nav('/play', { state: { resume: true } })}>Resume level</button>
+          )}
           <button onClick={() => nav('/levels')} aria-label="Select level">
             Levels
           </button>
+          <button onClick={() => nav('/play', { state: { mode: 'endless' } })}>Endless</button>
+          <button onClick={() => nav('/play', { state: { mode: 'timeAttack' } })}>
+            Time Attack
+          </button>
+          <button onClick={() => nav('/puzzles')}>Puzzles</button>
+          <button onClick={() => nav('/versus')}>Versus CPU</button>
+          <button onClick={() => nav('/two-player')}>2 Players</button>
           <button onClick={() => nav('/options')}>Options</button>
           <button onClick={() => nav('/scores')}>Scores</button>
+          <button onClick={() => nav('/replay')}>Replay</button>
+          <button onClick={() => nav('/editor')}>Level Editor</button>
         </div>
       </div>
       <Footer />
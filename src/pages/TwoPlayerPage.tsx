@@ -0,0 +1,348 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Footer from '../components/Footer';
+import { drawBoardToCanvas, type Skin } from '../renderer/canvasRenderer';
+import { buildFgSkin } from '../lib/graphics';
+import { loadGemsAtlas } from '../atlas';
+import tilesGemsPng from '../assets/sprites/gems.png';
+import tilesGemsXmlUrl from '../assets/sprites/gems.xml?url';
+import { randomSeed } from '../game-core/rng';
+import type { Engine } from '../game-core/engine';
+import { createVersusMatch, type VersusMatch, type VersusResult } from '../lib/versus';
+import {
+  PLAYER_ACTIONS,
+  createPlayerControls,
+  type PlayerAction,
+  type PlayerControls,
+} from '../lib/playerControls';
+import {
+  PAUSE_KEY,
+  actionForKey,
+  keyLabel,
+  loadKeyMaps,
+  rebindKey,
+  saveKeyMaps,
+  type KeyMaps,
+} from '../lib/keyMaps';
+import { connectedPads, createPadTracker, type PadTracker } from '../lib/gamepad';
+
+const CELL = 40;
+
+const ACTION_NAMES: Record<PlayerAction, string> = {
+  left: 'Left',
+  right: 'Right',
+  up: 'Up',
+  down: 'Down',
+  swap: 'Swap',
+  raise: 'Raise (hold)',
+};
+
+type Side = 0 | 1;
+
+// Rows of the match-result table
+const RESULT_STATS: [string, (e: Engine) => React.ReactNode][] = [
+  ['Score', (e) => e.score],
+  ['Max chain', (e) => `x${Math.max(1, e.maxChain)}`],
+  ['Largest combo', (e) => e.largestCombo],
+];
+
+const TwoPlayerPage: React.FC = () => {
+  const navigate = useNavigate();
+  const p1CanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const p2CanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fgSkinRef = useRef<Skin | undefined>(undefined);
+  const matchRef = useRef<VersusMatch | null>(null);
+  const controlsRef = useRef<PlayerControls[]>([]);
+  const padTrackersRef = useRef<PadTracker[]>([createPadTracker(), createPadTracker()]);
+  const [keyMaps, setKeyMaps] = useState<KeyMaps>(loadKeyMaps);
+  const keyMapsRef = useRef(keyMaps);
+  // the action waiting for a key press on the controls table
+  const [rebinding, setRebinding] = useState<{ player: Side; action: PlayerAction } | null>(null);
+  const rebindingRef = useRef(rebinding);
+  const [result, setResult] = useState<VersusResult>('playing');
+  const [paused, setPaused] = useState(false);
+  // per side: score, and garbage slabs waiting to drop
+  const [scores, setScores] = useState([0, 0]);
+  const [incoming, setIncoming] = useState([0, 0]);
+  const [padCount, setPadCount] = useState(0);
+
+  useEffect(() => {
+    keyMapsRef.current = keyMaps;
+    saveKeyMaps(keyMaps);
+  }, [keyMaps]);
+
+  useEffect(() => {
+    rebindingRef.current = rebinding;
+  }, [rebinding]);
+
+  const startMatch = useCallback(() => {
+    const match = createVersusMatch(randomSeed(), { cellSize: CELL });
+    matchRef.current = match;
+    controlsRef.current = [
+      createPlayerControls(match.player),
+      createPlayerControls(match.opponent),
+    ];
+    setResult('playing');
+    setPaused(false);
+  }, []);
+
+  // One pause for both boards
+  const togglePause = useCallback(() => {
+    const match = matchRef.current;
+    if (!match || match.result() !== 'playing') return;
+    const next = !match.player.paused;
+    match.setPaused(next);
+    setPaused(next);
+  }, []);
+
+  useEffect(() => startMatch(), [startMatch]);
+
+  // Load the gem atlas once so both boards look like the live game
+  useEffect(() => {
+    loadGemsAtlas(tilesGemsPng, tilesGemsXmlUrl, { w: 128, h: 128 })
+      .then((atlas) => {
+        fgSkinRef.current = buildFgSkin(atlas);
+      })
+      .catch(() => {
+        fgSkinRef.current = undefined;
+      });
+  }, []);
+
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const loop = () => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+
+      // The first two pads play for player 1 and player 2
+      const pads = connectedPads();
+      setPadCount(pads.length);
+      padTrackersRef.current.forEach((tracker, side) => {
+        const { pressed, released } = tracker.update(pads[side] ?? null);
+        for (const input of pressed) {
+          if (input === 'pause') togglePause();
+          else controlsRef.current[side]?.press(input);
+        }
+        for (const input of released) {
+          if (input !== 'pause') controlsRef.current[side]?.release(input);
+        }
+      });
+
+      const match = matchRef.current;
+      if (match) {
+        match.advance(dt);
+        drawBoardToCanvas(
+          p1CanvasRef.current,
+          match.player.getState(),
+          CELL,
+          dt,
+          fgSkinRef.current,
+        );
+        drawBoardToCanvas(
+          p2CanvasRef.current,
+          match.opponent.getState(),
+          CELL,
+          0,
+          fgSkinRef.current,
+        );
+        setResult(match.result());
+        setScores((prev) =>
+          prev[0] === match.player.score && prev[1] === match.opponent.score
+            ? prev
+            : [match.player.score, match.opponent.score],
+        );
+        setIncoming((prev) => {
+          const next = [match.player.pendingGarbage.length, match.opponent.pendingGarbage.length];
+          return prev[0] === next[0] && prev[1] === next[1] ? prev : next;
+        });
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, [togglePause]);
+
+  // Each player's keys from their map; P pauses both boards, R starts a rematch
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const pending = rebindingRef.current;
+      if (pending) {
+        e.preventDefault();
+        if (e.code !== 'Escape') {
+          setKeyMaps((maps) => rebindKey(maps, pending.player, pending.action, e.code));
+        }
+        setRebinding(null);
+        return;
+      }
+      const bound = actionForKey(keyMapsRef.current, e.code);
+      if (bound) {
+        e.preventDefault();
+        // swaps and raise act once per press; moves follow key repeat
+        if (e.repeat && (bound.action === 'swap' || bound.action === 'raise')) return;
+        controlsRef.current[bound.player]?.press(bound.action);
+      } else if (e.code === PAUSE_KEY) togglePause();
+      else if (e.code === 'KeyR' && matchRef.current?.result() !== 'playing') startMatch();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const bound = actionForKey(keyMapsRef.current, e.code);
+      if (bound) controlsRef.current[bound.player]?.release(bound.action);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+    };
+  }, [startMatch, togglePause]);
+
+  const match = matchRef.current;
+  const canvasRefs = [p1CanvasRef, p2CanvasRef];
+  const winner = result === 'won' ? 1 : result === 'lost' ? 2 : null;
+
+  const boardStyle: React.CSSProperties = {
+    border: '2px solid #888',
+    borderRadius: 8,
+    backgroundColor: '#0f0f12',
+    filter: result !== 'playing' || paused ? 'blur(3px)' : 'none',
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 664, maxWidth: '96vw', textAlign: 'left' }}>
+        <h1 style={{ marginBottom: 8 }}>Two Players</h1>
+        <p style={{ marginTop: 0, opacity: 0.9 }}>
+          Chains and big combos drop garbage on the other board. The first stack to reach the top
+          loses. {keyLabel(PAUSE_KEY)} or Start pauses both boards.{' '}
+          {padCount > 0 && <span>Gamepads connected: {Math.min(2, padCount)}.</span>}
+          {result === 'playing' && paused && <strong> Paused</strong>}
+        </p>
+
+        <div style={{ position: 'relative' }}>
+          <div style={{ display: 'flex', gap: 24, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+            {([0, 1] as Side[]).map((side) => (
+              <div key={side}>
+                <div style={{ marginBottom: 4 }}>
+                  Player {side + 1} • {scores[side]}
+                  {incoming[side] > 0 && <span> • {incoming[side]} incoming</span>}
+                </div>
+                <canvas
+                  ref={canvasRefs[side]}
+                  width={6 * CELL}
+                  height={12 * CELL}
+                  style={boardStyle}
+                />
+              </div>
+            ))}
+          </div>
+
+          {winner && match && (
+            <div
+              style={{
+                position: 'absolute',
+                inset: 0,
+                display: 'flex',
+                flexDirection: 'column',
+                alignItems: 'center',
+                justifyContent: 'center',
+                background: 'rgba(11,11,14,0.6)',
+                borderRadius: 8,
+              }}
+            >
+              <div style={{ fontSize: 36, fontWeight: 800, color: '#4ade80' }}>
+                Player {winner} wins!
+              </div>
+              <table style={{ marginTop: 12, borderSpacing: '16px 4px' }}>
+                <thead>
+                  <tr>
+                    <th />
+                    <th>Player 1</th>
+                    <th>Player 2</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {RESULT_STATS.map(([label, stat]) => (
+                    <tr key={label}>
+                      <td>{label}</td>
+                      <td>{stat(match.player)}</td>
+                      <td>{stat(match.opponent)}</td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td>Garbage sent</td>
+                    <td>{match.garbageSent.player} rows</td>
+                    <td>{match.garbageSent.opponent} rows</td>
+                  </tr>
+                </tbody>
+              </table>
+              <div style={{ marginTop: 12, display: 'flex', gap: 8 }}>
+                <button onClick={startMatch}>Rematch (R)</button>
+                <button onClick={() => navigate('/')}>Return to Title</button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <h2 style={{ marginBottom: 8 }}>Controls</h2>
+        <p style={{ marginTop: 0, fontSize: 13, opacity: 0.8 }}>
+          Click a key to change it, then press the new key (Esc cancels). Gamepads use the D-pad or
+          left stick, A to swap and the right shoulder to raise.
+        </p>
+        <table style={{ borderSpacing: '12px 4px' }}>
+          <thead>
+            <tr>
+              <th />
+              <th>Player 1</th>
+              <th>Player 2</th>
+            </tr>
+          </thead>
+          <tbody>
+            {PLAYER_ACTIONS.map((action) => (
+              <tr key={action}>
+                <td>{ACTION_NAMES[action]}</td>
+                {([0, 1] as Side[]).map((side) => {
+                  const waiting = rebinding?.player === side && rebinding.action === action;
+                  return (
+                    <td key={side}>
+                      <button
+                        style={{ minWidth: 72 }}
+                        onClick={() => setRebinding({ player: side, action })}
+                      >
+                        {waiting ? 'Press a key…' : keyLabel(keyMaps[side][action])}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+          <button onClick={startMatch}>Rematch</button>
+          <button onClick={togglePause} disabled={result !== 'playing'}>
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={() => navigate('/')}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default TwoPlayerPage;
@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Footer from '../components/Footer';
+import { drawBoardToCanvas, type Skin } from '../renderer/canvasRenderer';
+import { buildFgSkin } from '../lib/graphics';
+import { loadGemsAtlas } from '../atlas';
+import tilesGemsPng from '../assets/sprites/gems.png';
+import tilesGemsXmlUrl from '../assets/sprites/gems.xml?url';
+import useCanvasGestures, { type GestureApi } from '../hooks/useCanvasGestures';
+import { randomSeed } from '../game-core/rng';
+import { CPU_DIFFICULTIES, CPU_LEVELS, type CpuLevel } from '../lib/cpu';
+import { createVersusMatch, type VersusMatch, type VersusResult } from '../lib/versus';
+
+const CELL = 40;
+// localStorage key for the last CPU difficulty picked
+const CPU_LEVEL_KEY = 'versusCpuLevel';
+
+const LEVEL_NAMES: Record<CpuLevel, string> = { easy: 'Easy', normal: 'Normal', hard: 'Hard' };
+
+function loadCpuLevel(): CpuLevel {
+  try {
+    const v = localStorage.getItem(CPU_LEVEL_KEY);
+    return CPU_LEVELS.find((l) => l === v) ?? 'normal';
+  } catch {
+    return 'normal';
+  }
+}
+
+const VersusPage: React.FC = () => {
+  const navigate = useNavigate();
+  const playerCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const cpuCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const fgSkinRef = useRef<Skin | undefined>(undefined);
+  const matchRef = useRef<VersusMatch | null>(null);
+  const [cpuLevel, setCpuLevel] = useState<CpuLevel>(loadCpuLevel);
+  const [result, setResult] = useState<VersusResult>('playing');
+  const [paused, setPaused] = useState(false);
+  // garbage slabs waiting to drop on each side
+  const [incoming, setIncoming] = useState({ player: 0, cpu: 0 });
+
+  const startMatch = useCallback(() => {
+    matchRef.current = createVersusMatch(randomSeed(), {
+      cpu: CPU_DIFFICULTIES[cpuLevel],
+      cellSize: CELL,
+    });
+    setResult('playing');
+    setPaused(false);
+  }, [cpuLevel]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(CPU_LEVEL_KEY, cpuLevel);
+    } catch {
+      /* ignore */
+    }
+    startMatch();
+  }, [cpuLevel, startMatch]);
+
+  // Load the gem atlas once so both boards look like the live game
+  useEffect(() => {
+    loadGemsAtlas(tilesGemsPng, tilesGemsXmlUrl, { w: 128, h: 128 })
+      .then((atlas) => {
+        fgSkinRef.current = buildFgSkin(atlas);
+      })
+      .catch(() => {
+        fgSkinRef.current = undefined;
+      });
+  }, []);
+
+  useEffect(() => {
+    let raf = 0;
+    let last = performance.now();
+    const loop = () => {
+      const now = performance.now();
+      const dt = now - last;
+      last = now;
+      const match = matchRef.current;
+      if (match) {
+        match.advance(dt);
+        drawBoardToCanvas(
+          playerCanvasRef.current,
+          match.player.getState(),
+          CELL,
+          dt,
+          fgSkinRef.current,
+        );
+        drawBoardToCanvas(
+          cpuCanvasRef.current,
+          match.opponent.getState(),
+          CELL,
+          0,
+          fgSkinRef.current,
+        );
+        setResult(match.result());
+        setIncoming({
+          player: match.player.pendingGarbage.length,
+          cpu: match.opponent.pendingGarbage.length,
+        });
+      }
+      raf = requestAnimationFrame(loop);
+    };
+    raf = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(raf);
+  }, []);
+
+  const togglePause = useCallback(() => {
+    const match = matchRef.current;
+    if (!match || match.result() !== 'playing') return;
+    const next = !match.player.paused;
+    match.setPaused(next);
+    setPaused(next);
+  }, []);
+
+  // Arrows move the cursor, Space/Z swaps, P pauses, R starts a rematch
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const match = matchRef.current;
+      if (!match) return;
+      const player = match.player;
+      const moves: Record<string, [number, number]> = {
+        ArrowLeft: [-1, 0],
+        ArrowRight: [1, 0],
+        ArrowUp: [0, -1],
+        ArrowDown: [0, 1],
+      };
+      const move = moves[e.key];
+      if (move) player.moveCursor(move[0], move[1]);
+      else if (e.key === ' ' || e.key === 'z' || e.key === 'Z') player.swap();
+      else if (e.key === 'p' || e.key === 'P') togglePause();
+      else if (e.key === 'r' || e.key === 'R') startMatch();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [startMatch, togglePause]);
+
+  const gestureApiRef = useRef<GestureApi | null>(null);
+  if (!gestureApiRef.current) {
+    gestureApiRef.current = {
+      screenToCell: (pt) => {
+        const canvas = playerCanvasRef.current;
+        const engine = matchRef.current?.player;
+        if (!canvas || !engine) return null;
+        const rect = canvas.getBoundingClientRect();
+        const cssCell = rect.width / engine.width;
+        const round = (v: number, max: number) => Math.max(0, Math.min(max - 1, Math.round(v)));
+        return {
+          col: round((pt.x - rect.left) / cssCell, engine.width),
+          // the stack is drawn shifted up by the rise offset
+          row: round(
+            (pt.y - rect.top) / cssCell + engine.scrollOffsetPx / engine.cellSize,
+            engine.height,
+          ),
+        };
+      },
+      moveCursorToCell: (col, row) => matchRef.current?.player.setCursorAbsolute(col, row),
+      swapWithNeighbor: (col, row, dir) =>
+        matchRef.current?.player.swapAt(dir === 'right' ? col : Math.max(0, col - 1), row),
+      // the animation loop redraws every frame
+      drawFrame: () => {},
+    };
+  }
+  useCanvasGestures(playerCanvasRef, gestureApiRef.current);
+
+  const boardStyle: React.CSSProperties = {
+    border: '2px solid #888',
+    borderRadius: 8,
+    backgroundColor: '#0f0f12',
+    touchAction: 'none',
+    filter: result !== 'playing' || paused ? 'blur(3px)' : 'none',
+  };
+
+  return (
+    <div
+      style={{
+        minHeight: '100vh',
+        width: '100vw',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        background: '#0b0b0e',
+        color: '#cbd5e1',
+        fontFamily: 'ui-sans-serif, system-ui',
+        padding: 16,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ width: 664, maxWidth: '96vw', textAlign: 'left' }}>
+        <h1 style={{ marginBottom: 8 }}>Versus CPU</h1>
+        <p style={{ marginTop: 0, opacity: 0.9 }}>
+          Chains and big combos drop garbage on the other board. The first stack to reach the top
+          loses. {result === 'won' && <strong style={{ color: '#4ade80' }}>You win!</strong>}
+          {result === 'lost' && <strong style={{ color: '#f87171' }}>The CPU wins.</strong>}
+          {result === 'playing' && paused && <strong>Paused</strong>}
+        </p>
+
+        <label style={{ display: 'block', marginBottom: 12 }}>
+          CPU:{' '}
+          <select value={cpuLevel} onChange={(e) => setCpuLevel(e.target.value as CpuLevel)}>
+            {CPU_LEVELS.map((l) => (
+              <option key={l} value={l}>
+                {LEVEL_NAMES[l]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div style={{ display: 'flex', gap: 24, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <div>
+            <div style={{ marginBottom: 4 }}>
+              You {incoming.player > 0 && <span>• {incoming.player} incoming</span>}
+            </div>
+            <canvas ref={playerCanvasRef} width={6 * CELL} height={12 * CELL} style={boardStyle} />
+          </div>
+          <div>
+            <div style={{ marginBottom: 4 }}>
+              CPU ({LEVEL_NAMES[cpuLevel]}){' '}
+              {incoming.cpu > 0 && <span>• {incoming.cpu} incoming</span>}
+            </div>
+            <canvas ref={cpuCanvasRef} width={6 * CELL} height={12 * CELL} style={boardStyle} />
+          </div>
+        </div>
+
+        <p style={{ fontSize: 13, opacity: 0.8 }}>
+          Arrows and Space, or drag gems sideways. P pauses, R starts a rematch.
+        </p>
+        <div style={{ marginTop: 16, display: 'flex', gap: 8 }}>
+          <button onClick={startMatch}>Rematch</button>
+          <button onClick={togglePause} disabled={result !== 'playing'}>
+            {paused ? 'Resume' : 'Pause'}
+          </button>
+          <button onClick={() => navigate('/')}>Back</button>
+        </div>
+        <Footer />
+      </div>
+    </div>
+  );
+};
+
+export default VersusPage;
@@ -0,0 +1,4 @@
+import loadPuzzles from './loader';
+
+export const PUZZLES = loadPuzzles;
+export default PUZZLES;
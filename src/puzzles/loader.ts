@@ -0,0 +1,62 @@
+import { DEFAULT_BOARD, decodeRows } from '../levels/loader';
+import type { Puzzle, PuzzleGoal } from './types';
+import raw from './puzzles.json';
+
+// Puzzle pack format (puzzles.json): a list of puzzles like
+//
+//   { "id": "puzzle-1", "name": "First Swap", "shortName": "1",
+//     "swaps": 1, "goal": "clear", "board": ["00.0.."] }
+//
+// `goal` is "clear" (empty the board) or "chain" together with a "chain"
+// length. `board` uses the same row encoding as level boards (see
+// decodeRows). `width`, `height` and `numColors` are optional and default to
+// the regular board.
+type RawPuzzle = {
+  id: string;
+  name: string;
+  shortName: string;
+  width?: number;
+  height?: number;
+  numColors?: number;
+  swaps: number;
+  goal: 'clear' | 'chain';
+  chain?: number;
+  board: string[];
+};
+
+function decodeGoal(p: RawPuzzle): PuzzleGoal {
+  if (p.goal === 'clear') return { type: 'clear' };
+  if (p.goal === 'chain' && typeof p.chain === 'number' && p.chain >= 2) {
+    return { type: 'chain', length: p.chain };
+  }
+  throw new Error(`${p.id}: goal must be "clear" or "chain" with a chain length of 2 or more`);
+}
+
+export function parsePuzzles(rawPuzzles: RawPuzzle[]): Puzzle[] {
+  return rawPuzzles.map((p) => {
+    const width = p.width ?? DEFAULT_BOARD.width;
+    const height = p.height ?? DEFAULT_BOARD.height;
+    const numColors = p.numColors ?? DEFAULT_BOARD.numColors;
+    if (!(p.swaps >= 1)) throw new Error(`${p.id}: swaps must be at least 1`);
+    if (!Array.isArray(p.board) || p.board.length === 0 || p.board.length > height) {
+      throw new Error(`${p.id}: board needs between 1 and ${height} rows`);
+    }
+    return {
+      id: p.id,
+      name: p.name,
+      shortName: p.shortName,
+      width,
+      height,
+      numColors,
+      swaps: p.swaps,
+      goal: decodeGoal(p),
+      board: decodeRows(p.id, 'board', p.board, width, numColors),
+    };
+  });
+}
+
+export function loadPuzzles(): Puzzle[] {
+  return parsePuzzles(raw as RawPuzzle[]);
+}
+
+export default loadPuzzles();
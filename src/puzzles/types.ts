@@ -0,0 +1,22 @@
+import type { Cell } from '../game-core/engine';
+
+// What the player has to do within the swap limit
+export type PuzzleGoal =
+  // clear every gem off the board
+  | { type: 'clear' }
+  // set off a chain at least this long
+  | { type: 'chain'; length: number };
+
+export type Puzzle = {
+  id: string;
+  name: string;
+  shortName: string;
+  width: number;
+  height: number;
+  numColors: number;
+  // swaps allowed to reach the goal
+  swaps: number;
+  goal: PuzzleGoal;
+  // starting board, top to bottom, sitting on the bottom of the grid
+  board: Cell[][];
+};
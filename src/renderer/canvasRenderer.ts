@@ -1,17 +1,36 @@
 import type { GameState } from '../game-core/engine';
+import { gemColor, gemKind, isGarbage, type GemKind } from '../game-core/cell';
+import type { Mask } from '../mask';
 
-/** Minimal clean canvas renderer. Draws grid, falling pieces, particles,
- * dashed clear line, and a solid 6px white win line centered at winLineY.
+/** Minimal clean canvas renderer. Draws grid (gems, special gems and garbage
+ * slabs), falling pieces, particles, dashed clear line, and a solid 6px white
+ * win line centered at winLineY. Columns close to the top shake and flash.
  */
 export type SrcRect = { sx: number; sy: number; sw: number; sh: number };
 export type Skin = {
   image: HTMLImageElement | null;
   pickSrcForCell: (x: number, y: number) => SrcRect;
   pickSrcForColor?: (colorIndex: number, variant?: 'normal' | 'clear') => SrcRect;
+  // Dedicated frame for a special gem kind, if the atlas has one
+  pickSrcForKind?: (kind: GemKind) => SrcRect | undefined;
 };
 
 let blinkT = 0;
 const FADE_MS = 300;
+// Clearing tiles fade out over their last few ms (Engine.clearPopMs is 80)
+const CLEAR_POP_FADE_MS = 80;
+const GARBAGE_FILL = '#475569';
+const GARBAGE_EDGE = '#cbd5e1';
+const BOMB_RING = '#111827';
+const BOMB_FUSE = '#fbbf24';
+const LOCK_BARS = 'rgba(148,163,184,0.9)';
+const MASK_FILL = 'rgba(8,10,18,0.85)';
+const MASK_EDGE = 'rgba(226,232,240,0.7)';
+const MASK_WARNING = '#f87171';
+// Columns in danger (see Engine.columnDanger) shake by up to this share of a
+// cell and flash red from the top
+const DANGER_SHAKE = 0.05;
+const DANGER_FLASH = 'rgba(248,113,113,';
 
 function insetSrc(src: SrcRect, bleed = 0): SrcRect {
   if (!bleed) return src;
@@ -23,6 +42,46 @@ function insetSrc(src: SrcRect, bleed = 0): SrcRect {
   };
 }
 
+// Arena silhouette: everything above the mask's top edge, stretched over the
+// board like the engine's contact check. `warning` (0-1: share of the grace
+// period used up) pulses the edge red while the stack is touching it.
+function drawMask(
+  ctx: CanvasRenderingContext2D,
+  mask: Mask,
+  boardW: number,
+  boardH: number,
+  warning: number | null,
+) {
+  const sx = mask.width / boardW;
+  const sy = boardH / mask.height;
+  const tops: number[] = [];
+  for (let x = 0; x < boardW; x++) {
+    const top = mask.colTop[Math.floor(x * sx)] ?? -1;
+    tops.push(top < 0 ? -1 : top * sy);
+  }
+  ctx.save();
+  ctx.fillStyle = MASK_FILL;
+  for (let x = 0; x < boardW; x++) {
+    if (tops[x] > 0) ctx.fillRect(x, 0, 1, tops[x]);
+  }
+  ctx.strokeStyle = warning === null ? MASK_EDGE : MASK_WARNING;
+  ctx.lineWidth = warning === null ? 2 : 3;
+  if (warning !== null) ctx.globalAlpha = 0.6 + 0.4 * Math.abs(Math.sin(blinkT / 50 + warning * 6));
+  ctx.beginPath();
+  let drawing = false;
+  for (let x = 0; x < boardW; x++) {
+    if (tops[x] < 0) {
+      drawing = false;
+      continue;
+    }
+    if (drawing) ctx.lineTo(x + 0.5, tops[x]);
+    else ctx.moveTo(x + 0.5, tops[x]);
+    drawing = true;
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
 function drawGemCell(params: {
   ctx: CanvasRenderingContext2D;
   v: number;
@@ -57,18 +116,42 @@ function drawGemCell(params: {
   const dy = py + inset;
   const dw = cellSize - inset * 2;
 
-  if (fgSkin?.image && fgSkin.image.complete && fgSkin.pickSrcForColor) {
+  const color = gemColor(v);
+  const kind = gemKind(v);
+  const skinReady = !!(fgSkin?.image && fgSkin.image.complete);
+  const kindSrc = skinReady ? fgSkin?.pickSrcForKind?.(kind) : undefined;
+
+  if (kind === 'wildcard' && kindSrc && fgSkin?.image) {
+    const { sx, sy, sw, sh } = insetSrc(kindSrc, spriteBleed);
+    ctx.drawImage(fgSkin.image, sx, sy, sw, sh, dx, dy, dw, dw);
+  } else if (kind === 'wildcard') {
+    // No wildcard frame: vertical stripes of every palette color
+    const stripe = dw / Math.max(1, colors.length);
+    colors.forEach((c, i) => {
+      ctx.fillStyle = c;
+      ctx.fillRect(dx + i * stripe, dy, Math.ceil(stripe), dw);
+    });
+  } else if (skinReady && fgSkin?.image && fgSkin.pickSrcForColor) {
     const variant = isMatched && isClearing ? 'clear' : 'normal';
-    const raw = fgSkin.pickSrcForColor(v, variant);
+    const raw = fgSkin.pickSrcForColor(color, variant);
     const { sx, sy, sw, sh } = insetSrc(raw, spriteBleed);
     ctx.save();
     ctx.drawImage(fgSkin.image, sx, sy, sw, sh, dx, dy, dw, dw);
     ctx.restore();
   } else {
-    ctx.fillStyle = colors[v] ?? '#888';
+    ctx.fillStyle = colors[color] ?? '#888';
     ctx.fillRect(dx, dy, dw, dw);
   }
 
+  if (kind === 'bomb' || kind === 'locked') {
+    if (kindSrc && fgSkin?.image) {
+      const { sx, sy, sw, sh } = insetSrc(kindSrc, spriteBleed);
+      ctx.drawImage(fgSkin.image, sx, sy, sw, sh, dx, dy, dw, dw);
+    } else {
+      drawKindOverlay(ctx, kind, dx, dy, dw);
+    }
+  }
+
   if (isClearing && isMatched) {
     const t = Math.min(FADE_MS, Math.max(0, blinkT));
     const alpha = 1 - t / FADE_MS;
@@ -82,6 +165,84 @@ function drawGemCell(params: {
   }
 }
 
+// Procedural marks for special gems when the atlas has no frame for them: a
+// bomb gets a dark ring with a lit fuse, a locked gem gets bars across it.
+function drawKindOverlay(
+  ctx: CanvasRenderingContext2D,
+  kind: GemKind,
+  dx: number,
+  dy: number,
+  dw: number,
+) {
+  const lw = Math.max(2, Math.floor(dw * 0.08));
+  ctx.save();
+  ctx.lineWidth = lw;
+  if (kind === 'bomb') {
+    const r = dw * 0.3;
+    ctx.strokeStyle = BOMB_RING;
+    ctx.beginPath();
+    ctx.arc(dx + dw / 2, dy + dw / 2, r, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.strokeStyle = BOMB_FUSE;
+    ctx.beginPath();
+    ctx.moveTo(dx + dw / 2 + r * 0.7, dy + dw / 2 - r * 0.7);
+    ctx.lineTo(dx + dw * 0.9, dy + dw * 0.1);
+    ctx.stroke();
+  } else {
+    ctx.fillStyle = LOCK_BARS;
+    const bar = Math.max(2, Math.floor(dw * 0.1));
+    ctx.fillRect(dx + dw * 0.3 - bar / 2, dy, bar, dw);
+    ctx.fillRect(dx + dw * 0.7 - bar / 2, dy, bar, dw);
+    ctx.strokeStyle = LOCK_BARS;
+    ctx.strokeRect(dx + lw / 2, dy + lw / 2, dw - lw, dw - lw);
+  }
+  ctx.restore();
+}
+
+// Which neighbours belong to the same garbage slab; joined sides are drawn
+// without the inset and outline so the slab reads as one block.
+type GarbageJoins = { left: boolean; right: boolean; up: boolean; down: boolean };
+
+function drawGarbageCell(
+  ctx: CanvasRenderingContext2D,
+  px: number,
+  py: number,
+  cellSize: number,
+  joins: GarbageJoins,
+) {
+  const inset = 2;
+  const x0 = px + (joins.left ? 0 : inset);
+  const y0 = py + (joins.up ? 0 : inset);
+  const x1 = px + cellSize - (joins.right ? 0 : inset);
+  const y1 = py + cellSize - (joins.down ? 0 : inset);
+  const lw = Math.max(1, Math.floor(cellSize * 0.05));
+  ctx.save();
+  ctx.fillStyle = GARBAGE_FILL;
+  ctx.fillRect(x0, y0, x1 - x0, y1 - y0);
+  ctx.strokeStyle = GARBAGE_EDGE;
+  ctx.lineWidth = lw;
+  ctx.beginPath();
+  const h = lw / 2;
+  if (!joins.up) {
+    ctx.moveTo(x0, y0 + h);
+    ctx.lineTo(x1, y0 + h);
+  }
+  if (!joins.down) {
+    ctx.moveTo(x0, y1 - h);
+    ctx.lineTo(x1, y1 - h);
+  }
+  if (!joins.left) {
+    ctx.moveTo(x0 + h, y0);
+    ctx.lineTo(x0 + h, y1);
+  }
+  if (!joins.right) {
+    ctx.moveTo(x1 - h, y0);
+    ctx.lineTo(x1 - h, y1);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
 export function drawStateToCanvas(
   ctx: CanvasRenderingContext2D,
   state: GameState,
@@ -107,18 +268,48 @@ export function drawStateToCanvas(
     ctx.restore();
   }
 
+  // Two shakes per blink cycle, neighbouring columns out of step
+  const { danger } = state;
+  const shake = Array.from({ length: width }, (_, x) =>
+    danger[x] > 0
+      ? Math.sin((blinkT / FADE_MS) * Math.PI * 4 + x * Math.PI) *
+        danger[x] *
+        cellSize *
+        DANGER_SHAKE
+      : 0,
+  );
+
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
       const v = grid[y][x];
-      const px = x * cellSize;
+      const bx = x * cellSize;
+      const px = bx + shake[x];
       const py = y * cellSize - scrollOffsetPx;
       if (bgSkin?.image && bgSkin.image.complete && bgSkin.pickSrcForCell) {
         const src = bgSkin.pickSrcForCell(x, y);
         const s = insetSrc(src, 0);
-        ctx.drawImage(bgSkin.image, s.sx, s.sy, s.sw, s.sh, px, py, cellSize, cellSize);
+        ctx.drawImage(bgSkin.image, s.sx, s.sy, s.sw, s.sh, bx, py, cellSize, cellSize);
       }
       if (v < 0) continue;
-      const isMatched = !!(state.matchMask && state.matchMask[y] && state.matchMask[y][x]);
+      if (isGarbage(v)) {
+        drawGarbageCell(ctx, px, py, cellSize, {
+          left: grid[y][x - 1] === v,
+          right: grid[y][x + 1] === v,
+          up: grid[y - 1]?.[x] === v,
+          down: grid[y + 1]?.[x] === v,
+        });
+        continue;
+      }
+      // Tiles flash while matched and fade out while clearing
+      const tile = state.tiles?.[y]?.[x];
+      const isMatched = tile
+        ? tile.state === 'matched' || tile.state === 'clearing'
+        : !!(state.matchMask && state.matchMask[y] && state.matchMask[y][x]);
+      const popping = tile?.state === 'clearing';
+      if (popping) {
+        ctx.save();
+        ctx.globalAlpha = Math.max(0, Math.min(1, tile.timerMs / CLEAR_POP_FADE_MS));
+      }
       drawGemCell({
         ctx,
         v,
@@ -127,26 +318,76 @@ export function drawStateToCanvas(
         cellSize,
         fgSkin,
         colors,
-        isClearing: phase === 'clearing',
+        isClearing: tile ? isMatched : phase === 'clearing',
         blinkT,
         spriteBleed: 1,
         isMatched,
       });
+      if (popping) ctx.restore();
     }
   }
 
+  // Columns in danger flash red, strongest at their ceiling (the top of the
+  // board or the arena mask) where the loss happens
+  for (let x = 0; x < width; x++) {
+    if (!(danger[x] > 0)) continue;
+    const pulse = 0.5 + 0.5 * Math.sin((blinkT / FADE_MS) * Math.PI * 2);
+    const alpha = (0.15 + 0.25 * pulse) * danger[x];
+    const top = state.ceilingRows[x] * cellSize;
+    for (let row = 0; row < 3; row++) {
+      ctx.fillStyle = `${DANGER_FLASH}${alpha * (1 - row / 3)})`;
+      ctx.fillRect(x * cellSize, top + row * cellSize, cellSize, cellSize);
+    }
+  }
+
+  // Falling garbage: pieces of one slab share a value and fall together, so
+  // look neighbours up by their starting cell
+  const fallingGarbage = new Map<string, number>();
+  for (const p of fallPieces) {
+    if (isGarbage(p.color)) fallingGarbage.set(`${p.x},${p.fromY}`, p.color);
+  }
   for (const p of fallPieces) {
     const px = p.x * cellSize;
     const py = p.y * cellSize - scrollOffsetPx;
-    if (fgSkin?.image && fgSkin.image.complete && fgSkin.pickSrcForColor) {
-      const { sx, sy, sw, sh } = fgSkin.pickSrcForColor(p.color);
-      ctx.drawImage(fgSkin.image, sx, sy, sw, sh, px + 2, py + 2, cellSize - 4, cellSize - 4);
+    if (isGarbage(p.color)) {
+      drawGarbageCell(ctx, px, py, cellSize, {
+        left: fallingGarbage.get(`${p.x - 1},${p.fromY}`) === p.color,
+        right: fallingGarbage.get(`${p.x + 1},${p.fromY}`) === p.color,
+        up: fallingGarbage.get(`${p.x},${p.fromY - 1}`) === p.color,
+        down: fallingGarbage.get(`${p.x},${p.fromY + 1}`) === p.color,
+      });
     } else {
-      ctx.fillStyle = state.colors[p.color] ?? '#888';
-      ctx.fillRect(px + 2, py + 2, cellSize - 4, cellSize - 4);
+      drawGemCell({
+        ctx,
+        v: p.color,
+        px,
+        py,
+        cellSize,
+        fgSkin,
+        colors,
+        isClearing: false,
+        blinkT: 0,
+        spriteBleed: 0,
+      });
     }
   }
 
+  // Garbage break: the slab shell shrinks and fades off the new gem
+  for (const b of state.garbageBreaks ?? []) {
+    const t = Math.min(1, b.ageMs / b.lifeMs);
+    const shrink = (cellSize / 2) * t;
+    ctx.save();
+    ctx.globalAlpha = 1 - t;
+    ctx.fillStyle = GARBAGE_FILL;
+    ctx.fillRect(
+      b.x * cellSize + shrink,
+      b.y * cellSize - scrollOffsetPx + shrink,
+      cellSize - shrink * 2,
+      cellSize - shrink * 2,
+    );
+    ctx.restore();
+  }
+
   const particles = state.particles || [];
   if (particles.length > 0) {
     ctx.save();
@@ -192,6 +433,14 @@ export function drawStateToCanvas(
     }
   }
 
+  if (state.mask) {
+    const warning =
+      state.maskContactMs === null || state.maskContactMs === undefined
+        ? null
+        : Math.min(1, state.maskContactMs / Math.max(1, state.maskGraceMs));
+    drawMask(ctx, state.mask, width * cellSize, height * cellSize, warning);
+  }
+
   if (showClearLine) {
     const yPix = clearLineY * cellSize + 0.5;
     ctx.save();
@@ -245,3 +494,24 @@ export function drawStateToCanvas(
     }
   }
 }
+
+/**
+ * Draws a state onto a canvas with no background skin, for the pages that show
+ * two boards. The blink timer is shared, so only the first board drawn in a
+ * frame should pass that frame's `dtMs`; pass 0 for the other.
+ */
+export function drawBoardToCanvas(
+  canvas: HTMLCanvasElement | null,
+  state: GameState,
+  cellSize: number,
+  dtMs: number,
+  fgSkin?: Skin,
+) {
+  const ctx = canvas?.getContext('2d');
+  if (!ctx) return;
+  try {
+    drawStateToCanvas(ctx, state, cellSize, dtMs, state.scrollOffsetPx ?? 0, undefined, fgSkin);
+  } catch {
+    /* ignore */
+  }
+}
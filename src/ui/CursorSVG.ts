@@ -33,3 +33,20 @@ export function cursorSvg(childId: string, w: number, h: number, radius: number)
     </svg>
   `;
 }
+
+// Markup for the hint highlight: a solid, pulsing outline that reads as
+// different from the player's dashed cursor.
+export function hintSvg(childId: string, w: number, h: number, radius: number) {
+  const strokeWidth = 4;
+  return `
+    <svg id="${childId}" xmlns="http://www.w3.org/2000/svg" width="${w}" height="${h}" viewBox="0 0 ${w} ${h}" style="position:absolute; left:0; top:0; pointer-events:none; overflow:visible;">
+      <rect x="${strokeWidth / 2}" y="${strokeWidth / 2}" rx="${radius}" ry="${radius}" width="${
+    w - strokeWidth
+  }" height="${
+    h - strokeWidth
+  }" fill="rgba(255,255,255,0.15)" stroke="#fde047" stroke-width="${strokeWidth}">
+        <animate attributeName="opacity" values="1;0.35;1" dur="0.6s" repeatCount="indefinite" />
+      </rect>
+    </svg>
+  `;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { applyLevelSetup } from '../src/lib/levelSetup';
+import {
+  ENDLESS_SETUP,
+  ENDLESS_TABLE_SIZE,
+  loadEndlessScores,
+  recordEndlessScore,
+} from '../src/lib/endless';
+
+function endlessEngine(seed: number) {
+  const e = new Engine(6, 12, 5, seed);
+  e.cellSize = 48;
+  applyLevelSetup(e, ENDLESS_SETUP);
+  return e;
+}
+
+describe('Endless mode', () => {
+  it('keeps generating rows and never wins', () => {
+    const e = endlessEngine(21);
+    expect(e.levelQueue.length).toBeGreaterThan(0);
+    e.setRaiseRate(8);
+    for (let i = 0; i < 60 * 30 && !e.hasLost; i++) {
+      // keep the stack low so the run outlasts any fixed queue
+      if (i % 30 === 0) e.grid.slice(0, 8).forEach((r) => r.fill(-1));
+      e.advance(1000 / 60);
+      expect(e.levelQueue.length).toBeGreaterThan(0);
+    }
+    expect(e.hasLost).toBe(false);
+    // far more rows rose than a fixed level queue would hold
+    expect(e.rowsInserted).toBeGreaterThan(40);
+    expect(e.hasWon).toBe(false);
+    expect(e.getState().winLineY).toBeUndefined();
+  });
+
+  it('keeps going after a clear low on the board', () => {
+    const e = endlessEngine(2);
+    e.setRaiseRate(0);
+    e.grid[e.height - 1] = [0, 1, 0, 0, 2, 3];
+    e.swapAt(0, e.height - 1);
+    for (let i = 0; i < 120; i++) e.advance(1000 / 60);
+    expect(e.matchesTotal).toBe(1);
+    expect(e.hasWon).toBe(false);
+    expect(e.isSettled()).toBe(true);
+  });
+
+  it('generates the same rows for the same seed', () => {
+    const a = endlessEngine(5);
+    const b = endlessEngine(5);
+    for (let i = 0; i < 600; i++) {
+      a.advance(1000 / 60);
+      b.advance(1000 / 60);
+    }
+    expect(a.grid).toEqual(b.grid);
+    expect(a.levelQueue).toEqual(b.levelQueue);
+  });
+
+  it('rises faster as lines are cleared, up to the cap', () => {
+    const e = endlessEngine(1);
+    expect(e.riseSpeedFactor()).toBe(1);
+    e.linesClearedEq = 10;
+    expect(e.riseSpeedFactor()).toBeCloseTo(1.5);
+    e.linesClearedEq = 1000;
+    expect(e.riseSpeedFactor()).toBe(4);
+    // restored from a snapshot (saved endless runs)
+    expect(Engine.deserialize(e.serialize()).riseSpeedFactor()).toBe(4);
+  });
+
+  it('keeps a top-10 table, best first', () => {
+    localStorage.clear();
+    for (let i = 1; i <= ENDLESS_TABLE_SIZE; i++)
+      recordEndlessScore({ score: i * 100, lines: i, at: i });
+    expect(recordEndlessScore({ score: 50, lines: 0, at: 0 })).toBeNull();
+    expect(recordEndlessScore({ score: 550, lines: 5, at: 99 })).toBe(6);
+    const table = loadEndlessScores();
+    expect(table).toHaveLength(ENDLESS_TABLE_SIZE);
+    expect(table[0].score).toBe(1000);
+    expect(table[5].score).toBe(550);
+    expect(table.some((s) => s.score === 100)).toBe(false);
+  });
+});
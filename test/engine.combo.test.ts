@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { Engine, type Combo } from '../src/game-core/engine';
+
+// Empty 6x12 board that doesn't rise on its own
+function quietEngine(seed = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setRaiseRate(0);
+  return e;
+}
+
+function settle(e: Engine, maxTicks = 600) {
+  for (let i = 0; i < maxTicks; i++) {
+    e.update(1000 / 60);
+    if (e.phase === 'idle') return;
+  }
+}
+
+describe('Combo scoring', () => {
+  it('scores a plain 3-match without a combo', () => {
+    const e = quietEngine();
+    const combos: Combo[] = [];
+    e.events.on('combo', (c) => combos.push(c));
+    e.grid[11] = [0, 0, 1, 0, 2, 3];
+    e.swapAt(2, 11);
+    expect(e.matchGroups).toEqual([{ size: 3, shape: 'line', color: 0 }]);
+    settle(e);
+    expect(e.score).toBe(3);
+    expect(combos).toEqual([]);
+  });
+
+  it('pays the 4-combo bonus', () => {
+    const e = quietEngine();
+    const combos: Combo[] = [];
+    e.events.on('combo', (c) => combos.push(c));
+    // a column of four 0s once the swap fills the gap
+    e.grid[8] = [0, 1, 2, 3, 4, 1];
+    e.grid[9] = [0, 2, 3, 4, 1, 2];
+    e.grid[10] = [1, 0, 4, 1, 2, 3];
+    e.grid[11] = [0, 3, 1, 2, 3, 4];
+    e.swapAt(0, 10);
+    settle(e);
+    expect(combos).toHaveLength(1);
+    expect(combos[0].bonus).toBe(e.comboBonusTable.four);
+    expect(e.score).toBe(4 + e.comboBonusTable.four);
+  });
+
+  it('finds L and T shapes as one group', () => {
+    const l = quietEngine();
+    l.grid[11] = [0, 0, 1, 0, 3, 4];
+    l.grid[10] = [3, 4, 0, 2, 1, 3];
+    l.grid[9] = [4, 3, 0, 1, 2, 4];
+    // 0 0 0 along the bottom meets the column of 0s at its end
+    l.swapAt(2, 11);
+    expect(l.matchGroups).toEqual([{ size: 5, shape: 'L', color: 0 }]);
+
+    const t = quietEngine();
+    t.grid[11] = [0, 1, 0, 0, 3, 4];
+    t.grid[10] = [3, 2, 0, 4, 1, 3];
+    t.grid[9] = [4, 1, 0, 2, 4, 2];
+    t.swapAt(0, 11);
+    expect(t.matchGroups).toEqual([{ size: 5, shape: 'T', color: 0 }]);
+  });
+
+  it('rewards separate groups cleared in one step', () => {
+    const e = quietEngine();
+    const combos: Combo[] = [];
+    e.events.on('combo', (c) => combos.push(c));
+    e.grid[11] = [0, 0, 1, 0, 1, 1];
+    // 0 0 0 and 1 1 1 side by side: touching, but two groups
+    e.swapAt(2, 11);
+    expect(e.matchGroups.map((g) => g.color).sort()).toEqual([0, 1]);
+    settle(e);
+    expect(combos[0].bonus).toBe(e.comboBonusTable.extraGroup);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+
+// Still 6x12 board with column x stacked from the floor up to row tops[x]
+function stackedEngine(tops: number[]) {
+  const e = new Engine(6, 12, 5, 1);
+  e.setRaiseRate(0);
+  tops.forEach((top, x) => {
+    for (let y = top; y < 12; y++) e.grid[y][x] = (x + y) % 2 ? 1 : 2;
+  });
+  return e;
+}
+
+describe('Column danger', () => {
+  it('rises as a column gets within two rows of the top', () => {
+    const e = stackedEngine([12, 6, 2, 1, 0, 12]);
+    expect(e.getState().danger).toEqual([0, 0, 0, 0.5, 1, 0]);
+    // half a row of rise brings the third column into danger too
+    e.scrollOffsetPx = e.cellSize / 2;
+    expect(e.getState().danger).toEqual([0, 0, 0.25, 0.75, 1, 0]);
+  });
+
+  it('measures from the arena mask where there is one', () => {
+    const e = stackedEngine([5, 5, 12, 12, 12, 12]);
+    expect(e.columnDanger()).toEqual([0, 0, 0, 0, 0, 0]);
+    // the first column's ceiling comes down to row 4
+    e.setMask({ width: 6, height: 12, colTop: [4, -1, -1, -1, -1, -1] });
+    expect(e.columnDanger()).toEqual([0.5, 0, 0, 0, 0, 0]);
+    expect(e.getState().ceilingRows).toEqual([4, 0, 0, 0, 0, 0]);
+  });
+});
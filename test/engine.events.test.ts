@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Engine, type EngineEvents } from '../src/game-core/engine';
+
+const TICK = 1000 / 60;
+
+// Empty 6x12 board that doesn't rise on its own
+function quietEngine(seed = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setRaiseRate(0);
+  return e;
+}
+
+function settle(e: Engine, maxTicks = 600) {
+  for (let i = 0; i < maxTicks; i++) {
+    e.update(TICK);
+    if (e.phase === 'idle') return;
+  }
+}
+
+describe('Engine events', () => {
+  it('describes a clear, the gem that lands after it and the end of the chain', () => {
+    const e = quietEngine();
+    const seen: string[] = [];
+    for (const type of ['swap', 'match', 'land', 'chainEnd'] as const) {
+      e.events.on(type, () => seen.push(type));
+    }
+    let match: EngineEvents['match'] | null = null;
+    let land: EngineEvents['land'] | null = null;
+    e.events.on('match', (m) => (match = m));
+    e.events.on('land', (l) => (land = l));
+    e.grid[11] = [0, 0, 1, 0, 2, 3];
+    e.grid[10][1] = 4;
+    e.swapAt(2, 11);
+    settle(e);
+    expect(seen).toEqual(['swap', 'match', 'land', 'chainEnd']);
+    expect(match).toEqual({
+      chain: 1,
+      cells: [0, 1, 2].map((x) => ({ x, y: 11, color: 0 })),
+      groups: [{ size: 3, shape: 'line', color: 0 }],
+      scoreDelta: 3,
+      score: 3,
+    });
+    expect(land).toEqual({ x: 1, y: 11, color: 4, chain: true });
+  });
+
+  it('announces rising rows, the top out and the loss', () => {
+    const e = new Engine(6, 12, 5, 1);
+    e.setRaiseRate(4);
+    e.topOutGraceMs = 0;
+    for (let y = 1; y < 12; y++) {
+      for (let x = 0; x < 6; x++) e.grid[y][x] = (x + 2 * y) % 5;
+    }
+    e.setLevelQueue(e.generateRandomRows(20));
+    const rows: EngineEvents['rowInserted'][] = [];
+    const losses: EngineEvents['lose'][] = [];
+    let topOuts = 0;
+    e.events.on('rowInserted', (r) => rows.push(r));
+    e.events.on('topOut', () => topOuts++);
+    e.events.on('lose', (l) => losses.push(l));
+    for (let i = 0; i < 60 && !e.hasLost; i++) e.update(TICK);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].row).toEqual(e.grid[11]);
+    expect(topOuts).toBe(1);
+    expect(losses).toEqual([{ reason: 'topOut', score: 0 }]);
+  });
+
+  it('keeps listeners independent of each other', () => {
+    const e = quietEngine();
+    const calls: string[] = [];
+    e.events.on('swap', () => {
+      throw new Error('broken listener');
+    });
+    const off = e.events.on('swap', () => calls.push('a'));
+    e.events.on('swap', () => calls.push('b'));
+    e.grid[11] = [0, 1, 2, 3, 4, 0];
+    e.swapAt(0, 11);
+    off();
+    e.swapAt(2, 11);
+    expect(calls).toEqual(['a', 'b', 'b']);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { GARBAGE_BASE, isGarbage, isGem } from '../src/game-core/cell';
+
+// Empty 6x12 board that doesn't rise on its own
+function quietEngine(seed = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setRaiseRate(0);
+  return e;
+}
+
+function settle(e: Engine, maxTicks = 600) {
+  for (let i = 0; i < maxTicks; i++) {
+    e.update(1000 / 60);
+    if (e.phase === 'idle' && e.pendingGarbage.length === 0) return;
+  }
+}
+
+function garbageRows(e: Engine) {
+  return e.grid.map((r) => r.filter(isGarbage).length);
+}
+
+describe('Garbage slabs', () => {
+  it('drops a queued slab from the top and lands it as one block', () => {
+    const e = quietEngine();
+    // a step in the floor: the slab rests on the tallest column under it
+    e.grid[11] = [0, 1, 2, 3, 4, 0];
+    e.grid[10] = [-1, -1, -1, -1, -1, 1];
+    e.queueGarbage(6, 2);
+    settle(e);
+
+    const rows = garbageRows(e);
+    expect(rows[8]).toBe(6);
+    expect(rows[9]).toBe(6);
+    expect(rows.reduce((a, b) => a + b, 0)).toBe(12);
+    // the gap under the left five columns stays open
+    expect(e.grid[10].slice(0, 5)).toEqual([-1, -1, -1, -1, -1]);
+  });
+
+  it('is not moved by swaps', () => {
+    const e = quietEngine();
+    const g = GARBAGE_BASE + 7;
+    e.grid[11] = [g, g, g, 0, 1, 2];
+    const before = e.grid.map((r) => r.slice());
+    e.swapAt(2, 11);
+    e.swapAt(0, 11);
+    expect(e.grid).toEqual(before);
+  });
+
+  it('breaks its bottom row into gems when a match clears next to it', () => {
+    const e = quietEngine(3);
+    const g = GARBAGE_BASE + 7;
+    e.grid[11] = [0, 0, 1, 0, 2, 3];
+    e.grid[10] = [g, g, g, -1, -1, -1];
+    e.grid[9] = [g, g, g, -1, -1, -1];
+    // completes 0 0 0 on the bottom row, right under the slab
+    e.swapAt(2, 11);
+    expect(e.phase).toBe('clearing');
+    settle(e);
+
+    // one row of the slab is left, resting on the gems its bottom row became
+    expect(garbageRows(e)[10]).toBe(3);
+    expect(garbageRows(e).reduce((a, b) => a + b, 0)).toBe(3);
+    expect(e.grid[11].slice(0, 3).every(isGem)).toBe(true);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import type { Mask } from '../src/mask';
+
+const TICK = 1000 / 60;
+
+// One mask pixel per cell: the last column's ceiling comes down to row 4
+const MASK: Mask = { width: 6, height: 12, colTop: [-1, -1, -1, -1, -1, 4] };
+
+// Still 6x12 board with the last column stacked from the floor up to `top`
+function stackedEngine(top: number) {
+  const e = new Engine(6, 12, 5, 1);
+  e.setRaiseRate(0);
+  e.grid[11] = [0, 1, 2, 3, 4, 0];
+  for (let y = top; y < 11; y++) e.grid[y][5] = y % 2 ? 1 : 2;
+  e.setMask(MASK);
+  return e;
+}
+
+function run(e: Engine, ms: number) {
+  for (let t = 0; t < ms; t += TICK) e.update(TICK);
+}
+
+describe('Arena mask', () => {
+  it('leaves a stack below the silhouette alone', () => {
+    const e = stackedEngine(5);
+    run(e, 3000);
+    expect(e.maskContactMs).toBeNull();
+    expect(e.hasLost).toBe(false);
+  });
+
+  it('warns once on contact and loses after the grace period', () => {
+    const e = stackedEngine(4);
+    let contacts = 0;
+    e.events.on('topContact', () => contacts++);
+    run(e, e.maskGraceMs - 100);
+    expect(contacts).toBe(1);
+    expect(e.getState().maskContactMs).toBeGreaterThan(1800);
+    expect(e.hasLost).toBe(false);
+    run(e, 200);
+    expect(e.hasLost).toBe(true);
+  });
+
+  it('resets the grace period once the stack drops clear of the mask', () => {
+    const e = stackedEngine(4);
+    let contacts = 0;
+    e.events.on('topContact', () => contacts++);
+    run(e, 1500);
+    e.grid[4][5] = -1;
+    e.update(TICK);
+    expect(e.maskContactMs).toBeNull();
+    e.grid[4][5] = 2;
+    run(e, 1500);
+    expect(contacts).toBe(2);
+    expect(e.hasLost).toBe(false);
+  });
+
+  it('stops a rising stack at the silhouette', () => {
+    const e = stackedEngine(5);
+    e.setRaiseRate(2);
+    e.setLevelQueue(e.generateRandomRows(10));
+    const losses: string[] = [];
+    e.events.on('lose', ({ reason }) => losses.push(reason));
+    run(e, 1000);
+    // one row rose in and brought the last column up to the mask
+    expect(e.rowsInserted).toBe(1);
+    expect(e.scrollOffsetPx).toBeLessThan(1e-6);
+    expect(e.maskContactMs).not.toBeNull();
+    expect(e.topOutMs).toBeNull();
+    run(e, e.maskGraceMs);
+    expect(losses).toEqual(['mask']);
+  });
+
+  it('keeps the mask and contact timer in snapshots', () => {
+    const e = stackedEngine(4);
+    run(e, 500);
+    const copy = Engine.deserialize(JSON.parse(JSON.stringify(e.serialize())));
+    expect(copy.mask).toEqual(MASK);
+    expect(copy.maskContactMs).toBe(e.maskContactMs);
+  });
+});
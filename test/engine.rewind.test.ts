@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { applyLevelSetup } from '../src/lib/levelSetup';
+import { createReplayPlayer, createReplayRecorder } from '../src/lib/replay';
+
+const level = { targetLines: 8, startingLines: 6, raiseRate: 0.5 };
+
+function practiceEngine(seed: number) {
+  const e = new Engine(6, 12, 5, seed);
+  e.cellSize = 48;
+  e.rewindDepth = 16;
+  applyLevelSetup(e, level);
+  return e;
+}
+
+// Swap the first pair of different, occupied cells on the bottom row
+function swapSomething(e: Engine) {
+  const y = e.height - 1;
+  for (let x = 0; x < e.width - 1; x++) {
+    if (e.grid[y][x] >= 0 && e.grid[y][x + 1] >= 0 && e.grid[y][x] !== e.grid[y][x + 1]) {
+      e.swapAt(x, y);
+      return;
+    }
+  }
+}
+
+describe('Practice rewind', () => {
+  it('restores the board from before the last swap', () => {
+    const e = practiceEngine(31);
+    for (let i = 0; i < 30; i++) e.advance(1000 / 60);
+    const before = e.grid.map((r) => r.slice());
+    const scoreBefore = e.score;
+    swapSomething(e);
+    expect(e.grid).not.toEqual(before);
+    // let rows rise and any clears play out
+    for (let i = 0; i < 200; i++) e.advance(1000 / 60);
+
+    const tick = e.tick;
+    expect(e.rewind()).toBe(true);
+    expect(e.grid).toEqual(before);
+    expect(e.score).toBe(scoreBefore);
+    // time keeps running forward
+    expect(e.tick).toBe(tick);
+  });
+
+  it('does nothing when rewinding is off', () => {
+    const e = new Engine(6, 12, 5, 31);
+    applyLevelSetup(e, level);
+    swapSomething(e);
+    expect(e.canRewind()).toBe(false);
+    expect(e.rewind()).toBe(false);
+  });
+
+  it('replays recorded rewinds', () => {
+    const e = practiceEngine(8);
+    const rec = createReplayRecorder(e, { levelId: 'level-test', numColors: 5, level });
+    for (let f = 0; f < 600 && !e.hasWon; f++) {
+      if (f % 13 === 0) e.moveCursor((f % 3) - 1, ((f >> 2) % 3) - 1);
+      if (f % 9 === 0) e.swap();
+      if (f % 50 === 49) e.rewind();
+      e.advance(1000 / 60);
+    }
+    const replay = rec.finish();
+    expect(replay.rewindDepth).toBe(16);
+
+    const player = createReplayPlayer(replay);
+    player.seek(player.totalTicks);
+    expect(player.getEngine().grid).toEqual(e.grid);
+    expect(player.getEngine().score).toBe(e.score);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { createRng } from '../src/game-core/rng';
+
+function buildBoard(seed: number) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setLevelQueue(e.generateRandomRows(20), 6);
+  return e;
+}
+
+describe('Engine seeded RNG', () => {
+  it('produces the same starting board and queue for the same seed', () => {
+    const a = buildBoard(1234);
+    const b = buildBoard(1234);
+    expect(a.grid).toEqual(b.grid);
+    expect(a.levelQueue).toEqual(b.levelQueue);
+    expect(a.getState().seed).toBe(1234);
+  });
+
+  it('produces a different board for a different seed', () => {
+    const a = buildBoard(1);
+    const b = buildBoard(2);
+    expect(a.levelQueue).not.toEqual(b.levelQueue);
+  });
+
+  it('picks and exposes a seed when none is given', () => {
+    const e = new Engine(6, 12, 5);
+    expect(Number.isInteger(e.seed)).toBe(true);
+    expect(e.getState().seed).toBe(e.seed);
+  });
+
+  it('rng state can be captured and restored', () => {
+    const r = createRng(42);
+    r.next();
+    const saved = r.getState();
+    const seq = [r.next(), r.next(), r.next()];
+    r.setState(saved);
+    expect([r.next(), r.next(), r.next()]).toEqual(seq);
+    for (let i = 0; i < 100; i++) {
+      const n = r.nextInt(5);
+      expect(n >= 0 && n < 5).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { gemKind, makeGem } from '../src/game-core/cell';
+
+const W = makeGem(0, 'wildcard');
+
+// Empty 6x12 board that doesn't rise on its own
+function quietEngine(seed = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setRaiseRate(0);
+  return e;
+}
+
+function settle(e: Engine, maxTicks = 600) {
+  for (let i = 0; i < maxTicks; i++) {
+    e.update(1000 / 60);
+    if (e.phase === 'idle') return;
+  }
+}
+
+describe('Special gems', () => {
+  it('lets a wildcard stand in for any color', () => {
+    const e = quietEngine();
+    e.grid[11] = [1, 1, 2, W, 3, 4];
+    // 1 1 W lines up once the wildcard moves left
+    e.swapAt(2, 11);
+    expect(e.phase).toBe('clearing');
+    expect(e.matchMask[11].slice(0, 3)).toEqual([true, true, true]);
+    expect(e.matchMask[11][3]).toBe(false);
+  });
+
+  it('clears the 3x3 around a matched bomb', () => {
+    const e = quietEngine();
+    e.grid[11] = [0, 1, 2, 3, 4, 0];
+    e.grid[10] = [3, makeGem(2, 'bomb'), 2, 4, 2, 1];
+    e.grid[9] = [4, 0, 1, 0, 3, 4];
+    e.swapAt(3, 10);
+    expect(e.phase).toBe('clearing');
+    const marked = e.matchMask.flatMap((r, y) => r.flatMap((m, x) => (m ? [`${x},${y}`] : [])));
+    // the row match 2 2 2 plus the bomb's neighborhood
+    expect(marked.sort()).toEqual(
+      ['0,9', '1,9', '2,9', '0,10', '1,10', '2,10', '3,10', '0,11', '1,11', '2,11'].sort(),
+    );
+  });
+
+  it('keeps a locked gem in place until a neighbor clears', () => {
+    const e = quietEngine();
+    const locked = makeGem(4, 'locked');
+    e.grid[11] = [2, 0, 1, 0, 0, locked];
+    e.swapAt(4, 11);
+    expect(e.grid[11][5]).toBe(locked);
+
+    // 0 0 0 clears right next to it
+    e.swapAt(1, 11);
+    settle(e);
+    expect(e.grid[11][5]).toBe(4);
+    expect(gemKind(e.grid[11][5])).toBe('normal');
+  });
+
+  it('spawns special gems only when the level gives them weight', () => {
+    const plain = new Engine(6, 12, 5, 42);
+    expect(
+      plain
+        .generateRandomRows(40)
+        .flat()
+        .every((v) => gemKind(v) === 'normal'),
+    ).toBe(true);
+
+    const weighted = new Engine(6, 12, 5, 42);
+    weighted.gemWeights = { bomb: 50, locked: 50 };
+    const kinds = new Set(weighted.generateRandomRows(40).flat().map(gemKind));
+    expect(kinds.has('bomb')).toBe(true);
+    expect(kinds.has('locked')).toBe(true);
+    expect(kinds.has('wildcard')).toBe(false);
+  });
+});
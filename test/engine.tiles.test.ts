@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+
+// Empty 6x12 board that doesn't rise on its own
+function quietEngine(seed = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.setRaiseRate(0);
+  return e;
+}
+
+function tick(e: Engine, n = 1) {
+  for (let i = 0; i < n; i++) e.update(1000 / 60);
+}
+
+function settle(e: Engine, maxTicks = 600) {
+  for (let i = 0; i < maxTicks; i++) {
+    tick(e);
+    if (e.phase === 'idle') return;
+  }
+}
+
+describe('Per-tile states', () => {
+  it('keeps the rest of the board swappable while a match clears', () => {
+    const e = quietEngine();
+    e.grid[11] = [0, 0, 1, 0, 2, 3];
+    e.swapAt(2, 11);
+    expect(e.phase).toBe('clearing');
+    expect(e.tiles[11][0].state).toBe('matched');
+
+    // matched tiles stay put, others can still be swapped
+    e.swapAt(0, 11);
+    expect(e.grid[11][0]).toBe(0);
+    e.swapAt(4, 11);
+    expect(e.grid[11].slice(4)).toEqual([3, 2]);
+    expect(e.tiles[11][4].state).toBe('swapping');
+
+    settle(e);
+    expect(e.grid[11]).toEqual([-1, -1, -1, 1, 3, 2]);
+    expect(e.tiles.flat().every((t) => t.state === 'idle')).toBe(true);
+  });
+
+  it('hangs, then falls one row at a time, then lands', () => {
+    const e = quietEngine();
+    e.grid[11] = [0, 1, 2, 3, 4, 0];
+    e.grid[8] = [-1, -1, 4, -1, -1, -1];
+    tick(e);
+    expect(e.tiles[8][2].state).toBe('hanging');
+    expect(e.phase).toBe('settling');
+    settle(e);
+    expect(e.grid[10][2]).toBe(4);
+    expect(e.grid[8][2]).toBe(-1);
+  });
+
+  it('extends the chain when a tile is slid under a falling column', () => {
+    const chains: number[] = [];
+    const run = (slide: boolean) => {
+      const e = quietEngine();
+      chains.length = 0;
+      e.events.on('match', ({ chain }) => chains.push(chain));
+      e.grid[11] = [2, 4, 2, 4, 2, 4];
+      e.grid[10] = [1, 3, 3, 0, 3, 2];
+      e.grid[9] = [-1, -1, 1, 1, -1, -1];
+      // 3 3 3 clears from under the pair of 1s
+      e.swapAt(3, 10);
+      while (e.clearEvents.length > 0) tick(e);
+      expect(e.tiles[9][2].state).toBe('hanging');
+      // move the spare 1 into the gap before the pair lands beside it
+      if (slide) e.swapAt(0, 10);
+      settle(e);
+      return chains.slice();
+    };
+
+    expect(run(false)).toEqual([1]);
+    expect(run(true)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Engine, MAX_FRAME_MS, TICK_MS } from '../src/game-core/engine';
+
+function risingEngine() {
+  const e = new Engine(6, 12, 5, 3);
+  e.cellSize = 48;
+  e.setLevelQueue(e.generateRandomRows(30), 4);
+  e.setRaiseRate(0.5);
+  return e;
+}
+
+describe('Engine fixed timestep', () => {
+  it('simulates identically regardless of frame rate', () => {
+    const at60 = risingEngine();
+    const at144 = risingEngine();
+    // About two seconds of wall time, delivered at different refresh rates
+    while (at60.tick < 120) at60.advance(1000 / 60);
+    while (at144.tick < 120) at144.advance(1000 / 144);
+    expect(at144.tick).toBe(at60.tick);
+    expect(at144.scrollOffsetPx).toBeCloseTo(at60.scrollOffsetPx, 6);
+    expect(at144.grid).toEqual(at60.grid);
+  });
+
+  it('carries leftover time and returns the interpolation factor', () => {
+    const e = risingEngine();
+    const alpha = e.advance(TICK_MS * 1.5);
+    expect(e.tick).toBe(1);
+    expect(alpha).toBeCloseTo(0.5, 6);
+    // Interpolated scroll sits halfway between the last two ticks
+    const before = e.getState(0).scrollOffsetPx ?? 0;
+    const after = e.getState(1).scrollOffsetPx ?? 0;
+    expect(e.getState(alpha).scrollOffsetPx).toBeCloseTo((before + after) / 2, 6);
+  });
+
+  it('drops time beyond MAX_FRAME_MS after a hitch', () => {
+    const e = risingEngine();
+    e.advance(10_000);
+    // 250ms is ~15 ticks; allow for float rounding in the accumulator
+    expect(Math.abs(e.tick - MAX_FRAME_MS / TICK_MS)).toBeLessThanOrEqual(1);
+    expect(e.rowsInserted).toBe(4);
+  });
+});
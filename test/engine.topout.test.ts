@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+
+const TICK = 1000 / 60;
+
+// 6x12 board filled (without matches) from row `top` down, rising quickly
+// with full rows queued underneath
+function fullEngine(top = 1) {
+  const e = new Engine(6, 12, 5, 1);
+  e.setRaiseRate(4);
+  for (let y = top; y < 12; y++) {
+    for (let x = 0; x < 6; x++) e.grid[y][x] = (x + 2 * y) % 5;
+  }
+  e.setLevelQueue(e.generateRandomRows(20));
+  return e;
+}
+
+function run(e: Engine, ms: number) {
+  for (let t = 0; t < ms; t += TICK) e.update(TICK);
+}
+
+describe('Top-out grace', () => {
+  it('stops the stack at the top and loses only once the grace runs out', () => {
+    const e = fullEngine();
+    run(e, 500);
+    expect(e.topOutMs).not.toBeNull();
+    const stopped = e.grid.map((r) => r.slice());
+    run(e, 600);
+    expect(e.hasLost).toBe(false);
+    expect(e.grid).toEqual(stopped);
+    expect(e.getState().topOutMs).toBeGreaterThan(600);
+    run(e, e.topOutGraceMs);
+    expect(e.hasLost).toBe(true);
+  });
+
+  it('lets the stack rise again once a clear makes room', () => {
+    const e = fullEngine();
+    run(e, 1000);
+    expect(e.topOutMs).not.toBeNull();
+    e.grid[0] = e.grid[0].map(() => -1);
+    e.update(TICK);
+    expect(e.topOutMs).toBeNull();
+    const scroll = e.scrollOffsetPx;
+    run(e, 100);
+    expect(e.scrollOffsetPx).toBeGreaterThan(scroll);
+    expect(e.hasLost).toBe(false);
+  });
+
+  it('loses on contact without a grace period', () => {
+    const e = fullEngine();
+    e.topOutGraceMs = 0;
+    run(e, 500);
+    expect(e.hasLost).toBe(true);
+  });
+
+  it('never tops out a swap-limited board', () => {
+    const e = fullEngine(0);
+    e.setRaiseRate(0);
+    e.swapsLeft = 3;
+    run(e, e.topOutGraceMs * 2);
+    expect(e.topOutMs).toBeNull();
+    expect(e.hasLost).toBe(false);
+  });
+});
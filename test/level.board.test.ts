@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { applyLevelSetup } from '../src/lib/levelSetup';
+import LEVELS from '../src/levels';
+import { decodeRows } from '../src/levels/loader';
+
+describe('Per-level board size', () => {
+  it('gives every level a board size and color count', () => {
+    for (const l of LEVELS) {
+      expect(l.width).toBeGreaterThanOrEqual(4);
+      expect(l.height).toBeGreaterThanOrEqual(6);
+      expect(l.numColors).toBeGreaterThanOrEqual(3);
+      expect(l.numColors).toBeLessThanOrEqual(6);
+    }
+    expect(LEVELS[0].numColors).toBe(4);
+    expect(LEVELS.some((l) => l.width === 8)).toBe(true);
+  });
+
+  it('builds wide boards using only the level colors', () => {
+    const e = new Engine(8, 12, 6, 42);
+    e.cellSize = 48;
+    applyLevelSetup(e, { targetLines: 10, startingLines: 6, raiseRate: 0.5 });
+    expect(e.grid[0].length).toBe(8);
+    const bottom = e.grid[e.height - 1];
+    expect(bottom.every((v) => v >= 0 && v < 6)).toBe(true);
+  });
+});
+
+describe('Hand-authored rows', () => {
+  it('decodes rows and rejects bad widths and colors', () => {
+    expect(decodeRows('lvl', 'board', ['.1', '20'], 2, 4)).toEqual([
+      [-1, 1],
+      [2, 0],
+    ]);
+    expect(() => decodeRows('lvl', 'queue', ['012'], 4, 4)).toThrow(/3 cells, expected 4/);
+    expect(() => decodeRows('lvl', 'queue', ['0140'], 4, 4)).toThrow(/'4'/);
+    expect(() => decodeRows('lvl', 'queue', ['01.0'], 4, 4)).toThrow(/'\.'/);
+  });
+
+  it('starts from the authored board and rises the authored queue first', () => {
+    const board = decodeRows('lvl', 'board', ['..1...', '.21...', '301201'], 6, 4);
+    const queue = decodeRows('lvl', 'queue', ['120312', '031023'], 6, 4);
+    const e = new Engine(6, 12, 4, 3);
+    e.cellSize = 48;
+    applyLevelSetup(e, { targetLines: 5, startingLines: 6, raiseRate: 0.5, board, queue });
+    expect(e.grid.slice(9)).toEqual(board);
+    expect(e.rowsInserted).toBe(3);
+    expect(e.levelQueue.slice(0, 2)).toEqual(queue);
+  });
+});
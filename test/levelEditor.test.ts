@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addQueueRow,
+  blankLevel,
+  boardRows,
+  checkLevel,
+  exportLevels,
+  importLevels,
+  paintBoard,
+  paintQueue,
+  removeQueueRow,
+  resizeLevel,
+} from '../src/lib/levelEditor';
+import { RAW_LEVELS } from '../src/levels/loader';
+
+describe('Level editor', () => {
+  it('stores a painted board the way levels.json has it', () => {
+    let level = blankLevel([]);
+    expect(level.id).toBe('level-1');
+    expect(boardRows(level)).toHaveLength(12);
+
+    level = paintBoard(level, 2, 11, 3);
+    level = paintBoard(level, 0, 10, 1);
+    expect(level.board).toEqual(['1.....', '..3...']);
+
+    level = paintBoard(level, 0, 10, '.');
+    expect(level.board).toEqual(['..3...']);
+    level = paintBoard(level, 2, 11, '.');
+    expect(level.board).toBeUndefined();
+  });
+
+  it('edits queued rows, which must stay full', () => {
+    let level = addQueueRow(addQueueRow(blankLevel([])));
+    expect(level.queue).toEqual(['012340', '123401']);
+    level = paintQueue(level, 1, 0, 4);
+    level = paintQueue(level, 2, 0, '.');
+    expect(level.queue?.[0]).toBe('042340');
+    level = removeQueueRow(removeQueueRow(level, 0), 0);
+    expect(level.queue).toBeUndefined();
+  });
+
+  it('keeps painted cells when the board is resized', () => {
+    const level = addQueueRow(paintBoard(blankLevel([]), 5, 11, 2));
+    const wide = resizeLevel(level, 8, 12);
+    expect(wide.board).toEqual(['.....2..']);
+    expect(wide.queue).toEqual(['01234000']);
+    expect(resizeLevel(wide, 4, 12).board).toEqual(['....']);
+  });
+
+  it('checks levels with the game loader', () => {
+    const level = paintBoard(blankLevel([]), 0, 11, 4);
+    expect('level' in checkLevel(level)).toBe(true);
+    const check = checkLevel({ ...level, numColors: 3, raiseRate: -1 });
+    expect('problems' in check && check.problems.map((p) => p.message)).toEqual([
+      'raiseRate must be 0 or more (rows per second), got -1',
+      "board row 1 has '4', expected a color 0-2",
+    ]);
+  });
+
+  it('round-trips levels.json through export and import', () => {
+    const levels = [...RAW_LEVELS, blankLevel(RAW_LEVELS)];
+    expect(importLevels(exportLevels(levels))).toEqual({ levels, problems: [] });
+    expect(importLevels('{').problems[0].message).toBe('not valid JSON');
+    const bad = importLevels(exportLevels([...levels, { ...levels[0], startingLines: 30 }]));
+    expect(bad.levels).toEqual([]);
+    expect(bad.problems.map((p) => p.message)).toEqual([
+      "startingLines must be a whole number from 0 to the board's 12 rows, got 30",
+      'id is also used by level 1 (ids must be unique)',
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import LEVELS from '../src/levels';
+import {
+  findLevel,
+  nextLevelId,
+  packIdFor,
+  packLevels,
+  parsePack,
+  registerPacks,
+  type PackFile,
+  type StoredPack,
+} from '../src/levels/packs';
+import { listPacks, markPackLevelCleared } from '../src/lib/packStore';
+
+const BEACH = 'data:image/png;base64,iVBORw0KGgo=';
+
+const level = (id: string) => ({
+  id,
+  name: `Level ${id}`,
+  shortName: id,
+  background: 'beach.png',
+  color: '#FFCC00',
+  startingLines: 4,
+  targetLines: 8,
+  raiseRate: 0.2,
+});
+
+const PACK: PackFile = {
+  manifest: { name: 'Sunny Levels!', author: 'Sam', version: '1.0' },
+  levels: [level('a'), level('b')],
+  assets: { 'beach.png': BEACH },
+};
+
+const stored = (pack: PackFile): StoredPack => ({
+  ...pack,
+  id: packIdFor(pack.manifest),
+  cleared: [],
+  installedAt: 0,
+});
+
+describe('Level packs', () => {
+  it('reads a pack file and reports what stops it loading', () => {
+    expect(parsePack(JSON.stringify(PACK))).toEqual({ pack: PACK, problems: [] });
+    expect(parsePack('nope').problems[0].message).toBe('not valid JSON');
+    const noAuthor = { ...PACK, manifest: { name: 'x', version: 1 } };
+    expect(parsePack(JSON.stringify(noAuthor)).problems[0].message).toBe(
+      'manifest.author is missing',
+    );
+    const broken = parsePack(JSON.stringify({ ...PACK, levels: [level('a'), level('a')] }));
+    expect(broken.pack).toBeNull();
+    expect(broken.problems[0].message).toBe('id is also used by level 1 (ids must be unique)');
+    // assets missing from the pack only warn
+    const missing = parsePack(JSON.stringify({ ...PACK, assets: {} }));
+    expect(missing.pack).not.toBeNull();
+    expect(missing.problems.map((p) => p.message)).toEqual([
+      "background 'beach.png' was not found",
+      "background 'beach.png' was not found",
+    ]);
+  });
+
+  it('plays pack levels under their own ids with embedded assets', () => {
+    const levels = packLevels(stored(PACK));
+    expect(levels.map((l) => l.id)).toEqual(['pack:sunny-levels/a', 'pack:sunny-levels/b']);
+    expect(levels[0].background).toBe(BEACH);
+    expect(levels[0].width).toBe(6);
+  });
+
+  it('finds and advances through registered packs apart from the built-in levels', () => {
+    registerPacks([stored(PACK)]);
+    expect(findLevel('pack:sunny-levels/b')?.name).toBe('Level b');
+    expect(findLevel(LEVELS[0].id)).toBe(LEVELS[0]);
+    expect(nextLevelId('pack:sunny-levels/a')).toBe('pack:sunny-levels/b');
+    expect(nextLevelId('pack:sunny-levels/b')).toBeNull();
+    expect(nextLevelId(LEVELS[0].id)).toBe(LEVELS[1].id);
+    registerPacks([]);
+    expect(findLevel('pack:sunny-levels/a')).toBeUndefined();
+  });
+
+  it('stores nothing without IndexedDB', async () => {
+    expect(await listPacks()).toEqual([]);
+    await expect(markPackLevelCleared('pack:sunny-levels/a')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { formatLevelProblems, validateLevels } from '../src/levels/validate';
+import { RAW_LEVELS, loadLevels } from '../src/levels/loader';
+
+const LEVEL = {
+  id: 'lvl',
+  name: 'Level',
+  shortName: 'L',
+  background: null,
+  color: '#00FFFF',
+  startingLines: 5,
+  targetLines: 10,
+  raiseRate: 0.2,
+};
+
+const messages = (raw: unknown) => validateLevels(raw).map((p) => p.message);
+
+describe('Level validation', () => {
+  it('accepts the built-in levels', () => {
+    expect(validateLevels(RAW_LEVELS)).toEqual([]);
+    expect(validateLevels([LEVEL])).toEqual([]);
+  });
+
+  it('reports missing fields and values out of range', () => {
+    const noRate: Record<string, unknown> = { ...LEVEL };
+    delete noRate.raiseRate;
+    expect(messages([noRate])).toEqual(['raiseRate is missing']);
+    expect(messages([{ ...LEVEL, raiseRate: -0.5, startingLines: 13, color: 'cyan' }])).toEqual([
+      "startingLines must be a whole number from 0 to the board's 12 rows, got 13",
+      'raiseRate must be 0 or more (rows per second), got -0.5',
+      "color must be a hex color like '#00FFFF' or null, got 'cyan'",
+    ]);
+    expect(messages([{ ...LEVEL, height: 8, startingLines: 9, targetLines: '10' }])).toEqual([
+      "startingLines must be a whole number from 0 to the board's 8 rows, got 9",
+      "targetLines must be a number, got '10'",
+    ]);
+    expect(messages([{ ...LEVEL, width: 2, board: ['01'] }])).toEqual([
+      'width must be a whole number from 3 to 12, got 2',
+      'board row 1 has 2 cells, expected 6',
+    ]);
+  });
+
+  it('reports duplicate ids, typos and missing assets', () => {
+    const problems = validateLevels(
+      [
+        LEVEL,
+        { ...LEVEL, raiseRtae: 1, music: '../assets/music/nope.mp3', gemWeights: { bmob: 2 } },
+      ],
+      { assetExists: (p) => !p.includes('nope') },
+    );
+    expect(problems).toEqual([
+      { level: 'lvl', message: "unknown field 'raiseRtae'", severity: 'warning' },
+      {
+        level: 'lvl',
+        message: "music '../assets/music/nope.mp3' was not found",
+        severity: 'warning',
+      },
+      {
+        level: 'lvl',
+        message: "gemWeights has unknown gem kind 'bmob' (use normal, wildcard, bomb, locked)",
+        severity: 'error',
+      },
+      {
+        level: 'lvl',
+        message: 'id is also used by level 1 (ids must be unique)',
+        severity: 'error',
+      },
+    ]);
+    expect(formatLevelProblems(problems.slice(0, 1))).toBe(
+      "warning: lvl: unknown field 'raiseRtae'",
+    );
+    expect(messages({})).toEqual(['expected a list of levels']);
+    expect(validateLevels([{ name: 'x' }])[0]).toMatchObject({
+      level: 'level 1',
+      message: 'id is missing',
+    });
+  });
+
+  it('reports authored queue rows that would match as they rise', () => {
+    expect(messages([{ ...LEVEL, queue: ['012301', '120012', '201120'] }])).toEqual([]);
+    expect(messages([{ ...LEVEL, queue: ['012301', '122212'] }])).toEqual([
+      'queue row 2 has three 2s in a row, which would clear as it rises',
+    ]);
+    expect(messages([{ ...LEVEL, queue: ['012301', '013012', '021123'] }])).toEqual([
+      'queue row 3 stacks three 0s in column 1, which would clear as it rises',
+    ]);
+    // the first rows rise in under the board's bottom rows
+    const board = ['..1...', '301201'];
+    expect(messages([{ ...LEVEL, board, queue: ['121302'] }])).toEqual([
+      'queue row 1 stacks three 1s in column 3, which would clear as it rises',
+    ]);
+  });
+
+  it('refuses to load broken levels, listing every error', () => {
+    expect(() => loadLevels([{ ...LEVEL, raiseRate: -1, board: ['0000x0'] }])).toThrow(
+      "lvl: raiseRate must be 0 or more (rows per second), got -1\nlvl: board row 1 has 'x', expected a color 0-4",
+    );
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { findMatchingSwaps, playOutSwap } from '../src/game-core/moves';
+import { GARBAGE_BASE } from '../src/game-core/cell';
+import { decodeRows } from '../src/levels/loader';
+
+function board(rows: string[]) {
+  const blank = Array.from({ length: 12 - rows.length }, () => '......');
+  return decodeRows('test', 'board', [...blank, ...rows], 6, 5);
+}
+
+describe('Move analysis', () => {
+  it('lists only swaps that match, longest chain first', () => {
+    // x=2 on the bottom row clears three 2s; x=2 on row 9 sets off a 2-chain
+    const grid = board(['..2...', '..01..', '..13..', '2212..']);
+    const swaps = findMatchingSwaps(grid);
+    expect(swaps[0]).toEqual({ x: 2, y: 9, chain: 2, cleared: 7 });
+    expect(swaps).toContainEqual({ x: 2, y: 11, chain: 1, cleared: 3 });
+    expect(swaps.every((s) => s.cleared >= 3)).toBe(true);
+  });
+
+  it('finds nothing on a board with no match', () => {
+    expect(findMatchingSwaps(board(['012340', '340120']))).toEqual([]);
+  });
+
+  it('drops a gem swapped over a gap before matching', () => {
+    // the 1 moves right over the gap, falls and completes the column
+    const grid = board(['1.....', '2.....', '01....', '01....']);
+    expect(findMatchingSwaps(grid)).toEqual([{ x: 0, y: 8, chain: 1, cleared: 3 }]);
+    const { grid: after } = playOutSwap(grid, { x: 0, y: 8 });
+    expect(after.slice(8).map((r) => r.slice(0, 2))).toEqual([
+      [-1, -1],
+      [2, -1],
+      [0, -1],
+      [0, -1],
+    ]);
+  });
+
+  it('never moves garbage', () => {
+    const g = GARBAGE_BASE + 1;
+    const grid = board(['001...']);
+    grid[11][3] = g;
+    grid[11][2] = g;
+    expect(findMatchingSwaps(grid)).toEqual([]);
+  });
+});
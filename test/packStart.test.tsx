@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import App from '../src/App';
+
+describe('starting a pack level', () => {
+  it('waits for installed packs and reports a level that is not there', async () => {
+    render(
+      <MemoryRouter
+        initialEntries={[{ pathname: '/play', state: { startLevelId: 'pack:gone/level-1' } }]}
+      >
+        <App />
+      </MemoryRouter>,
+    );
+    expect(await screen.findByText('Level not installed')).toBeTruthy();
+    expect(screen.getByText(/level-1 from the pack gone/)).toBeTruthy();
+  });
+});
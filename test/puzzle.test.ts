@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPuzzleSession,
+  loadSolvedPuzzles,
+  markPuzzleSolved,
+  type PuzzleSession,
+} from '../src/lib/puzzle';
+import PUZZLES from '../src/puzzles';
+import { parsePuzzles } from '../src/puzzles/loader';
+
+// Known solutions for the shipped pack: [x, y] of each swap's left cell
+const SOLUTIONS: Record<string, [number, number][]> = {
+  'puzzle-1': [[2, 11]],
+  'puzzle-2': [[1, 11]],
+  'puzzle-3': [
+    [0, 9],
+    [1, 11],
+  ],
+  'puzzle-4': [[3, 11]],
+  'puzzle-5': [
+    [2, 8],
+    [1, 9],
+    [1, 11],
+  ],
+  'puzzle-6': [
+    [0, 7],
+    [0, 10],
+    [2, 11],
+  ],
+  'puzzle-7': [
+    [2, 8],
+    [1, 10],
+    [1, 10],
+  ],
+};
+
+// Step until the board has come to rest and the session has looked at it
+function settle(s: PuzzleSession) {
+  s.advance(1000 / 60);
+  for (let i = 0; i < 600 && !s.getEngine().isSettled(); i++) s.advance(1000 / 60);
+  s.advance(1000 / 60);
+}
+
+function play(s: PuzzleSession, swaps: [number, number][]) {
+  settle(s);
+  for (const [x, y] of swaps) {
+    s.swapAt(x, y);
+    settle(s);
+  }
+}
+
+describe('Puzzle mode', () => {
+  it('every shipped puzzle is solvable within its swaps', () => {
+    for (const p of PUZZLES) {
+      const solution = SOLUTIONS[p.id];
+      expect(solution, p.id).toBeDefined();
+      expect(solution.length).toBeLessThanOrEqual(p.swaps);
+      const s = createPuzzleSession(p);
+      play(s, solution);
+      expect(s.status(), p.id).toBe('solved');
+    }
+  });
+
+  it('never rises and fails once the swaps run out', () => {
+    const s = createPuzzleSession(PUZZLES[0]);
+    play(s, [[0, 11]]);
+    expect(s.getEngine().scrollOffsetPx).toBe(0);
+    expect(s.swapsLeft()).toBe(0);
+    expect(s.status()).toBe('failed');
+    // further swaps are refused
+    s.swapAt(2, 11);
+    expect(s.swapsLeft()).toBe(0);
+  });
+
+  it('undo gives the swap back and retry restores the board', () => {
+    const s = createPuzzleSession(PUZZLES[0]);
+    const start = s.getEngine().grid.map((r) => r.slice());
+    play(s, [[0, 11]]);
+    expect(s.undo()).toBe(true);
+    expect(s.status()).toBe('playing');
+    expect(s.swapsLeft()).toBe(1);
+    expect(s.getEngine().grid).toEqual(start);
+
+    play(s, [[2, 11]]);
+    expect(s.status()).toBe('solved');
+    expect(s.undo()).toBe(false);
+    s.retry();
+    expect(s.status()).toBe('playing');
+    expect(s.getEngine().grid).toEqual(start);
+  });
+
+  it('has no win line however many lines the clears add up to', () => {
+    const [p] = parsePuzzles([
+      {
+        id: 'p',
+        name: 'p',
+        shortName: 'p',
+        width: 3,
+        numColors: 3,
+        swaps: 2,
+        goal: 'chain',
+        chain: 9,
+        board: ['002', '211', '101', '200', '210', '101', '020', '200', '001'],
+      },
+    ]);
+    const s = createPuzzleSession(p);
+    play(s, [
+      [0, 3],
+      [0, 9],
+    ]);
+    const e = s.getEngine();
+    expect(e.linesClearedEq).toBeGreaterThanOrEqual(e.targetLines);
+    expect(e.hasWon).toBe(false);
+    expect(s.status()).toBe('failed');
+  });
+
+  it('never tops out on a board filled to the top', () => {
+    const [p] = parsePuzzles([
+      {
+        id: 'p',
+        name: 'p',
+        shortName: 'p',
+        width: 4,
+        height: 4,
+        numColors: 3,
+        swaps: 2,
+        goal: 'clear',
+        board: ['0120', '1201', '0120', '1201'],
+      },
+    ]);
+    const s = createPuzzleSession(p);
+    for (let i = 0; i < 300; i++) s.advance(1000 / 60);
+    expect(s.getEngine().hasLost).toBe(false);
+    expect(s.status()).toBe('playing');
+    play(s, [[0, 3]]);
+    expect(s.swapsLeft()).toBe(1);
+    expect(s.status()).toBe('playing');
+    play(s, [[0, 3]]);
+    expect(s.status()).toBe('failed');
+  });
+
+  it('remembers solved puzzles', () => {
+    localStorage.clear();
+    markPuzzleSolved('puzzle-2');
+    markPuzzleSolved('puzzle-2');
+    expect([...loadSolvedPuzzles()]).toEqual(['puzzle-2']);
+  });
+
+  it('rejects puzzles with unknown goals', () => {
+    const raw = { id: 'p', name: 'p', shortName: 'p', swaps: 1, board: ['0'] };
+    expect(() => parsePuzzles([{ ...raw, width: 1, goal: 'chain' }])).toThrow(/chain length/);
+    expect(() => parsePuzzles([{ ...raw, width: 1, swaps: 0, goal: 'clear' }])).toThrow(/swaps/);
+  });
+});
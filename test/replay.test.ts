@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { applyLevelSetup } from '../src/lib/levelSetup';
+import { createReplayPlayer, createReplayRecorder, parseReplay } from '../src/lib/replay';
+
+const level = { targetLines: 5, startingLines: 6, raiseRate: 0.5 };
+
+// Drive an engine with a scripted pseudo-random player and record it
+function recordRun(seed: number) {
+  const e = new Engine(6, 12, 5, seed);
+  e.cellSize = 48;
+  applyLevelSetup(e, level);
+  const rec = createReplayRecorder(e, { levelId: 'level-test', numColors: 5, level });
+  for (let f = 0; f < 900 && !e.hasLost && !e.hasWon; f++) {
+    if (f % 7 === 0) e.moveCursor((f % 3) - 1, ((f >> 2) % 3) - 1);
+    if (f % 11 === 0) e.swap();
+    if (f === 300) e.setRaiseRate(2);
+    if (f === 360) e.setRaiseRate(0.5);
+    if (f === 400) e.setPaused(true);
+    if (f === 430) e.setPaused(false);
+    // uneven frame times: the engine still steps in fixed ticks
+    e.advance(f % 3 === 0 ? 7 : 23);
+  }
+  return { engine: e, replay: rec.finish() };
+}
+
+describe('Replay recording and playback', () => {
+  it('reproduces the recorded run exactly', () => {
+    const { engine, replay } = recordRun(777);
+    expect(replay.actions.length).toBeGreaterThan(0);
+
+    const player = createReplayPlayer(parseReplay(JSON.stringify(replay)));
+    player.seek(player.totalTicks);
+    const played = player.getEngine();
+    expect(played.grid).toEqual(engine.grid);
+    expect(played.score).toBe(engine.score);
+    expect(played.rowsInserted).toBe(engine.rowsInserted);
+    expect(played.hasLost).toBe(engine.hasLost);
+  });
+
+  it('seeks backwards by re-simulating from the start', () => {
+    const { replay } = recordRun(99);
+    const player = createReplayPlayer(replay);
+    player.seek(200);
+    const gridAt200 = player.getEngine().grid.map((r) => r.slice());
+    player.seek(600);
+    player.seek(200);
+    expect(player.getTick()).toBe(200);
+    expect(player.getEngine().grid).toEqual(gridAt200);
+  });
+
+  it('advances by playback time and honours speed scaling', () => {
+    const { replay } = recordRun(5);
+    const player = createReplayPlayer(replay);
+    // 4x speed for 250ms of wall time covers 60 ticks of 1000/60 ms
+    player.advance(250 * 4 + 1);
+    expect(player.getTick()).toBe(60);
+  });
+
+  it('rejects replays from another version', () => {
+    expect(() => parseReplay(JSON.stringify({ version: 999 }))).toThrow(/version/);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { BOT_STRATEGIES, formatReports, simulateLevel, simulateRun } from '../src/lib/simulator';
+import type { Level } from '../src/levels/types';
+
+const LEVEL: Level = {
+  id: 'sim',
+  name: 'Sim',
+  shortName: 'S',
+  background: null,
+  color: null,
+  width: 6,
+  height: 12,
+  numColors: 4,
+  startingLines: 5,
+  targetLines: 3,
+  raiseRate: 0.2,
+};
+
+describe('Level simulator', () => {
+  it('wins an easy level with a good bot', () => {
+    const r = simulateRun(LEVEL, 7, { bot: BOT_STRATEGIES.hard });
+    expect(r.won).toBe(true);
+    expect(r.lossCause).toBeNull();
+    expect(r.timeMs).toBeGreaterThan(0);
+    expect(r.score).toBeGreaterThan(0);
+  });
+
+  it('reports a bot that never swaps as topping out', () => {
+    const idle = { ...BOT_STRATEGIES.normal, reactionMs: Infinity };
+    const r = simulateRun({ ...LEVEL, raiseRate: 2 }, 7, { bot: idle });
+    expect(r.won).toBe(false);
+    expect(['topOut', 'noMoves']).toContain(r.lossCause);
+    expect(r.score).toBe(0);
+  });
+
+  it('plays masked levels against their mask and reports mask losses', () => {
+    const idle = { ...BOT_STRATEGIES.normal, reactionMs: Infinity };
+    const level = { ...LEVEL, raiseRate: 2, mask: 'notch.png' };
+    expect(() => simulateRun(level, 7, { bot: idle })).toThrow(/arena mask 'notch.png'/);
+    // the last column's ceiling comes down to row 6
+    const mask = { width: 6, height: 12, colTop: [-1, -1, -1, -1, -1, 6] };
+    const r = simulateRun(level, 7, { bot: idle, mask });
+    expect(r.lossCause).toBe('mask');
+  });
+
+  it('gives up on runs past the time cap', () => {
+    const idle = { ...BOT_STRATEGIES.normal, reactionMs: Infinity };
+    const r = simulateRun(LEVEL, 7, { bot: idle, maxRunMs: 1000 });
+    expect(r.lossCause).toBe('timeout');
+    expect(r.timeMs).toBeGreaterThanOrEqual(1000);
+  });
+
+  it('sums runs into a repeatable report', () => {
+    const opts = { bot: BOT_STRATEGIES.normal };
+    const report = simulateLevel(LEVEL, 3, 1, opts);
+    expect(report.runs).toBe(3);
+    const lost = report.losses.topOut + report.losses.noMoves + report.losses.timeout;
+    expect(report.wins + lost).toBe(3);
+    expect(report.winRate).toBeCloseTo(report.wins / 3);
+    expect(simulateLevel(LEVEL, 3, 1, opts)).toEqual(report);
+    expect(formatReports([report])).toMatch(/^level\s+runs\s+win %.*\nsim\s+3\s/);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../src/game-core/engine';
+import { applyLevelSetup } from '../src/lib/levelSetup';
+import { createPuzzleSession } from '../src/lib/puzzle';
+import { formatClock, timeAttackScores, timeAttackSetup } from '../src/lib/timeAttack';
+import PUZZLES from '../src/puzzles';
+
+const STEP = 1000 / 60;
+
+function timeAttackEngine(seed: number, minutes = 1) {
+  const e = new Engine(6, 12, 5, seed);
+  e.cellSize = 48;
+  applyLevelSetup(e, timeAttackSetup(minutes));
+  return e;
+}
+
+describe('Time attack mode', () => {
+  it('counts down and ends the run at zero', () => {
+    const e = timeAttackEngine(4);
+    expect(e.timeLeftMs).toBe(60_000);
+    let ended = 0;
+    e.events.on('timeUp', () => ended++);
+    for (let i = 0; i < 60 * 61 && !e.hasLost; i++) {
+      // keep the stack low so the clock, not a top out, ends the run
+      if (i % 30 === 0) e.grid.slice(0, 8).forEach((r) => r.fill(-1));
+      e.advance(STEP);
+    }
+    expect(e.hasLost).toBe(false);
+    expect(e.timeLeftMs).toBe(0);
+    expect(e.timeUp).toBe(true);
+    expect(ended).toBe(1);
+    expect(e.getState().timeUp).toBe(true);
+
+    // the board is frozen and swaps are refused
+    const grid = e.grid.map((r) => r.slice());
+    const offset = e.scrollOffsetPx;
+    e.swapAt(0, 11);
+    e.advance(1000);
+    expect(e.grid).toEqual(grid);
+    expect(e.scrollOffsetPx).toBe(offset);
+  });
+
+  it('stops the clock while paused and keeps it in snapshots', () => {
+    const e = timeAttackEngine(4);
+    e.advance(1000);
+    const left = e.timeLeftMs;
+    e.setPaused(true);
+    e.advance(5000);
+    expect(e.timeLeftMs).toBe(left);
+    e.setPaused(false);
+    expect(Engine.deserialize(e.serialize()).timeLeftMs).toBe(left);
+  });
+
+  it('tracks the longest chain and the largest combo', () => {
+    const s = createPuzzleSession(PUZZLES[0]);
+    const e = s.getEngine();
+    expect(e.maxChain).toBe(0);
+    s.advance(STEP);
+    s.swapAt(2, 11);
+    for (let i = 0; i < 600; i++) s.advance(STEP);
+    expect(e.maxChain).toBeGreaterThanOrEqual(1);
+    expect(e.largestCombo).toBeGreaterThanOrEqual(3);
+  });
+
+  it('ranks each clock length by score', () => {
+    localStorage.clear();
+    const two = timeAttackScores(2);
+    expect(two.record({ score: 300, maxChain: 2, largestCombo: 4, at: 1 })).toBe(1);
+    expect(two.record({ score: 900, maxChain: 1, largestCombo: 3, at: 2 })).toBe(1);
+    expect(two.load().map((r) => r.score)).toEqual([900, 300]);
+    expect(timeAttackScores(5).load()).toEqual([]);
+  });
+
+  it('formats the clock as m:ss', () => {
+    expect(formatClock(120_000)).toBe('2:00');
+    expect(formatClock(61_500)).toBe('1:02');
+    expect(formatClock(-5)).toBe('0:00');
+  });
+});
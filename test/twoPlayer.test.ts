@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { createVersusMatch } from '../src/lib/versus';
+import { createPlayerControls, RAISE_HOLD_RATE } from '../src/lib/playerControls';
+import {
+  DEFAULT_KEY_MAPS,
+  KEY_MAPS_KEY,
+  actionForKey,
+  keyLabel,
+  loadKeyMaps,
+  rebindKey,
+  saveKeyMaps,
+} from '../src/lib/keyMaps';
+import { createPadTracker, type PadSnapshot } from '../src/lib/gamepad';
+import type { Engine } from '../src/game-core/engine';
+
+// Announces a clear of `size` gems at the given chain step on `e`
+function clear(e: Engine, chain: number, size: number) {
+  const cells = Array.from({ length: size }, (_, x) => ({ x, y: 11, color: 0 }));
+  e.events.emit('match', { chain, cells, groups: [], scoreDelta: 0, score: e.score });
+}
+
+function pad(pressed: number[], axes: number[] = [0, 0]): PadSnapshot {
+  return {
+    buttons: Array.from({ length: 16 }, (_, i) => ({ pressed: pressed.includes(i) })),
+    axes,
+  };
+}
+
+describe('Two-player key maps', () => {
+  it('gives each player their own keys by default', () => {
+    const keys = [...Object.values(DEFAULT_KEY_MAPS[0]), ...Object.values(DEFAULT_KEY_MAPS[1])];
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(actionForKey(DEFAULT_KEY_MAPS, 'KeyW')).toEqual({ player: 0, action: 'up' });
+    expect(actionForKey(DEFAULT_KEY_MAPS, 'KeyZ')).toEqual({ player: 1, action: 'swap' });
+    expect(actionForKey(DEFAULT_KEY_MAPS, 'KeyP')).toBeNull();
+  });
+
+  it('rebinds a key and hands the old key to the slot it came from', () => {
+    const maps = rebindKey(DEFAULT_KEY_MAPS, 0, 'swap', 'KeyZ');
+    expect(maps[0].swap).toBe('KeyZ');
+    expect(maps[1].swap).toBe('KeyQ');
+    // the shared pause key can't be taken
+    expect(rebindKey(maps, 1, 'raise', 'KeyP')).toBe(maps);
+    expect(DEFAULT_KEY_MAPS[0].swap).toBe('KeyQ');
+  });
+
+  it('saves the maps and falls back to the defaults on bad data', () => {
+    localStorage.clear();
+    const maps = rebindKey(DEFAULT_KEY_MAPS, 1, 'raise', 'KeyM');
+    saveKeyMaps(maps);
+    expect(loadKeyMaps()).toEqual(maps);
+    localStorage.setItem(KEY_MAPS_KEY, JSON.stringify([{ left: 'KeyA' }]));
+    expect(loadKeyMaps()).toEqual(DEFAULT_KEY_MAPS);
+  });
+
+  it('labels keys compactly', () => {
+    expect(keyLabel('KeyW')).toBe('W');
+    expect(keyLabel('Digit4')).toBe('4');
+    expect(keyLabel('ArrowLeft')).toBe('←');
+    expect(keyLabel('Slash')).toBe('Slash');
+  });
+});
+
+describe('Gamepad tracking', () => {
+  it('reports presses and releases once per edge', () => {
+    const t = createPadTracker();
+    expect(t.update(pad([0, 14]))).toEqual({ pressed: ['left', 'swap'], released: [] });
+    expect(t.update(pad([0, 14]))).toEqual({ pressed: [], released: [] });
+    // the stick counts as the D-pad
+    expect(t.update(pad([], [0, 0.9]))).toEqual({ pressed: ['down'], released: ['left', 'swap'] });
+    expect(t.update(null)).toEqual({ pressed: [], released: ['down'] });
+  });
+});
+
+describe('Two-player match', () => {
+  it('moves only the pressing player and restores the rate after a raise', () => {
+    const match = createVersusMatch(3);
+    expect(match.cpuPlayer).toBeNull();
+    const p2 = createPlayerControls(match.opponent);
+    const x = match.player.cursorX;
+    p2.press('right');
+    expect(match.opponent.cursorX).toBe(x + 1);
+    expect(match.player.cursorX).toBe(x);
+
+    const rate = match.opponent.autoRiseRateRowsPerSec;
+    p2.press('raise');
+    expect(match.opponent.autoRiseRateRowsPerSec).toBe(RAISE_HOLD_RATE);
+    p2.release('raise');
+    expect(match.opponent.autoRiseRateRowsPerSec).toBe(rate);
+  });
+
+  it('sends garbage from either side', () => {
+    const match = createVersusMatch(3);
+    // a 4-gem clear as the second step of a chain: a 3-wide slab and a chain row
+    clear(match.opponent, 2, 4);
+    expect(match.player.pendingGarbage).toHaveLength(2);
+    expect(match.garbageSent).toEqual({ player: 0, opponent: 2 });
+    clear(match.player, 1, 3);
+    expect(match.opponent.pendingGarbage).toHaveLength(0);
+    clear(match.player, 3, 3);
+    expect(match.opponent.pendingGarbage).toEqual([expect.objectContaining({ width: 6 })]);
+    expect(match.garbageSent.player).toBe(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { CPU_DIFFICULTIES, findBestSwap } from '../src/lib/cpu';
+import { createVersusMatch, garbageForClear } from '../src/lib/versus';
+import { decodeRows } from '../src/levels/loader';
+import { isGarbage } from '../src/game-core/cell';
+
+const STEP = 1000 / 60;
+
+function board(rows: string[]) {
+  const blank = Array.from({ length: 12 - rows.length }, () => '......');
+  return decodeRows('test', 'board', [...blank, ...rows], 6, 5);
+}
+
+describe('CPU search', () => {
+  it('finds the swap that clears', () => {
+    expect(findBestSwap(board(['001234']))).toBeNull();
+    expect(findBestSwap(board(['001034']))).toEqual({ x: 2, y: 11 });
+  });
+
+  it('looks two swaps ahead at depth 2', () => {
+    // the 0 on the left needs two swaps to reach the other two
+    const grid = board(['012003']);
+    expect(findBestSwap(grid, 1)).toBeNull();
+    expect(findBestSwap(grid, 2)).toEqual({ x: 0, y: 11 });
+  });
+
+  it('prefers a chain over a plain clear', () => {
+    // x=2 on the bottom row clears three 2s; x=2 on row 9 clears the 1s in
+    // column 2 instead and drops the top 2 into the bottom row for a 2-chain
+    const grid = board(['..2...', '..01..', '..13..', '2212..']);
+    expect(findBestSwap(grid, 1)).toEqual({ x: 2, y: 9 });
+  });
+});
+
+describe('Versus mode', () => {
+  it('sends garbage for combos and chain steps', () => {
+    expect(garbageForClear(1, 3, 6)).toEqual([]);
+    expect(garbageForClear(1, 5, 6)).toEqual([{ width: 4, height: 1 }]);
+    expect(garbageForClear(1, 9, 6)).toEqual([{ width: 6, height: 1 }]);
+    expect(garbageForClear(2, 3, 6)).toEqual([{ width: 6, height: 1 }]);
+  });
+
+  it('plays the CPU the same way at any frame rate', () => {
+    const at60 = createVersusMatch(5, { cpu: CPU_DIFFICULTIES.normal });
+    const at30 = createVersusMatch(5, { cpu: CPU_DIFFICULTIES.normal });
+    for (let i = 0; i < 60 * 20; i++) at60.advance(STEP);
+    for (let i = 0; i < 30 * 20; i++) at30.advance(2 * STEP);
+    expect(at30.opponent.tick).toBe(at60.opponent.tick);
+    expect(at60.opponent.matchesTotal).toBeGreaterThan(0);
+    expect(at30.opponent.serialize()).toEqual(at60.opponent.serialize());
+  });
+
+  it('buries an idle player under CPU garbage until they top out', () => {
+    const match = createVersusMatch(11, { cpu: CPU_DIFFICULTIES.hard });
+    let sawGarbage = false;
+    for (let i = 0; i < 60 * 240 && match.result() === 'playing'; i++) {
+      match.advance(STEP);
+      if (match.player.pendingGarbage.length > 0) sawGarbage = true;
+      if (match.player.grid.some((r) => r.some(isGarbage))) sawGarbage = true;
+    }
+    expect(match.result()).toBe('lost');
+    expect(match.opponent.hasLost).toBe(false);
+    expect(match.opponent.matchesTotal).toBeGreaterThan(0);
+    expect(sawGarbage).toBe(true);
+    expect(match.garbageSent.opponent).toBeGreaterThan(0);
+    expect(match.garbageSent.player).toBe(0);
+  });
+});
@@ -1,8 +1,40 @@
-import { defineConfig } from 'vite';
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { defineConfig, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { formatLevelProblems, validateLevels } from './src/levels/validate';
+
+const root = dirname(fileURLToPath(import.meta.url));
+const levelsDir = resolve(root, 'src/levels');
+
+// An asset path in levels.json resolves if it's a file next to the sources
+// (`../assets/...`) or a public copy (`assets/...`)
+function assetExists(path: string) {
+  const cleaned = path.replace(/^(\.\.?\/)+/, '');
+  return existsSync(resolve(levelsDir, path)) || existsSync(resolve(root, 'public', cleaned));
+}
+
+// Checks levels.json when the dev server or a build starts. Errors (levels
+// that won't load) always fail a build; `vite build --mode strict` fails on
+// warnings too, such as unknown fields and asset files that don't exist.
+function checkLevels(strict: boolean): Plugin {
+  return {
+    name: 'check-levels',
+    buildStart() {
+      const raw: unknown = JSON.parse(readFileSync(resolve(levelsDir, 'levels.json'), 'utf8'));
+      const problems = validateLevels(raw, { assetExists });
+      if (problems.length === 0) return;
+      const report = `levels.json has problems:\n${formatLevelProblems(problems)}`;
+      const failed = problems.some((p) => p.severity === 'error' || strict);
+      if (failed && this.meta.watchMode === false) this.error(report);
+      else this.warn(report);
+    },
+  };
+}
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   base: './',
-  plugins: [react()],
-});
+  plugins: [react(), checkLevels(mode === 'strict')],
+}));